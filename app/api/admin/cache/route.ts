@@ -0,0 +1,32 @@
+/**
+ * Bubbl Chatbot API - Answer Cache
+ *
+ * Requires an X-API-Key with the "admin" scope. Managed admin keys can only purge their own tenant.
+ */
+
+import { withApiKeyScope } from "../../../../lib/admin-auth";
+import { purgeAnswerCache } from "../../../../lib/answer-cache";
+import { canManageTenant } from "../../../../lib/api-keys";
+import { ChatError } from "../../../../lib/errors";
+
+/**
+ * DELETE /api/admin/cache?tenant_id=acme
+ * Purges cached answers - all of them, or only one tenant's (e.g. after editing its prompt)
+ */
+export const DELETE = withApiKeyScope('admin', async (request, { requestId, identity }) => {
+  const requested = new URL(request.url).searchParams.get('tenant_id') || undefined;
+  if (requested && !canManageTenant(identity, requested)) {
+    throw new ChatError('AUTH_ERROR', 403, {
+      message: 'Tenant not allowed',
+      userMessage: 'This API key can only manage its own tenant.',
+    });
+  }
+
+  // Purging every tenant is reserved for BUBBL_ADMIN_KEYS
+  const purged = await purgeAnswerCache(identity.allTenants ? requested : identity.tenant.id);
+
+  return Response.json({
+    purged,
+    requestId,
+  });
+});
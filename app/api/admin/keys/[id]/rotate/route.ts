@@ -0,0 +1,52 @@
+/**
+ * Bubbl Chatbot API - Rotate an API key
+ *
+ * Requires an X-API-Key with the "admin" scope. Managed admin keys can only rotate keys of their own tenant.
+ */
+
+import { withApiKeyScope } from "../../../../../../lib/admin-auth";
+import { canManageTenant, getApiKey, rotateApiKey, toPublicKeyRecord } from "../../../../../../lib/api-keys";
+import { ChatError } from "../../../../../../lib/errors";
+import { parseWithSchema, rotateApiKeyRequestSchema } from "../../../../../../lib/validation";
+
+// Default time the old key keeps working after rotation (24 hours)
+const DEFAULT_OVERLAP_SECONDS = 24 * 60 * 60;
+
+/**
+ * POST /api/admin/keys/:id/rotate
+ *
+ * Request body (optional):
+ * {
+ *   "overlap_seconds": 86400 // how long the old key stays valid
+ * }
+ *
+ * Response includes the new plaintext "key" - it is shown once and never stored.
+ */
+export const POST = withApiKeyScope<{ id: string }>('admin', async (request, { requestId, identity, params }) => {
+  // The body is optional - an empty or missing body uses the default overlap
+  const parsed = parseWithSchema(rotateApiKeyRequestSchema, await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    throw new ChatError('VALIDATION_ERROR', 400, { userMessage: 'Invalid rotation settings.' }, {}, parsed.errors);
+  }
+
+  const overlapSeconds = parsed.data.overlap_seconds ?? DEFAULT_OVERLAP_SECONDS;
+
+  // Other tenants' keys are reported as missing rather than forbidden
+  const existing = await getApiKey(params.id);
+  const rotated = existing && canManageTenant(identity, existing.tenantId)
+    ? await rotateApiKey(params.id, overlapSeconds)
+    : null;
+  if (!rotated) {
+    throw new ChatError('VALIDATION_ERROR', 404, {
+      message: 'API key not found',
+      userMessage: 'API key not found, expired or revoked.',
+    });
+  }
+
+  return Response.json({
+    key: rotated.key,
+    record: toPublicKeyRecord(rotated.record),
+    previous: toPublicKeyRecord(rotated.previous),
+    requestId,
+  }, { status: 201 });
+});
@@ -0,0 +1,28 @@
+/**
+ * Bubbl Chatbot API - Revoke an API key
+ *
+ * Requires an X-API-Key with the "admin" scope. Managed admin keys can only revoke keys of their own tenant.
+ */
+
+import { withApiKeyScope } from "../../../../../lib/admin-auth";
+import { canManageTenant, getApiKey, revokeApiKey, toPublicKeyRecord } from "../../../../../lib/api-keys";
+import { ChatError } from "../../../../../lib/errors";
+
+/**
+ * DELETE /api/admin/keys/:id
+ * Revokes the key immediately
+ */
+export const DELETE = withApiKeyScope<{ id: string }>('admin', async (_request, { requestId, identity, params }) => {
+  // Other tenants' keys are reported as missing rather than forbidden
+  const existing = await getApiKey(params.id);
+  if (!existing || !canManageTenant(identity, existing.tenantId)) {
+    throw new ChatError('VALIDATION_ERROR', 404, { message: 'API key not found', userMessage: 'API key not found.' });
+  }
+
+  const record = (await revokeApiKey(params.id))!;
+
+  return Response.json({
+    record: toPublicKeyRecord(record),
+    requestId,
+  });
+});
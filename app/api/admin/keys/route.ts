@@ -0,0 +1,91 @@
+/**
+ * Bubbl Chatbot API - API Key Management
+ *
+ * Requires an X-API-Key with the "admin" scope. Managed admin keys only see and create keys
+ * for their own tenant; BUBBL_ADMIN_KEYS manage every tenant and are the only keys that can
+ * grant "admin".
+ */
+
+import { withApiKeyScope } from "../../../../lib/admin-auth";
+import {
+  canManageTenant,
+  createApiKey,
+  listApiKeys,
+  toPublicKeyRecord,
+  API_KEY_SCOPES,
+  TENANT_GRANTABLE_SCOPES,
+} from "../../../../lib/api-keys";
+import { ChatError } from "../../../../lib/errors";
+import { getTenantById } from "../../../../lib/tenants";
+import { parseWithSchema, createApiKeyRequestSchemaFor } from "../../../../lib/validation";
+
+/**
+ * GET /api/admin/keys?tenant_id=acme
+ * Lists managed keys (never includes key hashes)
+ */
+export const GET = withApiKeyScope('admin', async (request, { requestId, identity }) => {
+  const requested = new URL(request.url).searchParams.get('tenant_id') || undefined;
+  if (requested && !canManageTenant(identity, requested)) {
+    throw new ChatError('AUTH_ERROR', 403, {
+      message: 'Tenant not allowed',
+      userMessage: 'This API key can only manage its own tenant.',
+    });
+  }
+
+  // Managed admin keys only ever list their own tenant
+  const keys = await listApiKeys(identity.allTenants ? requested : identity.tenant.id);
+
+  return Response.json({
+    keys: keys.map(toPublicKeyRecord),
+    requestId,
+  });
+});
+
+/**
+ * POST /api/admin/keys
+ *
+ * Request body:
+ * {
+ *   "tenant_id": "acme", // optional, defaults to the calling key's tenant
+ *   "name": "Acme production", // optional
+ *   "scopes": ["chat:write"], // optional, defaults to ["chat:write"]
+ *   "expires_in_days": 90 // optional
+ * }
+ *
+ * Response includes the plaintext "key" - it is shown once and never stored.
+ */
+export const POST = withApiKeyScope('admin', async (request, { requestId, identity }) => {
+  const grantable = identity.allTenants ? API_KEY_SCOPES : TENANT_GRANTABLE_SCOPES;
+  const parsed = parseWithSchema(createApiKeyRequestSchemaFor(grantable), await request.json().catch(() => null));
+  if (!parsed.success) {
+    throw new ChatError('VALIDATION_ERROR', 400, { userMessage: 'Invalid key settings.' }, {}, parsed.errors);
+  }
+
+  const { tenant_id: tenantId = identity.tenant.id, name, scopes = ['chat:write'], expires_in_days: expiresInDays } = parsed.data;
+  if (!getTenantById(tenantId)) {
+    throw new ChatError('VALIDATION_ERROR', 400, { userMessage: 'Unknown tenant_id.' }, {}, [
+      { path: 'tenant_id', reason: 'is not a configured tenant' },
+    ]);
+  }
+  if (!canManageTenant(identity, tenantId)) {
+    throw new ChatError('AUTH_ERROR', 403, {
+      message: 'Tenant not allowed',
+      userMessage: 'This API key can only manage its own tenant.',
+    });
+  }
+
+  const { key, record } = await createApiKey({
+    tenantId,
+    scopes,
+    name,
+    expiresAt: expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined,
+  });
+
+  return Response.json({
+    key,
+    record: toPublicKeyRecord(record),
+    requestId,
+  }, { status: 201 });
+});
@@ -0,0 +1,60 @@
+/**
+ * Bubbl Chatbot API - Spend Report
+ *
+ * Reports current daily and monthly spend against the budget.
+ * API key spend is charged to the key's tenant, so any chat key can read its tenant's spend.
+ * Admin keys can look up tenants they manage; user budgets aren't tied to a tenant, so only
+ * BUBBL_ADMIN_KEYS can look up users.
+ */
+
+import { withApiKeyScope } from "../../../lib/admin-auth";
+import { canManageTenant, hasScope } from "../../../lib/api-keys";
+import { budgetSubject, getBudgetRule, getBudgetStatus } from "../../../lib/budgets";
+import { ChatError } from "../../../lib/errors";
+import { getTenantById } from "../../../lib/tenants";
+
+/**
+ * GET /api/budget
+ * GET /api/budget?tenant_id=acme (admin)
+ * GET /api/budget?user_id=user-123 (BUBBL_ADMIN_KEYS)
+ */
+export const GET = withApiKeyScope('chat:write', async (request, { requestId, identity }) => {
+  const params = new URL(request.url).searchParams;
+  const tenantId = params.get('tenant_id');
+  const userId = params.get('user_id');
+
+  if ((tenantId || userId) && !hasScope(identity.scopes, 'admin')) {
+    throw new ChatError('AUTH_ERROR', 403, {
+      message: 'Insufficient scope',
+      userMessage: 'Only admin keys can view other budgets.',
+    });
+  }
+
+  if (userId && !identity.allTenants) {
+    throw new ChatError('AUTH_ERROR', 403, {
+      message: 'Insufficient scope',
+      userMessage: 'Only platform admin keys can view user budgets.',
+    });
+  }
+
+  let subject = budgetSubject({ apiKey: request.headers.get('x-api-key') || undefined, tenant: identity.tenant })!;
+  let tenant = identity.tenant;
+
+  if (tenantId) {
+    const found = getTenantById(tenantId);
+    if (!found || !canManageTenant(identity, found.id)) {
+      throw new ChatError('VALIDATION_ERROR', 404, { message: 'Tenant not found', userMessage: 'Tenant not found.' });
+    }
+    subject = { type: 'tenant', id: found.id };
+    tenant = found;
+  } else if (userId) {
+    subject = { type: 'user', id: userId };
+  }
+
+  const status = await getBudgetStatus(subject, getBudgetRule(subject, tenant));
+
+  return Response.json({
+    ...status,
+    requestId,
+  });
+});
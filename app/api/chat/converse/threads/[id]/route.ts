@@ -0,0 +1,42 @@
+import { authOptions } from "@/lib/auth";
+import { sessionAuth } from "@/lib/chat-auth";
+import { ChatError, ERROR_RESPONSES } from "@/lib/errors";
+import { takeHandoffUpdate } from "@/lib/handoff";
+import { logger } from "@/lib/logger";
+import { ThreadResponseBody } from "@/lib/openapi";
+import { getThread } from "@/lib/threads";
+
+const auth = sessionAuth(authOptions);
+
+// Handoff thread polling for the logged-in widget (NextAuth session)
+// While staff own the conversation, the widget polls the handoff's `thread_id` here so staff
+// replies show up without the guest sending a message - including replies sent just before
+// staff closed the ticket. Each reply is returned once.
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const requestId = crypto.randomUUID();
+
+  try {
+    const principal = await auth.authenticate(request, requestId);
+    const thread = await getThread(principal.tenant.id, params.id);
+    // Handoff threads are owned by the user who started them
+    if (!thread || thread.userId !== principal.userId) {
+      throw new ChatError('VALIDATION_ERROR', 404, { message: 'Thread not found', userMessage: 'Conversation not found.' });
+    }
+
+    const handoff = await takeHandoffUpdate(thread);
+    const body: ThreadResponseBody = {
+      thread_id: thread.id,
+      messages: thread.messages.map(({ role, content, timestamp, author }) => ({ role, content, timestamp, author })),
+      handoff: handoff && { ticket_id: handoff.ticketId, status: handoff.status, replies: handoff.replies },
+      requestId,
+    };
+    return Response.json(body);
+  } catch (error: any) {
+    if (error instanceof ChatError) {
+      return Response.json(error.toBody(requestId), { status: error.status, headers: error.headers });
+    }
+
+    logger.error('Thread poll error', { requestId, error: error?.message });
+    return Response.json({ ...ERROR_RESPONSES.UNKNOWN, requestId }, { status: 500 });
+  }
+}
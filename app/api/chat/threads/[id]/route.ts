@@ -0,0 +1,34 @@
+/**
+ * Bubbl Chatbot API - Thread
+ *
+ * Lets a guest-facing client read a conversation and poll for staff replies while it's
+ * handed off, instead of waiting for the guest's next message.
+ * Requires an X-API-Key with the "threads:read" scope.
+ */
+
+import { withApiKeyScope } from "../../../../../lib/admin-auth";
+import { ChatError } from "../../../../../lib/errors";
+import { takeHandoffUpdate } from "../../../../../lib/handoff";
+import { ThreadResponseBody } from "../../../../../lib/openapi";
+import { getThread, isThreadOwner } from "../../../../../lib/threads";
+
+/**
+ * GET /api/chat/threads/:id
+ * Returns the thread, and its handoff with the staff replies not returned before
+ */
+export const GET = withApiKeyScope<{ id: string }>('threads:read', async (_request, { requestId, identity, params }) => {
+  const thread = await getThread(identity.tenant.id, params.id);
+  // Threads started by a logged-in user are theirs alone (see isThreadOwner)
+  if (!thread || !isThreadOwner(thread, undefined)) {
+    throw new ChatError('VALIDATION_ERROR', 404, { message: 'Thread not found', userMessage: 'Conversation not found.' });
+  }
+
+  const handoff = await takeHandoffUpdate(thread);
+  const body: ThreadResponseBody = {
+    thread_id: thread.id,
+    messages: thread.messages.map(({ role, content, timestamp, author }) => ({ role, content, timestamp, author })),
+    handoff: handoff && { ticket_id: handoff.ticketId, status: handoff.status, replies: handoff.replies },
+    requestId,
+  };
+  return Response.json(body);
+});
@@ -0,0 +1,16 @@
+/**
+ * Bubbl Chatbot API - OpenAPI document
+ *
+ * Import this URL into Bubble.io's API Connector or an OpenAPI client generator.
+ */
+
+import { buildOpenApiSpec } from "../../../lib/openapi";
+
+/**
+ * GET /api/openapi.json
+ */
+export async function GET(request: Request) {
+  const serverUrl = process.env.NEXT_PUBLIC_BASE_URL || new URL(request.url).origin;
+
+  return Response.json(buildOpenApiSpec(serverUrl));
+}
@@ -0,0 +1,34 @@
+/**
+ * Bubbl Chatbot API - Claim a Handoff Ticket
+ *
+ * Requires an X-API-Key with the "handoffs:write" scope.
+ */
+
+import { withApiKeyScope } from "../../../../../../lib/admin-auth";
+import { ChatError } from "../../../../../../lib/errors";
+import { claimHandoffTicket } from "../../../../../../lib/handoff";
+import { parseWithSchema, handoffActionRequestSchema } from "../../../../../../lib/validation";
+
+/**
+ * POST /api/staff/handoffs/:id/claim
+ * Assigns the ticket to a staff member (409 if someone else has it)
+ *
+ * Request body (optional):
+ * {
+ *   "agent": "Dana" // defaults to the API key id
+ * }
+ */
+export const POST = withApiKeyScope<{ id: string }>('handoffs:write', async (request, { requestId, identity, params }) => {
+  const parsed = parseWithSchema(handoffActionRequestSchema, await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    throw new ChatError('VALIDATION_ERROR', 400, { userMessage: 'Invalid request.' }, {}, parsed.errors);
+  }
+
+  const agent = parsed.data.agent || identity.keyId || 'staff';
+  const ticket = await claimHandoffTicket(identity.tenant.id, params.id, agent);
+
+  return Response.json({
+    ticket,
+    requestId,
+  });
+});
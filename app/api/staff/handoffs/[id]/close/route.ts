@@ -0,0 +1,34 @@
+/**
+ * Bubbl Chatbot API - Close a Handoff Ticket
+ *
+ * Requires an X-API-Key with the "handoffs:write" scope.
+ */
+
+import { withApiKeyScope } from "../../../../../../lib/admin-auth";
+import { ChatError } from "../../../../../../lib/errors";
+import { closeHandoffTicket } from "../../../../../../lib/handoff";
+import { parseWithSchema, handoffActionRequestSchema } from "../../../../../../lib/validation";
+
+/**
+ * POST /api/staff/handoffs/:id/close
+ * Closes the ticket - the model answers the thread again
+ *
+ * Request body (optional):
+ * {
+ *   "agent": "Dana" // defaults to the API key id
+ * }
+ */
+export const POST = withApiKeyScope<{ id: string }>('handoffs:write', async (request, { requestId, identity, params }) => {
+  const parsed = parseWithSchema(handoffActionRequestSchema, await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    throw new ChatError('VALIDATION_ERROR', 400, { userMessage: 'Invalid request.' }, {}, parsed.errors);
+  }
+
+  const agent = parsed.data.agent || identity.keyId || 'staff';
+  const ticket = await closeHandoffTicket(identity.tenant.id, params.id, agent);
+
+  return Response.json({
+    ticket,
+    requestId,
+  });
+});
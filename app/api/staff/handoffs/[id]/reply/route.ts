@@ -0,0 +1,35 @@
+/**
+ * Bubbl Chatbot API - Reply to a Handoff Ticket
+ *
+ * Requires an X-API-Key with the "handoffs:write" scope.
+ */
+
+import { withApiKeyScope } from "../../../../../../lib/admin-auth";
+import { ChatError } from "../../../../../../lib/errors";
+import { replyToHandoff } from "../../../../../../lib/handoff";
+import { parseWithSchema, handoffReplyRequestSchema } from "../../../../../../lib/validation";
+
+/**
+ * POST /api/staff/handoffs/:id/reply
+ * Adds a staff reply to the guest's thread (claims the ticket if it's still open)
+ *
+ * Request body:
+ * {
+ *   "message": "Hi, I've refunded the cleaning fee.",
+ *   "agent": "Dana" // optional, defaults to the API key id
+ * }
+ */
+export const POST = withApiKeyScope<{ id: string }>('handoffs:write', async (request, { requestId, identity, params }) => {
+  const parsed = parseWithSchema(handoffReplyRequestSchema, await request.json().catch(() => null));
+  if (!parsed.success) {
+    throw new ChatError('VALIDATION_ERROR', 400, { userMessage: 'Please provide a reply message.' }, {}, parsed.errors);
+  }
+
+  const agent = parsed.data.agent || identity.keyId || 'staff';
+  const ticket = await replyToHandoff(identity.tenant.id, params.id, agent, parsed.data.message);
+
+  return Response.json({
+    ticket,
+    requestId,
+  });
+});
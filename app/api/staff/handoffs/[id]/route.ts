@@ -0,0 +1,25 @@
+/**
+ * Bubbl Chatbot API - Handoff Ticket
+ *
+ * Requires an X-API-Key with the "handoffs:read" scope (or "handoffs:write").
+ */
+
+import { withApiKeyScope } from "../../../../../lib/admin-auth";
+import { ChatError } from "../../../../../lib/errors";
+import { getHandoffTicket } from "../../../../../lib/handoff";
+
+/**
+ * GET /api/staff/handoffs/:id
+ * Returns one ticket with its transcript
+ */
+export const GET = withApiKeyScope<{ id: string }>('handoffs:read', async (_request, { requestId, identity, params }) => {
+  const ticket = await getHandoffTicket(identity.tenant.id, params.id);
+  if (!ticket) {
+    throw new ChatError('VALIDATION_ERROR', 404, { message: 'Handoff ticket not found', userMessage: 'Handoff ticket not found.' });
+  }
+
+  return Response.json({
+    ticket,
+    requestId,
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Bubbl Chatbot API - Handoff Queue
+ *
+ * Requires an X-API-Key with the "handoffs:read" scope (or "handoffs:write"). Staff only see their own
+ * tenant's tickets.
+ */
+
+import { withApiKeyScope } from "../../../../lib/admin-auth";
+import { ChatError } from "../../../../lib/errors";
+import { listHandoffTickets, HandoffStatus } from "../../../../lib/handoff";
+
+const STATUSES: HandoffStatus[] = ['open', 'claimed', 'closed'];
+
+/**
+ * GET /api/staff/handoffs?status=open
+ * Lists handoff tickets, oldest first (all statuses unless one is given)
+ */
+export const GET = withApiKeyScope('handoffs:read', async (request, { requestId, identity }) => {
+  const status = new URL(request.url).searchParams.get('status') || undefined;
+  if (status && !STATUSES.includes(status as HandoffStatus)) {
+    throw new ChatError('VALIDATION_ERROR', 400, { userMessage: 'Invalid status filter.' }, {}, [
+      { path: 'status', reason: `must be one of: ${STATUSES.join(', ')}` },
+    ]);
+  }
+
+  const tickets = await listHandoffTickets(identity.tenant.id, status as HandoffStatus | undefined);
+
+  return Response.json({
+    tickets,
+    requestId,
+  });
+});
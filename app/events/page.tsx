@@ -1,8 +1,13 @@
 /**
  * Events Page - Placeholder for Testing Chatbot Links
+ * Rendered from the same event catalog the chatbot uses (lib/events.ts)
  */
 
+import { getEvents } from "@/lib/events";
+
 export default function EventsPage() {
+  const events = getEvents();
+
   return (
     <main style={{ padding: '2rem', fontFamily: 'system-ui, sans-serif' }}>
       <div style={{ maxWidth: '800px', margin: '0 auto' }}>
@@ -19,62 +24,43 @@ export default function EventsPage() {
         }}>
           <h2>Upcoming Events</h2>
 
-          <div style={{
-            background: 'white',
-            padding: '1rem',
-            borderRadius: '6px',
-            marginTop: '1rem'
-          }}>
-            <h3>Sundance Film Festival</h3>
-            <p><strong>Dates:</strong> January 20-30, 2025</p>
-            <p><strong>Location:</strong> Park City, Utah</p>
-            <p>
-              The Sundance Film Festival showcases independent films and attracts filmmakers
-              from around the world.
-            </p>
-            <a
-              href="/listings?event=sundance"
-              style={{
-                display: 'inline-block',
-                padding: '0.5rem 1rem',
-                background: '#007bff',
-                color: 'white',
-                textDecoration: 'none',
-                borderRadius: '4px',
-                marginTop: '0.5rem'
-              }}
-            >
-              View Sundance Spaces
-            </a>
-          </div>
-
-          <div style={{
-            background: 'white',
-            padding: '1rem',
-            borderRadius: '6px',
-            marginTop: '1rem'
-          }}>
-            <h3>SXSW</h3>
-            <p><strong>Dates:</strong> March 7-16, 2025</p>
-            <p><strong>Location:</strong> Austin, Texas</p>
-            <p>
-              South by Southwest brings together music, film, and interactive media.
-            </p>
-            <a
-              href="/listings?event=sxsw"
+          {events.map((event) => (
+            <div
+              key={event.slug}
               style={{
-                display: 'inline-block',
-                padding: '0.5rem 1rem',
-                background: '#007bff',
-                color: 'white',
-                textDecoration: 'none',
-                borderRadius: '4px',
-                marginTop: '0.5rem'
+                background: 'white',
+                padding: '1rem',
+                borderRadius: '6px',
+                marginTop: '1rem'
               }}
             >
-              View SXSW Spaces
-            </a>
-          </div>
+              <h3>{event.name}</h3>
+              <p><strong>Dates:</strong> {event.dates}</p>
+              <p><strong>Location:</strong> {event.location}</p>
+              <p>{event.summary}</p>
+              {event.bubbl_stats && (
+                <p>
+                  <strong>Bubbl:</strong> {event.bubbl_stats.spaces_available} spaces,{' '}
+                  {event.bubbl_stats.price_range}
+                  {event.bubbl_stats.avg_distance && `, ${event.bubbl_stats.avg_distance}`}
+                </p>
+              )}
+              <a
+                href={`/listings?event=${event.slug}`}
+                style={{
+                  display: 'inline-block',
+                  padding: '0.5rem 1rem',
+                  background: '#007bff',
+                  color: 'white',
+                  textDecoration: 'none',
+                  borderRadius: '4px',
+                  marginTop: '0.5rem'
+                }}
+              >
+                View {event.name} Spaces
+              </a>
+            </div>
+          ))}
         </div>
 
         <div style={{ marginTop: '2rem' }}>
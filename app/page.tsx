@@ -1,9 +1,46 @@
 /**
  * Bubbl Chatbot API - Documentation Homepage
+ * Endpoint docs are rendered from the OpenAPI spec served at /api/openapi.json
  */
 
+import { buildOpenApiSpec, exampleFromSchema } from '../lib/openapi';
+import { ERROR_RESPONSES, ErrorCode } from '../lib/errors';
+import type { JsonSchema } from '../lib/validation';
+
+type Operation = {
+  summary: string;
+  description?: string;
+  security?: Record<string, string[]>[];
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { content?: Record<string, { schema?: JsonSchema }> }>;
+};
+
+const errorCodes = Object.keys(ERROR_RESPONSES) as ErrorCode[];
+
+function authLabel(operation: Operation): string | null {
+  const scheme = Object.keys(operation.security?.[0] || {})[0];
+  if (scheme === 'ApiKeyAuth') return 'X-API-Key header';
+  if (scheme === 'SessionCookie') return 'Logged-in session';
+  return null;
+}
+
+function requestExample(operation: Operation) {
+  const jsonSchema = operation.requestBody?.content['application/json']?.schema;
+  return jsonSchema ? exampleFromSchema(jsonSchema) : undefined;
+}
+
+function responseExample(operation: Operation) {
+  const success = Object.entries(operation.responses).find(([status]) => status.startsWith('2'));
+  const jsonSchema = success?.[1].content?.['application/json']?.schema;
+  return jsonSchema ? exampleFromSchema(jsonSchema) : undefined;
+}
+
 export default function HomePage() {
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://your-app.railway.app';
+  const spec = buildOpenApiSpec(baseUrl);
+  const endpoints = Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods as Record<string, Operation>).map(([method, operation]) => ({ method, path, operation }))
+  );
 
   return (
     <main style={{
@@ -39,7 +76,7 @@ export default function HomePage() {
           </div>
         </div>
 
-        {/* API Endpoints */}
+        {/* API Endpoints (rendered from the OpenAPI spec) */}
         <div style={{
           padding: '1.5rem',
           background: 'white',
@@ -48,57 +85,68 @@ export default function HomePage() {
           boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
         }}>
           <h2>API Endpoints</h2>
+          <p style={{ color: '#666' }}>
+            Full spec: <a href="/api/openapi.json" style={{ color: '#007bff' }}>{baseUrl}/api/openapi.json</a>
+          </p>
 
-          <div style={{ marginTop: '1rem' }}>
-            <h3 style={{ fontSize: '1.1rem', marginBottom: '0.5rem' }}>
-              POST {baseUrl}/api/chat
-            </h3>
-            <p style={{ color: '#666', marginBottom: '0.5rem' }}>
-              Send a message and get AI response
-            </p>
-
-            <details style={{ marginTop: '0.5rem' }}>
-              <summary style={{ cursor: 'pointer', color: '#007bff' }}>
-                View Request/Response Format
-              </summary>
-              <div style={{
-                padding: '1rem',
-                background: '#f5f5f5',
-                borderRadius: '4px',
-                marginTop: '0.5rem'
-              }}>
-                <strong>Request Body:</strong>
-                <pre style={{ overflow: 'auto', fontSize: '0.875rem' }}>{`{
-  "message": "How does Bubbl work?",
-  "thread_id": "optional_conversation_id",
-  "messages": [
-    {"role": "user", "content": "..."},
-    {"role": "assistant", "content": "..."}
-  ],
-  "site_url": "https://bubbl.io"
-}`}</pre>
-
-                <strong style={{ marginTop: '1rem', display: 'block' }}>Response:</strong>
-                <pre style={{ overflow: 'auto', fontSize: '0.875rem' }}>{`{
-  "message": "Bubbl connects you with [verified spaces](/listings)...",
-  "thread_id": "abc123",
-  "timestamp": "2025-01-09T...",
-  "success": true,
-  "requestId": "uuid",
-  "duration": 1234
-}`}</pre>
-              </div>
-            </details>
-          </div>
+          {endpoints.map(({ method, path, operation }) => (
+            <div key={`${method} ${path}`} style={{ marginTop: '1.5rem' }}>
+              <h3 style={{ fontSize: '1.1rem', marginBottom: '0.5rem' }}>
+                {method.toUpperCase()} {baseUrl}{path}
+              </h3>
+              <p style={{ color: '#666', marginBottom: '0.5rem' }}>
+                {operation.summary}
+                {authLabel(operation) && (
+                  <span style={{ marginLeft: '0.5rem', fontSize: '0.8rem', color: '#856404' }}>
+                    🔑 {authLabel(operation)}
+                  </span>
+                )}
+              </p>
+              {operation.description && (
+                <p style={{ color: '#666', fontSize: '0.9rem' }}>{operation.description}</p>
+              )}
 
-          <div style={{ marginTop: '1.5rem' }}>
-            <h3 style={{ fontSize: '1.1rem', marginBottom: '0.5rem' }}>
-              GET {baseUrl}/api/chat
-            </h3>
-            <p style={{ color: '#666' }}>
-              Health check endpoint
-            </p>
-          </div>
+              {(requestExample(operation) !== undefined || responseExample(operation) !== undefined) && (
+                <details style={{ marginTop: '0.5rem' }}>
+                  <summary style={{ cursor: 'pointer', color: '#007bff' }}>
+                    View Request/Response Format
+                  </summary>
+                  <div style={{
+                    padding: '1rem',
+                    background: '#f5f5f5',
+                    borderRadius: '4px',
+                    marginTop: '0.5rem'
+                  }}>
+                    {requestExample(operation) !== undefined && (
+                      <>
+                        <strong>Request Body:</strong>
+                        <pre style={{ overflow: 'auto', fontSize: '0.875rem' }}>
+                          {JSON.stringify(requestExample(operation), null, 2)}
+                        </pre>
+                      </>
+                    )}
+                    {responseExample(operation) !== undefined && (
+                      <>
+                        <strong style={{ marginTop: '1rem', display: 'block' }}>Response:</strong>
+                        <pre style={{ overflow: 'auto', fontSize: '0.875rem' }}>
+                          {JSON.stringify(responseExample(operation), null, 2)}
+                        </pre>
+                      </>
+                    )}
+                  </div>
+                </details>
+              )}
+            </div>
+          ))}
+
+          <h3 style={{ fontSize: '1.1rem', marginTop: '2rem' }}>Error Codes</h3>
+          <ul style={{ lineHeight: '1.8' }}>
+            {errorCodes.map(code => (
+              <li key={code}>
+                <code>{code}</code> - {ERROR_RESPONSES[code].message}
+              </li>
+            ))}
+          </ul>
         </div>
 
         {/* Test Pages */}
@@ -146,6 +194,7 @@ export default function HomePage() {
             <li>Go to Plugins → API Connector</li>
             <li>Add new API: <code style={{ background: '#f5f5f5', padding: '0.25rem 0.5rem' }}>Bubbl Chatbot</code></li>
             <li>Add POST call to: <code style={{ background: '#f5f5f5', padding: '0.25rem 0.5rem' }}>{baseUrl}/api/chat</code></li>
+            <li>Add a shared header: <code style={{ background: '#f5f5f5', padding: '0.25rem 0.5rem' }}>X-API-Key: your key</code> (mark it private)</li>
             <li>Set body type to JSON</li>
             <li>Build your chat UI using Repeating Groups</li>
             <li>Call the API on message send</li>
@@ -162,8 +211,8 @@ export default function HomePage() {
         }}>
           <h2>Features</h2>
           <ul style={{ lineHeight: '1.8' }}>
-            <li>✅ No authentication required (MVP)</li>
-            <li>✅ CORS enabled for Bubble.io</li>
+            <li>✅ API key authentication (X-API-Key)</li>
+            <li>✅ CORS origin allowlist for Bubble.io</li>
             <li>✅ Conversation context via thread_id</li>
             <li>✅ Markdown links in responses</li>
             <li>✅ Error handling with retry logic</li>
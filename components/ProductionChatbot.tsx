@@ -3,6 +3,16 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import ReactMarkdown from "react-markdown";
+import { parseSseEvents } from "../lib/sse";
+import {
+  applyConverseResponse,
+  applyHandoffPoll,
+  buildConverseRequest,
+  HANDOFF_POLL_INTERVAL_MS,
+  INITIAL_CHAT_SESSION,
+  ChatSessionState,
+} from "../lib/chat-session";
+import type { ChatAction } from "../lib/actions";
 
 interface Message {
   role: "user" | "assistant";
@@ -10,16 +20,23 @@ interface Message {
   timestamp: Date;
   options?: string[];
   links?: { text: string; href: string }[];
+  // Suggested next steps from the API (links and quick replies)
+  actions?: ChatAction[];
   isError?: boolean;
+  isStreaming?: boolean;
+  // Written by a staff member during a handoff
+  fromStaff?: boolean;
 }
 
 // Error types for better handling
-type ErrorType = 'network' | 'timeout' | 'rate_limit' | 'server' | 'unknown';
+type ErrorType = 'network' | 'timeout' | 'rate_limit' | 'budget' | 'blocked' | 'server' | 'unknown';
 
 const ERROR_MESSAGES: Record<ErrorType, string> = {
   network: "I can't connect to the server right now. Please check your internet connection and try again.",
   timeout: "The request is taking too long. Please try again.",
   rate_limit: "I'm receiving too many requests. Please wait a moment before trying again.",
+  budget: "I've reached my chat limit for now. Please try again later!",
+  blocked: "I can't help with that. Could you rephrase your question?",
   server: "I'm experiencing technical difficulties. Our team has been notified.",
   unknown: "Something went wrong. Please try again in a moment.",
 };
@@ -28,9 +45,47 @@ const MAX_RETRIES = 2;
 const RETRY_DELAY = 1000; // 1 second
 const REQUEST_TIMEOUT = 30000; // 30 seconds
 
+// Map streamed error codes to HTTP-like statuses so getErrorType can classify them
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  RATE_LIMIT: 429,
+  TIMEOUT: 504,
+};
+
+// Read a server-sent event chat response, reporting the text received so far
+async function readChatStream(response: Response, onText: (text: string) => void): Promise<any> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const parsed = parseSseEvents(buffer);
+    buffer = parsed.rest;
+
+    for (const { event, data } of parsed.events) {
+      if (event === "token") {
+        text += data.text;
+        onText(text);
+      } else if (event === "done") {
+        return data;
+      } else if (event === "error") {
+        throw { status: STREAM_ERROR_STATUS[data.code] || 500, message: data.message };
+      }
+    }
+  }
+
+  throw { status: 500, message: "Stream ended unexpectedly" };
+}
+
 export default function ProductionChatbot() {
   const { data: session } = useSession();
   const [messages, setMessages] = useState<Message[]>([]);
+  // Summary and handoff thread sent back with each message (see lib/chat-session.ts)
+  const [chatState, setChatState] = useState<ChatSessionState>(INITIAL_CHAT_SESSION);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
@@ -74,6 +129,37 @@ export default function ProductionChatbot() {
     scrollToBottom();
   }, [messages]);
 
+  // Poll the handoff thread so staff replies show up without the guest sending a message
+  const handoffThreadId = chatState.handoff?.threadId;
+  useEffect(() => {
+    if (!handoffThreadId) return;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/chat/converse/threads/${encodeURIComponent(handoffThreadId)}`);
+        if (!response.ok) return;
+        const data = await response.json();
+
+        const replies: { content: string; timestamp: string }[] = data.handoff?.replies || [];
+        if (replies.length > 0) {
+          setMessages(prev => [...prev, ...replies.map(reply => ({
+            role: "assistant" as const,
+            content: reply.content,
+            timestamp: new Date(reply.timestamp),
+            fromStaff: true,
+          }))]);
+        }
+        setChatState(prev => applyHandoffPoll(prev, data));
+      } catch (error) {
+        // Try again on the next tick
+        console.error("Handoff poll error:", error);
+      }
+    };
+
+    const timer = setInterval(poll, HANDOFF_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [handoffThreadId]);
+
   // Show toast notification immediately after login (no delay)
   useEffect(() => {
     if (session && !toastDismissed && !isOpen) {
@@ -126,7 +212,7 @@ export default function ProductionChatbot() {
           timestamp: new Date(),
           links: [
             { text: "Browse Properties", href: "/listings" },
-            { text: "Explore Events", href: "/community" },
+            { text: "Explore Events", href: "/events" },
             { text: "How it Works", href: "/dashboard" }
           ],
         };
@@ -167,6 +253,8 @@ export default function ProductionChatbot() {
   const getErrorType = (error: any): ErrorType => {
     if (!navigator.onLine) return 'network';
     if (error.name === 'AbortError') return 'timeout';
+    if (error.code === 'BUDGET_EXCEEDED') return 'budget';
+    if (error.code === 'CONTENT_BLOCKED') return 'blocked';
     if (error.message?.includes('rate limit') || error.status === 429) return 'rate_limit';
     if (error.status >= 500) return 'server';
     return 'unknown';
@@ -216,9 +304,15 @@ export default function ProductionChatbot() {
     }
   }, []);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
+    sendMessage(input.trim());
+  };
+
+  // Send a typed message or a tapped quick reply
+  const sendMessage = async (userInput: string) => {
+    if (isLoading) return;
 
     // Check connection status first
     if (connectionStatus === 'offline') {
@@ -234,36 +328,46 @@ export default function ProductionChatbot() {
 
     const userMessage: Message = {
       role: "user",
-      content: input.trim(),
+      content: userInput,
       timestamp: new Date(),
     };
 
     setMessages(prev => [...prev, userMessage]);
-    const userInput = input.trim();
     setInput("");
     setIsLoading(true);
     setConnectionStatus('online');
 
+    const { body, historyStart } = buildConverseRequest(chatState, messages, userInput);
+
     try {
       // Always use AI for responses - no forced quick options
       const response = await fetchWithRetry("/api/chat/converse", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          message: userInput,
-          messages: messages.slice(-5).map(m => ({
-            role: m.role,
-            content: m.content
-          })),
-        }),
+        headers: { "Content-Type": "application/json", "Accept": "text/event-stream" },
+        body: JSON.stringify(body),
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw { status: response.status, message: errorData.message || 'Request failed' };
+        throw { status: response.status, code: errorData.code, message: errorData.message || 'Request failed' };
       }
 
-      const data = await response.json();
+      let data: any;
+      if (response.headers.get("content-type")?.includes("text/event-stream")) {
+        // Show the reply as it streams in
+        setMessages(prev => [...prev, {
+          role: "assistant",
+          content: "",
+          timestamp: new Date(),
+          isStreaming: true,
+        }]);
+
+        data = await readChatStream(response, (text) => {
+          setMessages(prev => prev.map(m => m.isStreaming ? { ...m, content: text } : m));
+        });
+      } else {
+        data = await response.json();
+      }
 
       // Check if the API returned an error flag
       if (data.error) {
@@ -274,10 +378,20 @@ export default function ProductionChatbot() {
         role: "assistant",
         content: data.message,
         timestamp: new Date(),
-        links: detectLinks(data.message, userInput),
+        actions: data.actions?.length ? data.actions : undefined,
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      const next = applyConverseResponse(chatState, historyStart, data);
+      // Staff replies not shown yet (e.g. sent just before the ticket was closed) come before the reply
+      const staffMessages: Message[] = next.staffReplies.map(reply => ({
+        role: "assistant",
+        content: reply.content,
+        timestamp: new Date(reply.timestamp),
+        fromStaff: true,
+      }));
+
+      setMessages(prev => [...prev.filter(m => !m.isStreaming), ...staffMessages, assistantMessage]);
+      setChatState(next.state);
       setConnectionStatus('online');
 
     } catch (error: any) {
@@ -291,35 +405,14 @@ export default function ProductionChatbot() {
         timestamp: new Date(),
         isError: true,
       };
-      setMessages(prev => [...prev, errorMessage]);
+      // Drop any partially streamed reply in favour of the error
+      setMessages(prev => [...prev.filter(m => !m.isStreaming), errorMessage]);
     } finally {
       setIsLoading(false);
       setRetryCount(0);
     }
   };
 
-  // Helper to detect and add helpful links based on context
-  const detectLinks = (message: string, userInput: string) => {
-    const links: { text: string; href: string }[] = [];
-    const lowerMessage = message.toLowerCase();
-    const lowerInput = userInput.toLowerCase();
-
-    if (lowerInput.includes("event") || lowerInput.includes("activity")) {
-      links.push({ text: "Browse Events", href: "/community" });
-    }
-    if (lowerInput.includes("property") || lowerInput.includes("listing") || lowerInput.includes("stay")) {
-      links.push({ text: "View Properties", href: "/listings" });
-    }
-    if (lowerInput.includes("price") || lowerInput.includes("cost") || lowerInput.includes("how much")) {
-      links.push({ text: "See Listings", href: "/listings" });
-    }
-    if (lowerInput.includes("miami") || lowerInput.includes("location") || lowerInput.includes("where")) {
-      links.push({ text: "Browse Locations", href: "/listings" });
-    }
-
-    return links.length > 0 ? links : undefined;
-  };
-
   if (!session) {
     return null; // Don't show chatbot if not logged in
   }
@@ -428,6 +521,10 @@ export default function ProductionChatbot() {
                       : "bg-white border border-gray-200 text-gray-800"
                   }`}
                 >
+                  {msg.fromStaff && (
+                    <div className="text-xs font-medium text-purple-700 mb-1">Bubbl team</div>
+                  )}
+
                   {msg.isError && (
                     <div className="flex items-center gap-1 mb-1 text-red-600">
                       <span>⚠️</span>
@@ -473,6 +570,30 @@ export default function ProductionChatbot() {
                     </div>
                   )}
 
+                  {/* Suggested Actions */}
+                  {msg.actions && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {msg.actions.map((action, i) => action.type === "link" ? (
+                        <a
+                          key={i}
+                          href={action.href}
+                          className="px-3 py-1 bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-full text-sm transition-colors"
+                        >
+                          → {action.label}
+                        </a>
+                      ) : (
+                        <button
+                          key={i}
+                          onClick={() => sendMessage(action.payload || action.label)}
+                          disabled={isLoading}
+                          className="px-3 py-1 border border-blue-200 hover:bg-blue-50 text-blue-700 rounded-full text-sm transition-colors disabled:opacity-50"
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Helpful Links */}
                   {msg.links && (
                     <div className="mt-3 space-y-1">
@@ -495,7 +616,7 @@ export default function ProductionChatbot() {
               </div>
             ))}
 
-            {isLoading && (
+            {isLoading && !messages[messages.length - 1]?.isStreaming && (
               <div className="flex justify-start">
                 <div className="bg-white border border-gray-200 rounded-lg px-4 py-2">
                   <div className="flex items-center gap-2">
@@ -515,6 +636,15 @@ export default function ProductionChatbot() {
             <div ref={messagesEndRef} />
           </div>
 
+          {/* Handoff Status */}
+          {chatState.handoff && (
+            <div className="px-4 py-2 bg-purple-50 border-t border-purple-100 text-xs text-purple-800">
+              {chatState.handoff.status === "claimed"
+                ? "A team member is on it - their replies will appear here."
+                : "Waiting for a team member - messages you send now go straight to them."}
+            </div>
+          )}
+
           {/* Input */}
           <form onSubmit={handleSubmit} className="p-4 border-t border-gray-200 bg-white rounded-b-lg">
             <div className="flex gap-2">
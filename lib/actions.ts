@@ -0,0 +1,65 @@
+/**
+ * Suggested actions shown under a reply
+ * The model offers next steps with the suggestActions tool, and lookups add links to what
+ * they found (see actionsFromToolResults in ./tools). Clients render them as buttons:
+ * a link opens a page on the site, a quick reply sends its payload as the next message.
+ */
+
+import { chatbotConfig } from './config'
+import { checkLink } from './links'
+import { schema, Infer } from './validation'
+
+export type ActionSettings = typeof chatbotConfig.actions
+
+export const chatActionSchema = schema.object({
+  type: schema.enum(['link', 'quick_reply'] as const, { description: 'link opens href; quick_reply sends payload as the next message' }),
+  label: schema.string({ minLength: 1, maxLength: 40, description: 'Button text', example: 'Sundance spaces' }),
+  href: schema.optional(schema.string({
+    description: 'Page on the site (link only)',
+    example: 'https://bubbl.io/listings?event=sundance',
+  })),
+  payload: schema.optional(schema.string({
+    maxLength: 200,
+    description: 'Message to send (quick_reply only, defaults to the label)',
+    example: 'Show me cheaper options',
+  })),
+})
+
+export type ChatAction = Infer<typeof chatActionSchema>
+
+/**
+ * Cleans up actions before they're returned
+ * Links must be a known route on the request's site (see ./links) - others are dropped.
+ * Quick replies get their label as the payload if none was given. Duplicates are removed
+ * and the list is capped at maxActions, keeping the first.
+ *
+ * @param actions - Actions from the model and tools, most important first
+ * @param siteUrl - Validated site URL of the request
+ * @param settings - Action configuration
+ */
+export function sanitizeActions(
+  actions: ChatAction[],
+  siteUrl: string,
+  settings: ActionSettings = chatbotConfig.actions
+): ChatAction[] {
+  if (!settings.enabled) return []
+
+  const sanitized: ChatAction[] = []
+  for (const action of actions) {
+    let clean: ChatAction
+    if (action.type === 'link') {
+      if (!action.href) continue
+      const verdict = checkLink(action.href, siteUrl)
+      if (verdict.action === 'stripped') continue
+      clean = { type: 'link', label: action.label, href: verdict.action === 'rewritten' ? verdict.href : action.href, payload: undefined }
+    } else {
+      clean = { type: 'quick_reply', label: action.label, href: undefined, payload: action.payload || action.label }
+    }
+
+    const duplicate = sanitized.some(existing => existing.type === clean.type
+      && (clean.type === 'link' ? existing.href === clean.href : existing.payload === clean.payload))
+    if (!duplicate) sanitized.push(clean)
+  }
+
+  return sanitized.slice(0, settings.maxActions)
+}
@@ -0,0 +1,60 @@
+/**
+ * Scoped API key authentication for management endpoints
+ * Wraps a route handler so it only runs for keys carrying the required scope
+ * Scopes don't cross tenants: handlers check canManageTenant() before touching another
+ * tenant's records.
+ */
+
+import { authenticateApiKey, hasScope, ApiKeyIdentity, ApiKeyScope } from './api-keys'
+import { ChatError, ERROR_RESPONSES } from './errors'
+import { logger } from './logger'
+
+export interface ScopedRouteContext<P> {
+  requestId: string
+  identity: ApiKeyIdentity
+  params: P
+}
+
+/**
+ * Creates a route handler that requires an API key with the given scope
+ * ChatErrors thrown by the handler become JSON error responses
+ *
+ * @param scope - Scope the X-API-Key must carry
+ * @param handler - Route logic, run once the key is verified
+ * @returns Next.js route handler
+ */
+export function withApiKeyScope<P = Record<string, never>>(
+  scope: ApiKeyScope,
+  handler: (request: Request, ctx: ScopedRouteContext<P>) => Promise<Response>
+) {
+  return async function (request: Request, { params }: { params: P }): Promise<Response> {
+    const requestId = crypto.randomUUID()
+    const endpoint = new URL(request.url).pathname
+
+    try {
+      const identity = await authenticateApiKey(request.headers.get('x-api-key'))
+
+      if (!identity) {
+        logger.security('Invalid or missing API key', { requestId, endpoint })
+        throw new ChatError('AUTH_ERROR', 401)
+      }
+
+      if (!hasScope(identity.scopes, scope)) {
+        logger.security('API key missing required scope', { requestId, endpoint, keyId: identity.keyId, scope })
+        throw new ChatError('AUTH_ERROR', 403, {
+          message: 'Insufficient scope',
+          userMessage: 'This API key is not allowed to perform this action.',
+        })
+      }
+
+      return await handler(request, { requestId, identity, params })
+    } catch (error: any) {
+      if (error instanceof ChatError) {
+        return Response.json(error.toBody(requestId), { status: error.status, headers: error.headers })
+      }
+
+      logger.error('Management endpoint error', { requestId, endpoint, error: error?.message })
+      return Response.json({ ...ERROR_RESPONSES.UNKNOWN, requestId }, { status: 500 })
+    }
+  }
+}
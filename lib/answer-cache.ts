@@ -0,0 +1,173 @@
+/**
+ * Answer cache for repeated FAQ-style questions
+ * Replies to opening questions ("What is Bubbl?") are cached per tenant, site URL, prompt
+ * version and model, so repeats skip the model call. Entries expire after a TTL and the
+ * oldest are evicted once the cache is full.
+ */
+
+import { createHash } from 'crypto'
+import { chatbotConfig } from './config'
+import { createStore, KeyValueStore } from './storage'
+import type { ChatAction } from './actions'
+import { logger } from './logger'
+
+export type AnswerCacheSettings = typeof chatbotConfig.answerCache
+
+export interface CachedAnswer {
+  key: string
+  tenantId: string
+  message: string
+  /** Suggested actions served with the reply */
+  actions?: ChatAction[]
+  provider: string
+  model: string
+  createdAt: string
+  expiresAt: string
+}
+
+/** Everything an answer depends on - two requests with the same key get the same reply */
+export interface AnswerCacheKey {
+  tenantId: string
+  siteUrl: string
+  /** Identifies the system prompt the answer was generated with */
+  promptHash: string
+  /** "provider:model" */
+  model: string
+  message: string
+}
+
+let store: KeyValueStore<CachedAnswer> | null = null
+
+// Cached keys, oldest first - loaded from the store once, then kept up to date here so
+// writes don't have to list the whole store (one file per entry with STORAGE_DRIVER=file).
+// Entries written by other instances are only counted after a restart.
+let index: Promise<Map<string, string>> | null = null
+
+function getStore(): KeyValueStore<CachedAnswer> {
+  if (!store) {
+    store = createStore<CachedAnswer>('answer-cache')
+  }
+  return store
+}
+
+/**
+ * Replaces the backing store (used by tests and custom deployments)
+ *
+ * @param customStore - Store to use for cached answers, or null to recreate from env
+ */
+export function setAnswerCacheStore(customStore: KeyValueStore<CachedAnswer> | null) {
+  store = customStore
+  index = null
+}
+
+/**
+ * Key → createdAt of every cached answer, in insertion (age) order
+ */
+function getIndex(): Promise<Map<string, string>> {
+  if (!index) {
+    index = getStore().list().then(entries => new Map(entries
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(entry => [entry.key, entry.createdAt])))
+    // Retry the load on the next write if it failed
+    index.catch(() => { index = null })
+  }
+  return index
+}
+
+/**
+ * Normalizes a question so trivial differences hit the same entry
+ * ("  What is Bubbl?? " and "what is bubbl" match)
+ */
+export function normalizeQuestion(message: string): string {
+  return message
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.,;:]+$/, '')
+    .trim()
+}
+
+/**
+ * Short, stable hash identifying a rendered system prompt
+ */
+export function promptHash(systemPrompt: string): string {
+  return createHash('sha256').update(systemPrompt).digest('hex').slice(0, 12)
+}
+
+/**
+ * Builds the cache key for a question
+ */
+export function answerCacheKey(key: AnswerCacheKey): string {
+  return createHash('sha256')
+    .update(JSON.stringify([key.tenantId, key.siteUrl, key.promptHash, key.model, normalizeQuestion(key.message)]))
+    .digest('hex')
+}
+
+/**
+ * Looks up a cached answer (expired entries are removed)
+ *
+ * @param key - Cache key from answerCacheKey()
+ * @returns The cached answer, or null on a miss
+ */
+export async function getCachedAnswer(key: string, now = Date.now()): Promise<CachedAnswer | null> {
+  const entry = await getStore().get(key)
+  if (!entry) return null
+
+  if (Date.parse(entry.expiresAt) <= now) {
+    await getStore().delete(key)
+    const keys = await index
+    keys?.delete(key)
+    return null
+  }
+  return entry
+}
+
+/**
+ * Caches an answer, evicting the oldest entries past maxEntries
+ * Failures are logged and ignored - the cache must never fail a request
+ *
+ * @param entry - Answer to cache (createdAt/expiresAt are filled in)
+ * @param settings - TTL and size bound
+ */
+export async function cacheAnswer(
+  entry: Omit<CachedAnswer, 'createdAt' | 'expiresAt'>,
+  settings: AnswerCacheSettings = chatbotConfig.answerCache,
+  now = Date.now()
+): Promise<void> {
+  try {
+    const keys = await getIndex()
+    const createdAt = new Date(now).toISOString()
+    await getStore().set(entry.key, {
+      ...entry,
+      createdAt,
+      expiresAt: new Date(now + settings.ttlSeconds * 1000).toISOString(),
+    })
+
+    // Re-inserting moves a refreshed key to the newest end
+    keys.delete(entry.key)
+    keys.set(entry.key, createdAt)
+
+    const oldest = [...keys.keys()].slice(0, Math.max(0, keys.size - settings.maxEntries))
+    oldest.forEach(key => keys.delete(key))
+    await Promise.all(oldest.map(key => getStore().delete(key)))
+  } catch (error: any) {
+    logger.warn('Failed to cache answer', { tenantId: entry.tenantId, error: error.message })
+  }
+}
+
+/**
+ * Removes cached answers
+ *
+ * @param tenantId - Only purge this tenant's answers
+ * @returns Number of entries removed
+ */
+export async function purgeAnswerCache(tenantId?: string): Promise<number> {
+  const entries = await getStore().list()
+  const purged = entries.filter(entry => !tenantId || entry.tenantId === tenantId)
+
+  await Promise.all(purged.map(entry => getStore().delete(entry.key)))
+  const keys = await index
+  purged.forEach(entry => keys?.delete(entry.key))
+  logger.info('Answer cache purged', { tenantId, purged: purged.length })
+
+  return purged.length
+}
@@ -1,4 +1,4 @@
-import { timingSafeEqual } from 'crypto'
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
 
 /**
  * Validates an API key against configured keys
@@ -22,19 +22,43 @@ export function validateApiKey(providedKey: string | null): boolean {
     return false
   }
 
-  // Use timing-safe comparison to prevent timing attacks
-  return validKeys.some(validKey => {
-    if (validKey.length !== providedKey.length) return false
-
-    try {
-      return timingSafeEqual(
-        Buffer.from(validKey),
-        Buffer.from(providedKey)
-      )
-    } catch {
-      return false
+  return findMatchingKey(providedKey, validKeys) !== null
+}
+
+/**
+ * Hashes an API key for storage and comparison
+ *
+ * @param key - Plaintext API key
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Finds the configured key matching a provided key
+ * Entries may be plaintext keys or "sha256:<hex>" hashes. Both sides are hashed and
+ * compared with timingSafeEqual, so comparisons are constant-length and constant-time.
+ *
+ * @param providedKey - The API key provided in the request header
+ * @param validKeys - Keys (or hashed keys) to compare against
+ * @returns The matching entry, or null if none match
+ */
+export function findMatchingKey(providedKey: string, validKeys: string[]): string | null {
+  const providedHash = Buffer.from(hashApiKey(providedKey), 'hex')
+  let match: string | null = null
+
+  // Compare against every key (no early exit) so timing doesn't reveal which key matched
+  for (const validKey of validKeys) {
+    const validHash = validKey.startsWith('sha256:') ? validKey.slice('sha256:'.length) : hashApiKey(validKey)
+    const validBuffer = Buffer.from(validHash, 'hex')
+
+    if (validBuffer.length === providedHash.length && timingSafeEqual(validBuffer, providedHash)) {
+      match = validKey
     }
-  })
+  }
+
+  return match
 }
 
 /**
@@ -44,6 +68,5 @@ export function validateApiKey(providedKey: string | null): boolean {
  * @returns A newly generated API key string
  */
 export function generateApiKey(): string {
-  const crypto = require('crypto')
-  return `sk_bubbl_${crypto.randomBytes(32).toString('base64url')}`
+  return `sk_bubbl_${randomBytes(32).toString('base64url')}`
 }
@@ -0,0 +1,283 @@
+/**
+ * API key lifecycle - managed keys with hashed storage, expiry, rotation, revocation and scopes
+ *
+ * Managed keys are stored as SHA-256 hashes, looked up by their public prefix.
+ * Static keys from configuration (BUBBL_API_KEYS, BUBBL_ADMIN_KEYS, tenant apiKeys)
+ * keep working alongside them.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { findMatchingKey, generateApiKey, hashApiKey } from './api-auth'
+import { createStore, KeyValueStore } from './storage'
+import { getDefaultTenant, getTenantById, resolveTenant, Tenant } from './tenants'
+import { logger } from './logger'
+
+export type ApiKeyScope = 'chat:write' | 'threads:read' | 'handoffs:read' | 'handoffs:write' | 'admin'
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['chat:write', 'threads:read', 'handoffs:read', 'handoffs:write', 'admin']
+
+/** Scopes a tenant's own admin key may grant (admin keys are only issued by BUBBL_ADMIN_KEYS) */
+export const TENANT_GRANTABLE_SCOPES: ApiKeyScope[] = API_KEY_SCOPES.filter(scope => scope !== 'admin')
+
+export interface ApiKeyRecord {
+  /** Public key prefix - also the record id ("sk_bubbl_" + 8 characters) */
+  id: string
+  /** SHA-256 hex digest of the full key */
+  hash: string
+  tenantId: string
+  name?: string
+  scopes: ApiKeyScope[]
+  createdAt: string
+  expiresAt?: string
+  lastUsedAt?: string
+  revokedAt?: string
+  /** Id of the key that replaced this one during rotation */
+  rotatedTo?: string
+}
+
+/** The result of authenticating an API key */
+export interface ApiKeyIdentity {
+  tenant: Tenant
+  scopes: ApiKeyScope[]
+  /** Managed key id (absent for static keys) */
+  keyId?: string
+  /**
+   * Whether the key may act on other tenants' records and grant the admin scope
+   * Only BUBBL_ADMIN_KEYS have this - managed admin keys are limited to their own tenant
+   */
+  allTenants?: boolean
+}
+
+const PREFIX_LENGTH = 'sk_bubbl_'.length + 8
+
+// Only write lastUsedAt when it's older than this, to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+// Scopes for keys that come from configuration rather than the key store
+const STATIC_KEY_SCOPES: ApiKeyScope[] = ['chat:write']
+const ADMIN_KEY_SCOPES: ApiKeyScope[] = ['admin', 'chat:write', 'threads:read', 'handoffs:read', 'handoffs:write']
+
+let store: KeyValueStore<ApiKeyRecord> | null = null
+
+function getStore(): KeyValueStore<ApiKeyRecord> {
+  if (!store) {
+    store = createStore<ApiKeyRecord>('api-keys')
+  }
+  return store
+}
+
+/**
+ * Replaces the backing store (used by tests and custom deployments)
+ *
+ * @param customStore - Store to use for key records, or null to recreate from env
+ */
+export function setApiKeyStore(customStore: KeyValueStore<ApiKeyRecord> | null) {
+  store = customStore
+}
+
+/**
+ * Whether a record can currently be used
+ */
+export function isKeyActive(record: ApiKeyRecord, now = Date.now()): boolean {
+  if (record.revokedAt) return false
+  if (record.expiresAt && Date.parse(record.expiresAt) <= now) return false
+  return true
+}
+
+// Scopes granted along with another (admin implies every scope)
+const IMPLIED_SCOPES: Partial<Record<ApiKeyScope, ApiKeyScope[]>> = {
+  'handoffs:write': ['handoffs:read'],
+}
+
+/**
+ * Checks whether granted scopes include a required scope (admin implies every scope,
+ * handoffs:write implies handoffs:read)
+ */
+export function hasScope(scopes: ApiKeyScope[], required: ApiKeyScope): boolean {
+  return scopes.includes(required)
+    || scopes.includes('admin')
+    || scopes.some(scope => IMPLIED_SCOPES[scope]?.includes(required))
+}
+
+/**
+ * Whether a key may manage records (keys, cache, budgets) that belong to a tenant
+ * Admin keys from BUBBL_ADMIN_KEYS manage every tenant; other keys only their own.
+ */
+export function canManageTenant(identity: ApiKeyIdentity, tenantId: string): boolean {
+  return identity.allTenants === true || identity.tenant.id === tenantId
+}
+
+/**
+ * Authenticates an API key against managed keys, then static configured keys
+ *
+ * @param providedKey - The API key provided in the request header
+ * @returns Tenant and scopes for the key, or null if it's unknown, expired or revoked
+ */
+export async function authenticateApiKey(providedKey: string | null): Promise<ApiKeyIdentity | null> {
+  if (!providedKey) return null
+
+  const record = providedKey.length > PREFIX_LENGTH
+    ? await getStore().get(providedKey.slice(0, PREFIX_LENGTH))
+    : null
+
+  if (record) {
+    const expected = Buffer.from(record.hash, 'hex')
+    const actual = Buffer.from(hashApiKey(providedKey), 'hex')
+    const matches = expected.length === actual.length && timingSafeEqual(expected, actual)
+
+    if (matches && isKeyActive(record)) {
+      const tenant = getTenantById(record.tenantId)
+      if (!tenant) {
+        logger.security('API key belongs to an unknown tenant', { keyId: record.id, tenantId: record.tenantId })
+        return null
+      }
+
+      await touchKey(record)
+      return { tenant, scopes: record.scopes, keyId: record.id }
+    }
+
+    if (matches) {
+      logger.security('Expired or revoked API key used', { keyId: record.id, tenantId: record.tenantId })
+      return null
+    }
+  }
+
+  // Admin keys from configuration belong to the default tenant but manage every tenant
+  const adminKeys = process.env.BUBBL_ADMIN_KEYS?.split(',').map(k => k.trim()).filter(Boolean) || []
+  if (findMatchingKey(providedKey, adminKeys)) {
+    return { tenant: getDefaultTenant(), scopes: ADMIN_KEY_SCOPES, allTenants: true }
+  }
+
+  const tenant = resolveTenant(providedKey)
+  return tenant ? { tenant, scopes: STATIC_KEY_SCOPES } : null
+}
+
+async function touchKey(record: ApiKeyRecord) {
+  const now = Date.now()
+  if (record.lastUsedAt && now - Date.parse(record.lastUsedAt) < LAST_USED_RESOLUTION_MS) return
+
+  try {
+    await getStore().set(record.id, { ...record, lastUsedAt: new Date(now).toISOString() })
+  } catch (error: any) {
+    // Never fail a request because the usage timestamp couldn't be written
+    logger.warn('Failed to update API key lastUsedAt', { keyId: record.id, error: error.message })
+  }
+}
+
+/**
+ * Creates a managed API key
+ * The plaintext key is only returned here - only its hash is stored
+ *
+ * @param options - Owning tenant, scopes, optional name and expiry
+ * @returns The plaintext key and its stored record
+ */
+export async function createApiKey(options: {
+  tenantId: string
+  scopes: ApiKeyScope[]
+  name?: string
+  expiresAt?: string
+}): Promise<{ key: string; record: ApiKeyRecord }> {
+  let key = generateApiKey()
+  // Prefixes are 48 random bits - regenerate on the (very unlikely) collision
+  while (await getStore().get(key.slice(0, PREFIX_LENGTH))) {
+    key = generateApiKey()
+  }
+
+  const record: ApiKeyRecord = {
+    id: key.slice(0, PREFIX_LENGTH),
+    hash: hashApiKey(key),
+    tenantId: options.tenantId,
+    name: options.name,
+    scopes: options.scopes,
+    createdAt: new Date().toISOString(),
+    expiresAt: options.expiresAt,
+  }
+
+  await getStore().set(record.id, record)
+  logger.security('API key created', { keyId: record.id, tenantId: record.tenantId, scopes: record.scopes })
+
+  return { key, record }
+}
+
+/**
+ * Loads a managed key record by id
+ *
+ * @param keyId - Key id (public prefix)
+ * @returns The record, or null if it doesn't exist
+ */
+export async function getApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+  return getStore().get(keyId)
+}
+
+/**
+ * Lists managed keys, newest first
+ *
+ * @param tenantId - Only return keys for this tenant
+ * @returns Key records (hashes included - strip them before returning to clients)
+ */
+export async function listApiKeys(tenantId?: string): Promise<ApiKeyRecord[]> {
+  const records = await getStore().list()
+  return records
+    .filter(record => !tenantId || record.tenantId === tenantId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Rotates a key: issues a replacement with the same tenant and scopes, and lets the
+ * old key keep working for an overlap window so clients can switch over
+ *
+ * @param keyId - Id of the key to rotate
+ * @param overlapSeconds - How long the old key stays valid
+ * @returns The new plaintext key and both records, or null if the key can't be rotated
+ */
+export async function rotateApiKey(
+  keyId: string,
+  overlapSeconds: number
+): Promise<{ key: string; record: ApiKeyRecord; previous: ApiKeyRecord } | null> {
+  const existing = await getStore().get(keyId)
+  if (!existing || !isKeyActive(existing)) return null
+
+  const { key, record } = await createApiKey({
+    tenantId: existing.tenantId,
+    scopes: existing.scopes,
+    name: existing.name,
+    expiresAt: existing.expiresAt,
+  })
+
+  // Never extend the old key beyond its original expiry
+  const overlapEnd = Date.now() + overlapSeconds * 1000
+  const expiresAt = existing.expiresAt && Date.parse(existing.expiresAt) < overlapEnd
+    ? existing.expiresAt
+    : new Date(overlapEnd).toISOString()
+
+  const previous: ApiKeyRecord = { ...existing, expiresAt, rotatedTo: record.id }
+  await getStore().set(keyId, previous)
+  logger.security('API key rotated', { keyId, newKeyId: record.id, tenantId: existing.tenantId, expiresAt })
+
+  return { key, record, previous }
+}
+
+/**
+ * Revokes a key immediately
+ *
+ * @param keyId - Id of the key to revoke
+ * @returns The revoked record, or null if it doesn't exist
+ */
+export async function revokeApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+  const existing = await getStore().get(keyId)
+  if (!existing) return null
+
+  const revoked: ApiKeyRecord = { ...existing, revokedAt: existing.revokedAt || new Date().toISOString() }
+  await getStore().set(keyId, revoked)
+  logger.security('API key revoked', { keyId, tenantId: existing.tenantId })
+
+  return revoked
+}
+
+/**
+ * Public view of a key record (without the hash)
+ */
+export function toPublicKeyRecord(record: ApiKeyRecord) {
+  const { hash: _hash, ...rest } = record
+  return { ...rest, active: isKeyActive(record) }
+}
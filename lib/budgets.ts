@@ -0,0 +1,198 @@
+/**
+ * Spending budgets
+ * Tracks actual USD spend per tenant (all of its API keys) and per user over daily and
+ * monthly windows (UTC) and cuts requests off once a budget is used up
+ */
+
+import { chatbotConfig } from './config'
+import { createStore, KeyValueStore } from './storage'
+import { BudgetRule, Tenant } from './tenants'
+import { logger } from './logger'
+
+export type BudgetPeriod = 'daily' | 'monthly'
+
+export interface BudgetSubject {
+  type: 'tenant' | 'user'
+  /** Tenant id or user id */
+  id: string
+}
+
+interface SpendRecord {
+  spentUsd: number
+  requests: number
+  updatedAt: string
+}
+
+export interface PeriodStatus {
+  /** Window identifier, e.g. "2025-01-20" or "2025-01" */
+  period: string
+  spentUsd: number
+  limitUsd: number | null
+  remainingUsd: number | null
+  requests: number
+  resetsAt: string
+}
+
+export interface BudgetStatus {
+  subject: BudgetSubject
+  daily: PeriodStatus
+  monthly: PeriodStatus
+  /** A budget has been used up - new requests are refused */
+  exceeded: boolean
+  /** Spend has crossed the soft limit of at least one budget */
+  softLimitReached: boolean
+}
+
+let store: KeyValueStore<SpendRecord> | null = null
+
+function getStore(): KeyValueStore<SpendRecord> {
+  if (!store) {
+    store = createStore<SpendRecord>('budgets')
+  }
+  return store
+}
+
+/**
+ * Replaces the backing store (used by tests and custom deployments)
+ *
+ * @param customStore - Store to use for spend records, or null to recreate from env
+ */
+export function setBudgetStore(customStore: KeyValueStore<SpendRecord> | null) {
+  store = customStore
+}
+
+/**
+ * Who a request's spend is charged to
+ * API key spend goes to the key's tenant, so rotating a key or adding another one
+ * doesn't start a fresh budget
+ *
+ * @param principal - Authenticated caller
+ * @returns The tenant or user, or null for anonymous callers (not budgeted)
+ */
+export function budgetSubject(principal: { apiKey?: string; userId?: string; tenant: Tenant }): BudgetSubject | null {
+  if (principal.apiKey) return { type: 'tenant', id: principal.tenant.id }
+  if (principal.userId) return { type: 'user', id: principal.userId }
+  return null
+}
+
+/**
+ * Budget limits for a subject (tenants can override their own)
+ */
+export function getBudgetRule(subject: BudgetSubject, tenant?: Tenant): BudgetRule {
+  return subject.type === 'tenant'
+    ? { ...chatbotConfig.budgets.apiKey, ...tenant?.budget }
+    : chatbotConfig.budgets.user
+}
+
+function periodWindow(period: BudgetPeriod, now: Date): { id: string; resetsAt: string } {
+  const year = now.getUTCFullYear()
+  const month = now.getUTCMonth()
+
+  if (period === 'daily') {
+    return {
+      id: now.toISOString().slice(0, 10),
+      resetsAt: new Date(Date.UTC(year, month, now.getUTCDate() + 1)).toISOString(),
+    }
+  }
+  return {
+    id: now.toISOString().slice(0, 7),
+    resetsAt: new Date(Date.UTC(year, month + 1, 1)).toISOString(),
+  }
+}
+
+function recordKey(subject: BudgetSubject, periodId: string): string {
+  return `${subject.type}:${subject.id}:${periodId}`
+}
+
+function limitFor(rule: BudgetRule, period: BudgetPeriod): number | null {
+  const limit = period === 'daily' ? rule.dailyUsd : rule.monthlyUsd
+  return limit > 0 ? limit : null
+}
+
+async function periodStatus(
+  subject: BudgetSubject,
+  rule: BudgetRule,
+  period: BudgetPeriod,
+  now: Date
+): Promise<PeriodStatus> {
+  const { id, resetsAt } = periodWindow(period, now)
+  const record = await getStore().get(recordKey(subject, id))
+  const spentUsd = record?.spentUsd ?? 0
+  const limitUsd = limitFor(rule, period)
+
+  return {
+    period: id,
+    spentUsd,
+    limitUsd,
+    remainingUsd: limitUsd === null ? null : Math.max(0, limitUsd - spentUsd),
+    requests: record?.requests ?? 0,
+    resetsAt,
+  }
+}
+
+/**
+ * Current spend against the daily and monthly budgets
+ *
+ * @param subject - API key or user
+ * @param rule - Budget limits
+ * @param now - Current time (for tests)
+ * @returns Spend, limits and whether the budget is used up
+ */
+export async function getBudgetStatus(
+  subject: BudgetSubject,
+  rule: BudgetRule,
+  now = new Date()
+): Promise<BudgetStatus> {
+  const daily = await periodStatus(subject, rule, 'daily', now)
+  const monthly = await periodStatus(subject, rule, 'monthly', now)
+  const periods = [daily, monthly]
+
+  return {
+    subject,
+    daily,
+    monthly,
+    exceeded: periods.some(p => p.limitUsd !== null && p.spentUsd >= p.limitUsd),
+    softLimitReached: periods.some(
+      p => p.limitUsd !== null && p.spentUsd >= p.limitUsd * chatbotConfig.budgets.softLimitRatio
+    ),
+  }
+}
+
+/**
+ * Adds a request's cost to the subject's daily and monthly totals
+ * Logs a warning when spend crosses the soft limit or the budget
+ *
+ * @param subject - API key or user
+ * @param rule - Budget limits
+ * @param costUsd - Actual cost of the request
+ * @param now - Current time (for tests)
+ * @param countRequest - Count a new request (false for extra spend within one, e.g. its summary)
+ */
+export async function recordSpend(
+  subject: BudgetSubject,
+  rule: BudgetRule,
+  costUsd: number,
+  now = new Date(),
+  countRequest = true
+): Promise<void> {
+  for (const period of ['daily', 'monthly'] as BudgetPeriod[]) {
+    const { id } = periodWindow(period, now)
+    const record = await getStore().update(recordKey(subject, id), existing => ({
+      spentUsd: (existing?.spentUsd ?? 0) + costUsd,
+      requests: (existing?.requests ?? 0) + (countRequest ? 1 : 0),
+      updatedAt: now.toISOString(),
+    }))
+    const after = record.spentUsd
+    const before = after - costUsd
+
+    const limitUsd = limitFor(rule, period)
+    if (limitUsd === null) continue
+
+    const softLimit = limitUsd * chatbotConfig.budgets.softLimitRatio
+    if (before < limitUsd && after >= limitUsd) {
+      logger.warn('Budget exhausted', { subjectType: subject.type, subjectId: subject.id, period, spentUsd: after, limitUsd })
+    } else if (before < softLimit && after >= softLimit) {
+      logger.warn('Budget soft limit reached', { subjectType: subject.type, subjectId: subject.id, period, spentUsd: after, limitUsd })
+    }
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Authentication strategies for the chat pipeline
+ * Each chat route picks one: API key (Bubble.io) or NextAuth session (widget)
+ */
+
+import { getServerSession, NextAuthOptions } from 'next-auth'
+import { ChatError } from './errors'
+import { logger } from './logger'
+import { getDefaultTenant, Tenant } from './tenants'
+import { authenticateApiKey, hasScope } from './api-keys'
+
+export interface ChatPrincipal {
+  type: 'api_key' | 'session'
+  /** Raw API key from X-API-Key (only set when it matched a configured key) */
+  apiKey?: string
+  /** Logged-in user id (session principals) */
+  userId?: string
+  /** Managed API key id (api_key principals using a managed key) */
+  keyId?: string
+  /** Tenant whose settings apply to this request */
+  tenant: Tenant
+}
+
+export interface ChatAuthStrategy {
+  /**
+   * Authenticates the request
+   * Throws a ChatError (AUTH_ERROR) if the caller isn't allowed in
+   */
+  authenticate(request: Request, requestId: string): Promise<ChatPrincipal>
+}
+
+/**
+ * Authenticates with the X-API-Key header and resolves the key's tenant
+ * The key must carry the chat:write scope
+ */
+export function apiKeyAuth(): ChatAuthStrategy {
+  return {
+    async authenticate(request, requestId) {
+      const apiKey = request.headers.get('x-api-key')
+      const identity = await authenticateApiKey(apiKey)
+
+      if (identity && hasScope(identity.scopes, 'chat:write')) {
+        return { type: 'api_key', apiKey: apiKey!, keyId: identity.keyId, tenant: identity.tenant }
+      }
+
+      if (identity) {
+        logger.security('API key missing chat:write scope', { requestId, keyId: identity.keyId })
+        throw new ChatError('AUTH_ERROR', 403, {
+          message: 'Insufficient scope',
+          userMessage: 'This API key is not allowed to use the chat.',
+        })
+      }
+
+      // Skip validation if REQUIRE_API_KEY is false - unknown keys are treated as anonymous
+      if (process.env.REQUIRE_API_KEY === 'false') {
+        return { type: 'api_key', tenant: getDefaultTenant() }
+      }
+
+      logger.security('Invalid or missing API key', { requestId })
+      throw new ChatError('AUTH_ERROR', 401)
+    },
+  }
+}
+
+/**
+ * Authenticates with a NextAuth session - requires a logged in user
+ *
+ * @param authOptions - NextAuth configuration
+ */
+export function sessionAuth(authOptions: NextAuthOptions): ChatAuthStrategy {
+  return {
+    async authenticate(_request, requestId) {
+      const session = await getServerSession(authOptions)
+
+      if (!session?.user) {
+        logger.warn('Chat request without a session', { requestId })
+        throw new ChatError('AUTH_ERROR', 401, {
+          message: 'Authentication failed',
+          userMessage: 'Please log in to use the chat.',
+        })
+      }
+
+      return { type: 'session', userId: session.user.id, tenant: getDefaultTenant() }
+    },
+  }
+}
@@ -0,0 +1,1313 @@
+/**
+ * Shared chat pipeline used by every chat endpoint
+ *
+ * CORS → auth → origin check → provider chain → rate limit → budget → validation → prompt build → answer cache
+ * → model call (retries, circuit breaker, provider fallback) → metrics → response shaping
+ *
+ * Routes only configure their auth strategy, extra headers and response shape,
+ * so fixes to validation, error handling or metrics land everywhere at once.
+ */
+
+import { generateText, streamText, CoreMessage, LanguageModelUsage } from 'ai'
+import { chatbotConfig } from './config'
+import { ChatAuthStrategy, ChatPrincipal } from './chat-auth'
+import { buildTenantSystemPrompt, getTenantModel, selectTenantPrompt, BudgetRule, ModelSettings, Tenant } from './tenants'
+import { ApiError, ChatError, classifyError, FieldError } from './errors'
+import { validateSiteUrl, parseWithSchema, chatRequestSchema } from './validation'
+import { logger } from './logger'
+import { logRequestMetrics, calculateCost } from './monitoring'
+import { getThread, appendMessages, getContextMessages, isThreadOwner, takeUndeliveredReplies, Thread } from './threads'
+import { createEventStream, wantsEventStream, SSE_HEADERS } from './sse'
+import { checkRateLimit, rateLimitKey, rateLimitHeaders, getClientIp } from './rate-limit'
+import { resolveModelChain, languageModel, FALLBACK_ERROR_CODES, ModelTarget } from './providers'
+import { corsHeaders, getAllowedOrigins, getPreflightOrigins, isOriginAllowed, CorsOptions } from './cors'
+import { budgetSubject, getBudgetRule, getBudgetStatus, recordSpend, BudgetSubject } from './budgets'
+import { getCircuitBreaker, isRetryableError, retryDelay, sleep, CircuitOpenError } from './resilience'
+import { actionsFromToolResults, createChatTools, ToolOutcome, TOOLS_PROMPT } from './tools'
+import { sanitizeActions, ChatAction } from './actions'
+import {
+  createHandoffTicket,
+  detectHandoffIntent,
+  getHandoffTicket,
+  handoffOffer,
+  isSupportTopic,
+  queueHandoffMessage,
+  takeHandoffUpdate,
+  HandoffUpdate,
+} from './handoff'
+import { formatEventKnowledge, getEvents } from './events'
+import { PromptSelection, PromptSubject } from './prompts'
+import { shouldSummarize, signSummary, summarizeTurns, unsummarizedMessages, verifySummary, ConversationSummary } from './summary'
+import { knowledgeSources, searchKnowledge, KnowledgeSource } from './knowledge'
+import { buildContext, ContextReport } from './context-builder'
+import { moderateMessage } from './moderation'
+import { mergeCounts, redactMessages, redactText, RedactionCounts } from './redaction'
+import { checkReplyLinks, createStreamLinkChecker, LinkChange } from './links'
+import { answerCacheKey, cacheAnswer, getCachedAnswer, promptHash, CachedAnswer } from './answer-cache'
+
+// Maximum time to wait for a request's model calls (summary and reply) before giving up
+export const REQUEST_TIMEOUT_MS = 25000
+
+const FALLBACK_REPLY = "I'm here to help! Could you tell me more about what you're looking for?"
+
+// Usage reported for cached answers - no tokens were spent
+const CACHE_HIT_USAGE: LanguageModelUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+
+type HistoryMessage = { role: 'user' | 'assistant'; content: string }
+
+export interface ChatResult {
+  message: string
+  threadId: string
+  requestId: string
+  timestamp: string
+  duration: number
+  usage?: LanguageModelUsage
+  estimatedCost?: number
+  /** Provider and model that produced the reply */
+  provider: string
+  model: string
+  /** The reply came from the answer cache */
+  cached: boolean
+  /** Knowledge base documents added to the prompt */
+  sources: KnowledgeSource[]
+  /** Links in the reply that weren't a known route on the site (rewritten or stripped) */
+  linkChanges: LinkChange[]
+  /** Suggested next steps (links and quick replies) from the model and its tool calls */
+  actions: ChatAction[]
+  /** Prompt template ("name@version") and experiment variant */
+  promptVersion: string
+  experiment?: string
+  variant?: string
+  /** Rolling summary for the client to send back (signed) - only set when the turn isn't stored in a thread */
+  summary?: ConversationSummary & { signature: string }
+  /**
+   * Set when staff own the conversation (the message was answered by the handoff, not the
+   * model), or when staff replied and then closed the ticket before this message
+   */
+  handoff?: HandoffOutcome
+}
+
+export type HandoffOutcome = HandoffUpdate
+
+export interface ChatRouteConfig {
+  /** Endpoint path used in logs and metrics */
+  endpoint: string
+  /** How callers authenticate */
+  auth: ChatAuthStrategy
+  /** Keep history in the server-side thread store (otherwise it comes from the request's `messages`) */
+  useThreads: boolean
+  /** Extra headers for every response (security headers, content type) */
+  headers?: Record<string, string>
+  /** Allow browser calls from allowlisted origins (see lib/cors.ts) */
+  cors?: CorsOptions
+  /** Builds the JSON success body - also the payload of the streaming `done` event */
+  shapeResponse(result: ChatResult): Record<string, unknown>
+}
+
+interface ChatContext {
+  config: ChatRouteConfig
+  requestId: string
+  startTime: number
+  headers: Record<string, string>
+  ip: string
+  origin: string | null
+  principal?: ChatPrincipal
+}
+
+/** Context after authentication - the tenant is known from here on */
+interface AuthedChatContext extends ChatContext {
+  principal: ChatPrincipal
+  tenant: Tenant
+  model: ModelSettings
+  /** Provider/model targets to try, in order */
+  chain: ModelTarget[]
+  /** When the request's model calls have to be done by (see REQUEST_TIMEOUT_MS) */
+  deadline: number
+  /** Who this request's cost is charged to (anonymous callers aren't budgeted) */
+  budget?: { subject: BudgetSubject; rule: BudgetRule }
+}
+
+interface ChatRequest {
+  message: string
+  threadId?: string
+  messages: HistoryMessage[]
+  /** Summary of the leading `messages`, from the previous response */
+  summary?: ConversationSummary
+  siteUrl: string
+  stream: boolean
+  /** The guest asked for a human explicitly (e.g. a "Talk to a human" button) */
+  handoff: boolean
+}
+
+/** What the model (or the answer cache) produced for a request */
+interface ModelReply {
+  text: string
+  /** Unsanitized actions, most important first */
+  actions: ChatAction[]
+}
+
+interface PreparedChat {
+  request: ChatRequest
+  threadId: string
+  /** Whether this turn is persisted to the thread store */
+  persist: boolean
+  /** Client-supplied history to save when a thread is created */
+  seedMessages: HistoryMessage[]
+  messages: CoreMessage[]
+  /** Answer cache key - only set for opening questions (no history) */
+  cacheKey?: string
+  /** Knowledge base documents behind the passages in the system prompt */
+  sources: KnowledgeSource[]
+  /** System prompt template and experiment variant for this thread */
+  prompt: PromptSelection
+  /** Rolling summary of the turns before the context window */
+  summary?: ConversationSummary
+  /** Set when the summary was updated for this request (saved with the thread) */
+  summaryUpdate?: { summary: ConversationSummary; usage: LanguageModelUsage; cost: number }
+  /** Prompt-token budget and what had to be left out to meet it */
+  context: ContextReport
+  /** PII masked in the messages sent to the model (redaction.prompts only) */
+  redactions: RedactionCounts
+}
+
+/**
+ * Creates a POST handler that runs the chat pipeline
+ *
+ * @param config - Route-specific auth, headers and response shape
+ * @returns Next.js route handler
+ */
+export function createChatHandler(config: ChatRouteConfig) {
+  return async function POST(request: Request): Promise<Response> {
+    const ctx: ChatContext = {
+      config,
+      requestId: crypto.randomUUID(),
+      startTime: Date.now(),
+      headers: { ...config.headers },
+      ip: getClientIp(request),
+      origin: request.headers.get('origin'),
+    }
+    logger.trackRedactions(ctx.requestId)
+
+    // Preflights carry no API key, so any origin allowed for some key gets CORS headers here;
+    // the key's own allowlist is enforced once it's authenticated
+    if (config.cors) {
+      const origin = ctx.origin && isOriginAllowed(ctx.origin, getPreflightOrigins()) ? ctx.origin : null
+      Object.assign(ctx.headers, corsHeaders(origin, config.cors))
+    }
+
+    try {
+      await enforceAuthFailureLimit(ctx)
+      const principal = await config.auth.authenticate(request, ctx.requestId)
+        .catch(async error => {
+          await recordAuthFailure(error, ctx)
+          throw error
+        })
+      ctx.principal = principal
+      const model = getTenantModel(principal.tenant)
+      const authed: AuthedChatContext = {
+        ...ctx,
+        principal,
+        tenant: principal.tenant,
+        model,
+        chain: resolveModelChain(model),
+        deadline: Date.now() + REQUEST_TIMEOUT_MS,
+      }
+      enforceOrigin(authed)
+
+      // Validate at least one model provider is configured (e.g. OPENAI_API_KEY)
+      if (authed.chain.length === 0) {
+        logger.error('No model provider configured', { requestId: ctx.requestId, tenantId: authed.tenant.id })
+        return Response.json({
+          message: 'Service configuration error. Please contact support.',
+          error: true,
+          code: 'MODEL_ERROR',
+          retryable: false,
+          requestId: ctx.requestId,
+        }, { status: 503, headers: ctx.headers })
+      }
+
+      await enforceRateLimit(authed)
+      await enforceBudget(authed)
+
+      const chatRequest = await moderateRequest(await parseRequest(request, authed), authed)
+
+      const handoff = await routeToHuman(chatRequest, authed)
+      if (handoff) {
+        return chatRequest.stream
+          ? streamResult(handoff, authed)
+          : Response.json(config.shapeResponse(handoff), { headers: ctx.headers })
+      }
+
+      const prepared = await buildPrompt(chatRequest, authed)
+
+      const cached = await lookupCachedAnswer(prepared, authed)
+
+      if (chatRequest.stream) {
+        return streamReply(prepared, authed, cached)
+      }
+
+      let chatResult: ChatResult
+      if (cached) {
+        chatResult = await completeChat(prepared, cachedReply(cached), CACHE_HIT_USAGE, authed, cached, true)
+      } else {
+        const { result, target } = await generateWithFallback(prepared, authed)
+        const outcomes = result.steps.flatMap(step => step.toolResults as ToolOutcome[])
+        chatResult = await completeChat(
+          prepared,
+          { text: result.text || FALLBACK_REPLY, actions: actionsFromToolResults(outcomes) },
+          result.usage,
+          authed,
+          target
+        )
+      }
+
+      return Response.json(config.shapeResponse(chatResult), { headers: ctx.headers })
+    } catch (error: any) {
+      return errorResponse(error, ctx)
+    }
+  }
+}
+
+/**
+ * Rejects browser calls from origins the API key's tenant doesn't allow
+ * Requests without an Origin header (server-to-server, e.g. Bubble's API Connector) pass
+ */
+function enforceOrigin(ctx: AuthedChatContext) {
+  if (!ctx.config.cors || !ctx.origin) return
+  if (isOriginAllowed(ctx.origin, getAllowedOrigins(ctx.tenant))) return
+
+  logger.security('Request from origin not allowed for API key', {
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    tenantId: ctx.tenant.id,
+    origin: ctx.origin,
+  })
+  throw new ChatError('AUTH_ERROR', 403, {
+    message: 'Origin not allowed',
+    userMessage: 'This site is not allowed to use the chat.',
+  })
+}
+
+/**
+ * Refuses every request from an IP that keeps failing authentication, before its
+ * credentials are checked - otherwise the API key is only rate limited once it's valid,
+ * and keys could be guessed at full speed
+ */
+async function enforceAuthFailureLimit(ctx: ChatContext) {
+  const result = await checkRateLimit(rateLimitKey('auth_failure', ctx.ip), chatbotConfig.rateLimits.authFailure, 0)
+  if (result.allowed) return
+
+  logger.security('Auth failure limit exceeded', {
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    ip: ctx.ip,
+    retryAfter: result.retryAfterSeconds,
+  })
+  throw new ChatError('RATE_LIMIT', 429, {}, { 'Retry-After': String(result.retryAfterSeconds) })
+}
+
+/**
+ * Counts a rejected login (401) against the client IP
+ */
+async function recordAuthFailure(error: unknown, ctx: ChatContext) {
+  if (error instanceof ChatError && error.status === 401) {
+    await checkRateLimit(rateLimitKey('auth_failure', ctx.ip), chatbotConfig.rateLimits.authFailure)
+  }
+}
+
+/**
+ * Rate limit per API key or user, falling back to the client IP
+ */
+async function enforceRateLimit(ctx: AuthedChatContext) {
+  const { principal } = ctx
+
+  const [limitedBy, key, rule] = principal?.apiKey
+    ? ['api_key', rateLimitKey('api_key', principal.apiKey), chatbotConfig.rateLimits.apiKey] as const
+    : principal?.userId
+      ? ['user', rateLimitKey('user', principal.userId), chatbotConfig.rateLimits.user] as const
+      : ['ip', rateLimitKey('ip', ctx.ip), chatbotConfig.rateLimits.ip] as const
+
+  const result = await checkRateLimit(key, rule)
+  Object.assign(ctx.headers, rateLimitHeaders(result))
+
+  if (!result.allowed) {
+    logger.security('Rate limit exceeded', {
+      requestId: ctx.requestId,
+      endpoint: ctx.config.endpoint,
+      tenantId: ctx.tenant.id,
+      userId: principal?.userId,
+      ip: ctx.ip,
+      limitedBy,
+      retryAfter: result.retryAfterSeconds,
+    })
+    throw new ChatError('RATE_LIMIT', 429)
+  }
+}
+
+/**
+ * Refuses the request once the API key's or user's daily or monthly budget is used up
+ */
+async function enforceBudget(ctx: AuthedChatContext) {
+  const subject = budgetSubject(ctx.principal)
+  if (!subject) return
+
+  const rule = getBudgetRule(subject, ctx.tenant)
+  ctx.budget = { subject, rule }
+
+  const status = await getBudgetStatus(subject, rule)
+  if (!status.exceeded) return
+
+  const exhausted = status.daily.limitUsd !== null && status.daily.spentUsd >= status.daily.limitUsd
+    ? status.daily
+    : status.monthly
+  const retryAfter = Math.max(1, Math.ceil((Date.parse(exhausted.resetsAt) - Date.now()) / 1000))
+
+  logger.security('Budget exceeded', {
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    tenantId: ctx.tenant.id,
+    subjectType: subject.type,
+    subjectId: subject.id,
+    period: exhausted.period,
+    spentUsd: exhausted.spentUsd,
+    limitUsd: exhausted.limitUsd,
+  })
+  throw new ChatError('BUDGET_EXCEEDED', 429, {}, { 'Retry-After': String(retryAfter) })
+}
+
+// Friendlier end-user messages for the first invalid field
+const FIELD_USER_MESSAGES: Record<string, string> = {
+  message: 'Please enter a message.',
+  thread_id: 'Invalid thread_id provided.',
+  site_url: 'Invalid site URL provided.',
+}
+
+function validationError(errors: FieldError[], message?: string): ChatError {
+  const field = errors[0]?.path.split(/[.[]/)[0]
+  return new ChatError('VALIDATION_ERROR', 400, {
+    ...(message && { message }),
+    ...(FIELD_USER_MESSAGES[field] && { userMessage: FIELD_USER_MESSAGES[field] }),
+  }, {}, errors)
+}
+
+/**
+ * Parses and validates the request body against chatRequestSchema
+ */
+async function parseRequest(request: Request, ctx: AuthedChatContext): Promise<ChatRequest> {
+  const { requestId, tenant } = ctx
+
+  // Validate content type
+  const contentType = request.headers.get('content-type')
+  if (!contentType?.includes('application/json')) {
+    logger.warn('Invalid content type', { requestId, contentType })
+    throw validationError([{ path: '', reason: 'Content-Type must be application/json' }])
+  }
+
+  const body = await request.json().catch(() => null)
+
+  if (!body) {
+    logger.warn('Failed to parse request body', { requestId })
+    throw validationError([{ path: '', reason: 'must be a JSON object' }], 'Invalid JSON payload')
+  }
+
+  const parsed = parseWithSchema(chatRequestSchema, body)
+  if (!parsed.success) {
+    logger.warn('Invalid request body', { requestId, errors: parsed.errors })
+    throw validationError(parsed.errors)
+  }
+
+  const { message, messages, thread_id, summary, site_url: rawSiteUrl, handoff } = parsed.data
+
+  // Validate and sanitize site URL against the tenant's allowed domains
+  const siteUrl = validateSiteUrl(rawSiteUrl, {
+    allowedDomains: tenant.allowedSiteDomains,
+    defaultUrl: tenant.defaultSiteUrl,
+  })
+  if (!siteUrl) {
+    logger.warn('Invalid site_url', { requestId, tenantId: tenant.id, rawSiteUrl })
+    throw validationError([{ path: 'site_url', reason: 'must be an http(s) URL on an allowed domain' }])
+  }
+
+  // Only summaries this server wrote reach the system prompt; the reply just loses the older context
+  const trustedSummary = summary && verifySummary(summary.text, summary.signature) ? summary : undefined
+  if (summary && !trustedSummary) {
+    logger.warn('Ignoring unsigned or altered conversation summary', { requestId })
+  }
+
+  return {
+    message,
+    threadId: thread_id || undefined,
+    messages: messages || [],
+    summary: trustedSummary && { text: trustedSummary.text, messageCount: trustedSummary.message_count },
+    siteUrl,
+    stream: tenant.features.streaming && wantsEventStream(request, body),
+    handoff: handoff === true,
+  }
+}
+
+// Stands in for an earlier turn that failed moderation, so summary.message_count still lines up
+const REMOVED_TURN = '[removed]'
+
+// Earlier turns are resent with every message: local checks only, and only problems are logged
+const HISTORY_MODERATION = { localOnly: true, logAllowed: false }
+
+/**
+ * Runs moderation checks on the message and the earlier turns sent with it
+ * Blocked messages fail with CONTENT_BLOCKED; softened ones continue with the cleaned-up text.
+ * Client-supplied turns (either role) that this request uses get the local checks, and a
+ * blocked one is replaced rather than failing the request - clients resend their history
+ * with every message.
+ * The summary needs no check: only signed, server-written summaries are accepted.
+ */
+async function moderateRequest(chatRequest: ChatRequest, ctx: AuthedChatContext): Promise<ChatRequest> {
+  const moderationCtx = { requestId: ctx.requestId, tenantId: ctx.tenant.id }
+  const moderation = await moderateMessage(chatRequest.message, moderationCtx)
+  if (moderation.action === 'block') {
+    throw new ChatError('CONTENT_BLOCKED', 400)
+  }
+
+  const firstUsed = await firstUsedTurn(chatRequest, ctx)
+  const history = await Promise.all(chatRequest.messages.slice(firstUsed).map(turn =>
+    moderateMessage(turn.content, moderationCtx, chatbotConfig.moderation, HISTORY_MODERATION)
+  ))
+
+  return {
+    ...chatRequest,
+    message: moderation.message,
+    messages: chatRequest.messages.map((turn, i) => {
+      const verdict = history[i - firstUsed]
+      if (!verdict) return turn
+      return { ...turn, content: verdict.action === 'block' ? REMOVED_TURN : verdict.message }
+    }),
+  }
+}
+
+/**
+ * Index of the first client-supplied turn the request uses: with threads they only seed a
+ * new thread (a stored one has its own history); without, the summary stands in for the
+ * turns it covers and the rest go to the model or the next summary
+ */
+async function firstUsedTurn(chatRequest: ChatRequest, ctx: AuthedChatContext): Promise<number> {
+  const { messages } = chatRequest
+  if (!persistsThreads(ctx)) {
+    return Math.min(chatRequest.summary?.messageCount ?? 0, messages.length)
+  }
+
+  const thread = chatRequest.threadId ? await getThread(ctx.tenant.id, chatRequest.threadId) : null
+  return thread ? messages.length : 0
+}
+
+/**
+ * Hands the conversation to staff when the guest asks for a person (or reports an urgent
+ * problem), and queues messages for staff while they own the thread
+ * Without thread persistence, the handoff still gets a stored thread owned by the guest, so
+ * staff replies have somewhere to go and the client can send its id while staff own it.
+ *
+ * @returns The reply to send instead of the model's, or undefined to continue as usual
+ */
+async function routeToHuman(chatRequest: ChatRequest, ctx: AuthedChatContext): Promise<ChatResult | undefined> {
+  if (!chatbotConfig.handoff.enabled) return undefined
+
+  const tenantId = ctx.tenant.id
+  const persist = persistsThreads(ctx)
+  const thread = await loadThread(chatRequest, ctx)
+
+  // Staff own the thread - the message waits for them instead of going to the model
+  const ticket = thread?.handoffTicketId ? await getHandoffTicket(tenantId, thread.handoffTicketId) : null
+  if (thread && ticket && ticket.status !== 'closed') {
+    const replies = (await takeUndeliveredReplies(tenantId, thread.id))
+      .map(message => ({ content: message.content, timestamp: message.timestamp }))
+
+    await appendMessages(tenantId, thread.id, [{ role: 'user', content: chatRequest.message }])
+    await queueHandoffMessage(ticket, chatRequest.message)
+    logger.info('Message queued for staff', { requestId: ctx.requestId, tenantId, ticketId: ticket.id, threadId: thread.id })
+
+    return handoffResult(
+      chatbotConfig.handoff.queuedReply,
+      chatRequest,
+      thread.id,
+      { ticketId: ticket.id, status: ticket.status, replies },
+      'queued',
+      ctx
+    )
+  }
+
+  const reason = chatRequest.handoff ? 'requested_human' : detectHandoffIntent(chatRequest.message)
+  if (!reason) return undefined
+
+  // Without persistence an earlier (closed) handoff thread is missing the turns since, so start a new one
+  const history = persist ? thread : null
+  const threadId = persist ? chatRequest.threadId || ctx.requestId : ctx.requestId
+  const reply = chatbotConfig.handoff.reply
+  const turns: HistoryMessage[] = [
+    ...(history ? [] : chatRequest.messages),
+    { role: 'user', content: chatRequest.message },
+    { role: 'assistant', content: reply },
+  ]
+  await appendMessages(tenantId, threadId, turns, undefined, persist ? undefined : ctx.principal.userId)
+
+  const timestamp = new Date().toISOString()
+  const created = await createHandoffTicket({
+    tenantId,
+    threadId,
+    userId: ctx.principal.userId,
+    reason,
+    trigger: chatRequest.handoff ? 'action' : 'intent',
+    transcript: [...(history?.messages || []), ...turns.map(turn => ({ ...turn, timestamp }))],
+  })
+
+  return handoffResult(reply, chatRequest, threadId, { ticketId: created.id, status: created.status, replies: [] }, 'opened', ctx)
+}
+
+/**
+ * Staff replies the guest hasn't seen from a handoff that has since been closed - staff can
+ * reply and close before the guest's next message. Taken once the model's reply is ready, so
+ * they go out with it.
+ */
+async function closedHandoffReplies(prepared: PreparedChat, ctx: AuthedChatContext): Promise<HandoffOutcome | undefined> {
+  if (!chatbotConfig.handoff.enabled || !prepared.request.threadId) return undefined
+
+  const thread = await loadThread(prepared.request, ctx)
+  const update = thread ? await takeHandoffUpdate(thread) : null
+  return update && update.replies.length > 0 ? update : undefined
+}
+
+/**
+ * Result for a message answered by the handoff rather than the model (no tokens spent)
+ */
+function handoffResult(
+  message: string,
+  chatRequest: ChatRequest,
+  threadId: string,
+  handoff: HandoffOutcome,
+  outcome: 'opened' | 'queued',
+  ctx: AuthedChatContext
+): ChatResult {
+  const duration = Date.now() - ctx.startTime
+  const prompt = selectTenantPrompt(ctx.tenant, promptSubject(chatRequest, ctx))
+
+  logRequestMetrics({
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    method: 'POST',
+    statusCode: 200,
+    duration,
+    tenantId: ctx.tenant.id,
+    userId: ctx.principal.userId,
+    ip: ctx.ip,
+    handoff: outcome,
+  })
+
+  return {
+    message,
+    threadId,
+    requestId: ctx.requestId,
+    timestamp: new Date().toISOString(),
+    duration,
+    provider: 'human',
+    model: 'handoff',
+    cached: false,
+    sources: [],
+    linkChanges: [],
+    actions: [],
+    promptVersion: prompt.version,
+    experiment: prompt.experiment,
+    variant: prompt.variant,
+    handoff,
+  }
+}
+
+/**
+ * Whether turns are kept in the thread store (otherwise history comes from the request)
+ */
+function persistsThreads(ctx: AuthedChatContext): boolean {
+  return ctx.config.useThreads && ctx.tenant.features.threads
+}
+
+/**
+ * Loads the thread the request continues
+ * With persistence, another user's thread is reported as not found. Without it, only the
+ * caller's own handoff threads are stored, and any other thread_id is ignored.
+ */
+async function loadThread(chatRequest: ChatRequest, ctx: AuthedChatContext): Promise<Thread | null> {
+  if (!chatRequest.threadId) return null
+  const thread = await getThread(ctx.tenant.id, chatRequest.threadId)
+  if (!thread) return null
+
+  if (!persistsThreads(ctx)) {
+    return thread.userId === ctx.principal.userId ? thread : null
+  }
+  if (!isThreadOwner(thread, ctx.principal.userId)) {
+    logger.warn('Thread belongs to another user', { requestId: ctx.requestId, tenantId: ctx.tenant.id, threadId: thread.id })
+    throw new ChatError('VALIDATION_ERROR', 404, { message: 'Thread not found', userMessage: 'Conversation not found.' })
+  }
+  return thread
+}
+
+/**
+ * Who a prompt experiment assigns: the thread when it's stored (a new thread's id is the
+ * request id) or sent by the client, otherwise the user. A request id that isn't stored as
+ * a thread changes every turn, so it's never used.
+ */
+function promptSubject(chatRequest: ChatRequest, ctx: AuthedChatContext): PromptSubject {
+  const threadId = persistsThreads(ctx) ? chatRequest.threadId || ctx.requestId : chatRequest.threadId
+  return { threadId, userId: ctx.principal.userId }
+}
+
+/**
+ * Loads history and builds the model prompt
+ */
+async function buildPrompt(chatRequest: ChatRequest, ctx: AuthedChatContext): Promise<PreparedChat> {
+  const { contextMessages } = ctx.model
+  const persist = persistsThreads(ctx)
+
+  // New conversations use the request id as their thread id
+  const threadId = chatRequest.threadId || ctx.requestId
+  const thread = persist ? await loadThread(chatRequest, ctx) : null
+
+  // The request's messages only seed a thread the server hasn't seen yet
+  const seedMessages = thread ? [] : chatRequest.messages
+
+  // Limit history to the last N turns for cost efficiency; older turns are summarized
+  const history = thread
+    ? getContextMessages(thread, contextMessages)
+    : seedMessages.slice(-contextMessages)
+  const redactions: RedactionCounts = {}
+  const summaryUpdate = await updateSummary(
+    thread ? thread.messages : seedMessages,
+    thread ? thread.summary : chatRequest.summary,
+    redactions,
+    ctx
+  )
+  const summary = summaryUpdate?.summary || (thread ? thread.summary : chatRequest.summary)
+
+  // Redacted before it's cut, so a half-cut email can't slip past the logger's redaction
+  const preview = chatbotConfig.redaction.logs ? redactText(chatRequest.message) : { text: chatRequest.message, counts: {} }
+  logger.recordRedactions(ctx.requestId, preview.counts)
+  logger.info('Processing message', {
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    tenantId: ctx.tenant.id,
+    messagePreview: preview.text.slice(0, 50),
+    threadId: thread ? threadId : 'new',
+    historyLength: history.length,
+    siteUrl: chatRequest.siteUrl,
+  })
+
+  const eventKnowledge = formatEventKnowledge(getEvents(), chatRequest.siteUrl)
+  const passages = searchKnowledge(chatRequest.message)
+  if (passages.length > 0) {
+    logger.info('Knowledge passages matched', {
+      requestId: ctx.requestId,
+      passages: passages.map(passage => ({ title: passage.title, heading: passage.heading, score: passage.score })),
+    })
+  }
+
+  // Assigned by thread (or user) so a conversation keeps one variant
+  const prompt = selectTenantPrompt(ctx.tenant, promptSubject(chatRequest, ctx))
+  const [primary] = ctx.chain
+  const [message] = redactForModel([{ role: 'user', content: chatRequest.message }], redactions)
+
+  // Knowledge, summary and history share the prompt-token budget left after the system prompt
+  const context = buildContext({
+    system: buildTenantSystemPrompt(ctx.tenant, chatRequest.siteUrl, eventKnowledge, prompt.template)
+      + (chatbotConfig.tools.enabled ? TOOLS_PROMPT : ''),
+    passages,
+    summary,
+    history: redactForModel(history, redactions),
+    message: message.content,
+    siteUrl: chatRequest.siteUrl,
+  }, ctx.model.promptTokenBudget, primary)
+
+  const { report } = context
+  if (report.passagesDropped || report.summaryTruncated || report.turnsDropped || report.turnsTruncated) {
+    logger.info('Context trimmed to token budget', { requestId: ctx.requestId, ...report })
+  }
+  if (report.promptTokens > report.budget) {
+    logger.warn('System prompt and message exceed the prompt-token budget', { requestId: ctx.requestId, ...report })
+  }
+  const systemPrompt = context.messages[0].content as string
+
+  return {
+    request: chatRequest,
+    threadId,
+    persist,
+    seedMessages,
+    messages: context.messages,
+    // Follow-ups depend on the conversation so only opening questions are cached
+    cacheKey: chatbotConfig.answerCache.enabled && history.length === 0
+      ? answerCacheKey({
+        tenantId: ctx.tenant.id,
+        siteUrl: chatRequest.siteUrl,
+        promptHash: promptHash(systemPrompt),
+        model: `${primary.provider}:${primary.model}`,
+        message: chatRequest.message,
+      })
+      : undefined,
+    sources: knowledgeSources(context.passages, chatRequest.siteUrl),
+    prompt,
+    summary,
+    summaryUpdate,
+    context: report,
+    redactions,
+  }
+}
+
+/**
+ * Masks PII in messages bound for the model when redaction.prompts is on
+ * Threads keep the original text; only the prompt is redacted.
+ *
+ * @param messages - Messages to send
+ * @param counts - Running redaction counts for the request (updated in place)
+ */
+function redactForModel<M extends HistoryMessage>(messages: M[], counts: RedactionCounts): M[] {
+  if (!chatbotConfig.redaction.prompts) return messages
+
+  const redacted = redactMessages(messages)
+  mergeCounts(counts, redacted.counts)
+  return redacted.messages
+}
+
+/**
+ * Folds turns that left the context window into the rolling summary
+ * Goes through the model chain like the reply (retries, circuit breakers, fallbacks) within
+ * the request deadline. Its cost is charged to the budget right away, so it counts even if
+ * the reply then fails. Failures are logged and the previous summary is kept.
+ *
+ * @param conversation - Whole conversation so far, oldest first
+ * @param previous - Current summary, if any
+ * @param redactions - Running redaction counts (turns are redacted like the prompt)
+ * @returns The new summary and its token usage, or undefined if it wasn't updated
+ */
+async function updateSummary(
+  conversation: HistoryMessage[],
+  previous: ConversationSummary | undefined,
+  redactions: RedactionCounts,
+  ctx: AuthedChatContext
+): Promise<PreparedChat['summaryUpdate']> {
+  const { contextMessages } = ctx.model
+  const pending = unsummarizedMessages(conversation, previous, contextMessages)
+  if (!shouldSummarize(pending)) return undefined
+
+  const turns = redactForModel(pending.map(turn => ({ role: turn.role, content: turn.content })), redactions)
+  const startTime = Date.now()
+  try {
+    for (let i = 0; ; i++) {
+      const target = ctx.chain[i]
+      try {
+        // Capped at the summary's own timeout so a slow summary leaves time for the reply
+        const targetTimeout = Math.min(chatbotConfig.summary.timeoutMs, attemptTimeout(ctx.deadline, ctx.chain.length - i))
+        const { text, usage } = await callTarget(
+          target,
+          ctx,
+          Date.now() + targetTimeout,
+          (timeoutMs) => withTimeout(summarizeTurns(previous?.text, turns, languageModel(target)), timeoutMs)
+        )
+        const cost = calculateCost({ promptTokens: usage.promptTokens, completionTokens: usage.completionTokens }, target.model, target.provider)
+        logger.info('Conversation summarized', {
+          requestId: ctx.requestId,
+          tenantId: ctx.tenant.id,
+          provider: target.provider,
+          model: target.model,
+          messages: pending.length,
+          duration: Date.now() - startTime,
+          tokensUsed: usage.totalTokens,
+        })
+        if (ctx.budget && cost) {
+          await recordSpend(ctx.budget.subject, ctx.budget.rule, cost, new Date(), false)
+        }
+        return { summary: { text, messageCount: conversation.length - contextMessages }, usage, cost }
+      } catch (error: any) {
+        if (!shouldFallBack(error, i, target, ctx)) throw error
+      }
+    }
+  } catch (error: any) {
+    logger.warn('Conversation summary failed, keeping the previous one', {
+      requestId: ctx.requestId,
+      tenantId: ctx.tenant.id,
+      error: error?.message,
+    })
+    return undefined
+  }
+}
+
+/**
+ * Looks up a cached answer for the prompt
+ * Cache failures are logged and treated as a miss
+ */
+async function lookupCachedAnswer(prepared: PreparedChat, ctx: AuthedChatContext): Promise<CachedAnswer | null> {
+  if (!prepared.cacheKey) return null
+
+  try {
+    const cached = await getCachedAnswer(prepared.cacheKey)
+    if (cached) {
+      logger.info('Answer cache hit', { requestId: ctx.requestId, tenantId: ctx.tenant.id, createdAt: cached.createdAt })
+    }
+    return cached
+  } catch (error: any) {
+    logger.warn('Answer cache lookup failed', { requestId: ctx.requestId, error: error.message })
+    return null
+  }
+}
+
+function modelSettings(prepared: PreparedChat, ctx: AuthedChatContext, target: ModelTarget) {
+  return {
+    model: languageModel(target),
+    messages: prepared.messages,
+    temperature: ctx.model.temperature,
+    maxTokens: ctx.model.maxTokens,
+    ...(chatbotConfig.tools.enabled && {
+      tools: createChatTools({ requestId: ctx.requestId, tenantId: ctx.tenant.id, siteUrl: prepared.request.siteUrl }),
+      maxSteps: chatbotConfig.tools.maxSteps,
+    }),
+    // Retries happen in callTarget, where they respect the deadline and feed the circuit breaker
+    maxRetries: 0,
+  }
+}
+
+// Split what's left of the deadline between the remaining targets so a slow
+// primary still leaves time for its fallbacks
+function attemptTimeout(deadline: number, attemptsLeft: number): number {
+  return Math.max(0, Math.floor((deadline - Date.now()) / attemptsLeft))
+}
+
+/**
+ * Calls one provider/model, retrying retryable failures with backoff while the
+ * target's share of the deadline allows. Fails fast while its circuit breaker is open.
+ *
+ * @param call - Makes one attempt, given the time left
+ * @param canRetry - Checked before each retry (a stream can't be retried once tokens were sent)
+ */
+async function callTarget<T>(
+  target: ModelTarget,
+  ctx: AuthedChatContext,
+  targetDeadline: number,
+  call: (timeoutMs: number) => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<T> {
+  const breaker = getCircuitBreaker(`${target.provider}:${target.model}`)
+  const policy = chatbotConfig.resilience.retry
+
+  for (let attempt = 1; ; attempt++) {
+    if (!breaker.allowRequest()) {
+      throw new CircuitOpenError(breaker.target)
+    }
+
+    try {
+      const result = await call(targetDeadline - Date.now())
+      breaker.recordSuccess()
+      return result
+    } catch (error: any) {
+      const { apiError } = classifyError(error)
+      // Only retryable upstream failures say the provider is unhealthy
+      if (isRetryableError(apiError)) {
+        breaker.recordFailure()
+      } else {
+        breaker.recordIgnored()
+      }
+
+      const delay = retryDelay(attempt, policy)
+      const retry = attempt < policy.maxAttempts
+        && isRetryableError(apiError)
+        && canRetry()
+        && Date.now() + delay < targetDeadline
+      if (!retry) throw error
+
+      logger.warn('Retrying model call', {
+        requestId: ctx.requestId,
+        provider: target.provider,
+        model: target.model,
+        attempt,
+        delayMs: delay,
+        errorType: apiError.code,
+        error: error?.message,
+      })
+      await sleep(delay)
+    }
+  }
+}
+
+/**
+ * Whether a failed target should move on to the next one in the chain
+ */
+function shouldFallBack(error: any, index: number, target: ModelTarget, ctx: AuthedChatContext): boolean {
+  const { apiError } = classifyError(error)
+  const next = ctx.chain[index + 1]
+  if (!next || !FALLBACK_ERROR_CODES.includes(apiError.code)) return false
+
+  logger.warn('Model call failed, falling back', {
+    requestId: ctx.requestId,
+    provider: target.provider,
+    model: target.model,
+    errorType: apiError.code,
+    error: error?.message,
+    nextProvider: next.provider,
+    nextModel: next.model,
+  })
+  return true
+}
+
+/**
+ * Generates the reply, trying each provider/model in the chain until one succeeds
+ */
+async function generateWithFallback(prepared: PreparedChat, ctx: AuthedChatContext) {
+  const { deadline } = ctx
+
+  for (let i = 0; ; i++) {
+    const target = ctx.chain[i]
+    try {
+      const result = await callTarget(
+        target,
+        ctx,
+        Date.now() + attemptTimeout(deadline, ctx.chain.length - i),
+        (timeoutMs) => withTimeout(generateText(modelSettings(prepared, ctx, target)), timeoutMs)
+      )
+      return { result, target }
+    } catch (error: any) {
+      if (!shouldFallBack(error, i, target, ctx)) throw error
+    }
+  }
+}
+
+/**
+ * Streams the reply as server-sent events
+ * Tokens are sent as they arrive (links held back until they can be checked), followed by a
+ * `done` event with the shaped response.
+ * Retries and falls back to the next target only if nothing has been streamed yet.
+ * If the client disconnects, the model call is aborted so it stops generating (and billing).
+ */
+function streamReply(prepared: PreparedChat, ctx: AuthedChatContext, cached: CachedAnswer | null): Response {
+  const { deadline } = ctx
+
+  const eventStream = createEventStream(async (send, disconnected) => {
+    const fail = (error: any) => {
+      const { apiError, statusCode } = classifyError(error)
+      logError(error, apiError, statusCode, ctx)
+      send('error', errorBody(apiError, error, ctx))
+    }
+
+    if (cached) {
+      try {
+        send('token', { text: cached.message })
+        send('done', doneEvent(await completeChat(prepared, cachedReply(cached), CACHE_HIT_USAGE, ctx, cached, true), ctx))
+      } catch (error: any) {
+        fail(error)
+      }
+      return
+    }
+
+    for (let i = 0; i < ctx.chain.length; i++) {
+      const target = ctx.chain[i]
+      let responseText = ''
+      let outcomes: ToolOutcome[] = []
+
+      const streamAttempt = async (timeoutMs: number) => {
+        const abortController = new AbortController()
+        const timeoutId = setTimeout(() => abortController.abort(), timeoutMs)
+        const onDisconnect = () => abortController.abort()
+        disconnected.addEventListener('abort', onDisconnect)
+
+        try {
+          const result = await streamText({ ...modelSettings(prepared, ctx, target), abortSignal: abortController.signal })
+          const links = createStreamLinkChecker(prepared.request.siteUrl)
+          const sendChecked = (text: string) => text && send('token', { text })
+
+          for await (const part of result.fullStream) {
+            if (part.type === 'text-delta') {
+              responseText += part.textDelta
+              sendChecked(links.push(part.textDelta))
+            } else if (part.type === 'error') {
+              throw part.error
+            }
+          }
+          sendChecked(links.flush())
+          outcomes = (await result.steps).flatMap(step => step.toolResults as ToolOutcome[])
+          return await result.usage
+        } catch (error: any) {
+          throw abortController.signal.aborted && !disconnected.aborted ? new Error('Request timeout') : error
+        } finally {
+          clearTimeout(timeoutId)
+          disconnected.removeEventListener('abort', onDisconnect)
+        }
+      }
+
+      try {
+        const usage = await callTarget(
+          target,
+          ctx,
+          Date.now() + attemptTimeout(deadline, ctx.chain.length - i),
+          streamAttempt,
+          () => !responseText && !disconnected.aborted
+        )
+        if (disconnected.aborted) {
+          logClientDisconnect(ctx, target)
+          return
+        }
+
+        if (!responseText) {
+          responseText = FALLBACK_REPLY
+          send('token', { text: responseText })
+        }
+
+        const reply = { text: responseText, actions: actionsFromToolResults(outcomes) }
+        send('done', doneEvent(await completeChat(prepared, reply, usage, ctx, target), ctx))
+        return
+      } catch (error: any) {
+        if (disconnected.aborted) {
+          logClientDisconnect(ctx, target)
+          return
+        }
+        if (!responseText && shouldFallBack(error, i, target, ctx)) continue
+
+        fail(error)
+        return
+      }
+    }
+  })
+
+  return new Response(eventStream, { headers: { ...ctx.headers, ...SSE_HEADERS } })
+}
+
+/**
+ * Streams a result that's already complete (handoff replies) as one token and the done event
+ */
+function streamResult(chatResult: ChatResult, ctx: AuthedChatContext): Response {
+  const eventStream = createEventStream(async (send) => {
+    send('token', { text: chatResult.message })
+    send('done', doneEvent(chatResult, ctx))
+  })
+
+  return new Response(eventStream, { headers: { ...ctx.headers, ...SSE_HEADERS } })
+}
+
+/**
+ * Reply served from the answer cache (entries cached before actions existed have none)
+ */
+function cachedReply(cached: CachedAnswer): ModelReply {
+  return { text: cached.message, actions: cached.actions || [] }
+}
+
+/**
+ * Payload of the streaming `done` event
+ */
+function doneEvent(chatResult: ChatResult, ctx: AuthedChatContext) {
+  return {
+    ...ctx.config.shapeResponse(chatResult),
+    usage: chatResult.usage,
+    estimatedCost: chatResult.estimatedCost,
+  }
+}
+
+/**
+ * Checks the reply's links, persists the turn, caches the answer, records metrics and
+ * builds the result passed to shapeResponse
+ */
+async function completeChat(
+  prepared: PreparedChat,
+  reply: ModelReply,
+  usage: LanguageModelUsage | undefined,
+  ctx: AuthedChatContext,
+  target: ModelTarget,
+  cached = false
+): Promise<ChatResult> {
+  const duration = Date.now() - ctx.startTime
+  logger.info('Response generated', { requestId: ctx.requestId, duration, provider: target.provider, model: target.model })
+
+  // Only known routes on the request's site stay clickable; the rest is saved and cached as fixed
+  const { message: responseText, linkChanges } = checkReplyLinks(reply.text, prepared.request.siteUrl)
+  // Bookings, refunds and stay problems get a "Talk to a human" button
+  const offers = chatbotConfig.handoff.enabled && isSupportTopic(prepared.request.message) ? [handoffOffer()] : []
+  const actions = sanitizeActions([...offers, ...reply.actions], prepared.request.siteUrl)
+  if (linkChanges.length > 0) {
+    logger.warn('Reply links rewritten or stripped', { requestId: ctx.requestId, tenantId: ctx.tenant.id, linkChanges })
+  }
+
+  // Persist this turn so the next request only needs thread_id
+  if (prepared.persist) {
+    await appendMessages(ctx.tenant.id, prepared.threadId, [
+      ...prepared.seedMessages,
+      { role: 'user', content: prepared.request.message },
+      { role: 'assistant', content: responseText },
+    ], prepared.summary)
+  }
+
+  const handoff = await closedHandoffReplies(prepared, ctx)
+
+  // The summary was charged when it was written; only the reply is charged here
+  const [primary] = ctx.chain
+  const summaryUsage = prepared.summaryUpdate?.usage
+  const replyCost = usage ? calculateCost(
+    { promptTokens: usage.promptTokens, completionTokens: usage.completionTokens },
+    target.model,
+    target.provider
+  ) : undefined
+  const estimatedCost = replyCost === undefined ? undefined : replyCost + (prepared.summaryUpdate?.cost ?? 0)
+
+  if (ctx.budget && replyCost) {
+    await recordSpend(ctx.budget.subject, ctx.budget.rule, replyCost)
+  }
+
+  // Only cache real answers from the model the key was built for (not fallbacks)
+  const fromPrimary = target.provider === primary.provider && target.model === primary.model
+  if (prepared.cacheKey && !cached && fromPrimary && responseText !== FALLBACK_REPLY) {
+    await cacheAnswer({
+      key: prepared.cacheKey,
+      tenantId: ctx.tenant.id,
+      message: responseText,
+      actions,
+      provider: target.provider,
+      model: target.model,
+    })
+  }
+
+  logRequestMetrics({
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    method: 'POST',
+    statusCode: 200,
+    duration,
+    tenantId: ctx.tenant.id,
+    userId: ctx.principal.userId,
+    ip: ctx.ip,
+    provider: target.provider,
+    model: target.model,
+    tokensUsed: usage?.totalTokens,
+    promptTokens: usage?.promptTokens,
+    promptTokenBudget: prepared.context.budget,
+    estimatedPromptTokens: prepared.context.promptTokens,
+    summaryTokens: summaryUsage?.totalTokens,
+    redactions: Object.keys(prepared.redactions).length > 0 ? prepared.redactions : undefined,
+    estimatedCost,
+    cacheHit: cached,
+    promptVersion: prepared.prompt.version,
+    experiment: prepared.prompt.experiment,
+    variant: prepared.prompt.variant,
+  })
+
+  return {
+    message: responseText,
+    threadId: prepared.threadId,
+    requestId: ctx.requestId,
+    timestamp: new Date().toISOString(),
+    duration,
+    usage,
+    estimatedCost,
+    provider: target.provider,
+    model: target.model,
+    cached,
+    sources: prepared.sources,
+    linkChanges,
+    actions,
+    promptVersion: prepared.prompt.version,
+    experiment: prepared.prompt.experiment,
+    variant: prepared.prompt.variant,
+    summary: prepared.persist || !prepared.summary
+      ? undefined
+      : { ...prepared.summary, signature: signSummary(prepared.summary.text) },
+    handoff,
+  }
+}
+
+/**
+ * Builds the error response
+ * Expected failures (ChatError) return their catalog entry; anything else is classified
+ */
+function errorResponse(error: any, ctx: ChatContext): Response {
+  if (error instanceof ChatError) {
+    logRequestMetrics({
+      requestId: ctx.requestId,
+      endpoint: ctx.config.endpoint,
+      method: 'POST',
+      statusCode: error.status,
+      duration: Date.now() - ctx.startTime,
+      tenantId: ctx.principal?.tenant.id,
+      userId: ctx.principal?.userId,
+      ip: ctx.ip,
+    })
+
+    return Response.json(error.toBody(ctx.requestId), {
+      status: error.status,
+      headers: { ...ctx.headers, ...error.headers },
+    })
+  }
+
+  const { apiError, statusCode } = classifyError(error)
+  logError(error, apiError, statusCode, ctx)
+
+  return Response.json(errorBody(apiError, error, ctx), { status: statusCode, headers: ctx.headers })
+}
+
+function errorBody(apiError: ApiError, error: any, ctx: ChatContext) {
+  return {
+    message: apiError.userMessage,
+    error: true,
+    code: apiError.code,
+    retryable: apiError.retryable,
+    requestId: ctx.requestId,
+    duration: Date.now() - ctx.startTime,
+    details: process.env.NODE_ENV === 'development' ? error?.message : undefined,
+  }
+}
+
+function logError(error: any, apiError: ApiError, statusCode: number, ctx: ChatContext) {
+  const duration = Date.now() - ctx.startTime
+
+  logger.error('Conversation error', {
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    duration,
+    error: error?.message,
+    errorType: apiError.code,
+    statusCode,
+  })
+
+  logRequestMetrics({
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    method: 'POST',
+    statusCode,
+    duration,
+    tenantId: ctx.principal?.tenant.id,
+    userId: ctx.principal?.userId,
+    ip: ctx.ip,
+  })
+}
+
+/**
+ * Logs a stream the client closed before the reply finished (nginx's 499 status)
+ */
+function logClientDisconnect(ctx: AuthedChatContext, target: ModelTarget) {
+  logger.info('Client disconnected, model call aborted', {
+    requestId: ctx.requestId,
+    provider: target.provider,
+    model: target.model,
+  })
+  logRequestMetrics({
+    requestId: ctx.requestId,
+    endpoint: ctx.config.endpoint,
+    method: 'POST',
+    statusCode: 499,
+    duration: Date.now() - ctx.startTime,
+    tenantId: ctx.tenant.id,
+    userId: ctx.principal.userId,
+    ip: ctx.ip,
+    provider: target.provider,
+    model: target.model,
+  })
+}
+
+/**
+ * Rejects with "Request timeout" if the promise doesn't settle in time
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error('Request timeout')), ms)
+  })
+
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Chat widget conversation state
+ * What the widget sends to /api/chat/converse with each message and how it folds the response
+ * back in: the earlier turns to resend (after the summarized ones, capped), the signed
+ * summary, and the handoff thread while staff own the conversation (polled for staff
+ * replies in between messages). Kept free of React so
+ * the widget's request logic can be tested on its own.
+ */
+
+import type { HandoffStatus } from './handoff'
+import type { ConverseResponseBody, ThreadResponseBody } from './openapi'
+
+export interface SessionTurn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatSessionState {
+  /** Rolling summary from the API (sent back with its signature) and how many leading messages it covers */
+  summary: { text: string; signature: string; covered: number } | null
+  /** Handoff thread while staff own the conversation - messages go to them instead of the model */
+  handoff: { threadId: string; ticketId: string; status: HandoffStatus } | null
+}
+
+export const INITIAL_CHAT_SESSION: ChatSessionState = { summary: null, handoff: null }
+
+// How often to poll the handoff thread for staff replies while staff own the conversation
+export const HANDOFF_POLL_INTERVAL_MS = 5000
+
+// Most earlier turns to send (API limit is 100) - twice model.contextMessages leaves room to summarize
+export const MAX_HISTORY_MESSAGES = 10
+
+/**
+ * Builds the converse request body for a new message
+ *
+ * @param state - Current session state
+ * @param messages - Conversation so far, oldest first (without the new message)
+ * @param message - The guest's new message
+ * @returns The body, and the index of the first message sent (needed to apply the response)
+ */
+export function buildConverseRequest(
+  state: ChatSessionState,
+  messages: SessionTurn[],
+  message: string
+): { body: Record<string, unknown>; historyStart: number } {
+  // Only send turns the summary doesn't cover - the API keeps the newest and summarizes the rest.
+  // If summaries stop coming back (e.g. the summary call fails), keep to the newest turns.
+  const historyStart = Math.max(state.summary?.covered ?? 0, messages.length - MAX_HISTORY_MESSAGES)
+
+  return {
+    historyStart,
+    body: {
+      message,
+      messages: messages.slice(historyStart).map(m => ({ role: m.role, content: m.content })),
+      summary: state.summary
+        ? { text: state.summary.text, message_count: 0, signature: state.summary.signature }
+        : undefined,
+      thread_id: state.handoff?.threadId,
+      stream: true,
+    },
+  }
+}
+
+/**
+ * Applies a converse response to the session state
+ *
+ * @param state - State the request was built from
+ * @param historyStart - Index of the first message sent (from buildConverseRequest)
+ * @param data - Response body (or the streaming `done` event)
+ * @returns The new state, and staff replies to show before the response's message
+ */
+export function applyConverseResponse(
+  state: ChatSessionState,
+  historyStart: number,
+  data: Partial<Pick<ConverseResponseBody, 'summary' | 'handoff' | 'thread_id'>>
+): { state: ChatSessionState; staffReplies: { content: string; timestamp: string }[] } {
+  const summary = data.summary
+    ? { text: data.summary.text, signature: data.summary.signature, covered: historyStart + data.summary.message_count }
+    : state.summary
+
+  // A reply without `handoff` means staff closed the ticket and the model answers again
+  const handoff = data.handoff && data.thread_id && data.handoff.status !== 'closed'
+    ? { threadId: data.thread_id, ticketId: data.handoff.ticket_id, status: data.handoff.status }
+    : null
+
+  return { state: { summary, handoff }, staffReplies: data.handoff?.replies || [] }
+}
+
+/**
+ * Applies a handoff thread poll to the session state (its `handoff.replies` are shown as they are)
+ *
+ * @param state - Current state
+ * @param data - Body from /api/chat/converse/threads/:id
+ * @returns The new state - without the handoff once staff closed the ticket
+ */
+export function applyHandoffPoll(
+  state: ChatSessionState,
+  data: Pick<ThreadResponseBody, 'thread_id' | 'handoff'>
+): ChatSessionState {
+  // A message sent meanwhile may have moved the session on
+  if (!state.handoff || state.handoff.threadId !== data.thread_id) return state
+
+  const handoff = data.handoff && data.handoff.status !== 'closed'
+    ? { ...state.handoff, status: data.handoff.status }
+    : null
+  return { ...state, handoff }
+}
@@ -4,8 +4,12 @@
  */
 
 export const chatbotConfig = {
-  /** System prompt that defines chatbot personality and behavior */
-  systemPrompt: (siteUrl: string = 'https://bubbl.io') => `You are Bubbl's chat assistant helping users find event co-living stays.
+  /**
+   * System prompt that defines chatbot personality and behavior
+   * The event section is generated from `events` below (see lib/events.ts). Registered as
+   * the "concierge@1" template - add new versions in lib/prompts.ts.
+   */
+  systemPrompt: (siteUrl: string = 'https://bubbl.io', eventKnowledge: string = '') => `You are Bubbl's chat assistant helping users find event co-living stays.
 
 # RESPONSE RULES
 - Keep responses 2-3 lines maximum (not paragraphs!)
@@ -33,10 +37,8 @@ Good: "Pick a space, book it, chat with housemates beforehand. [See available sp
 - [your profile](${siteUrl}/profile)
 
 # EVENT KNOWLEDGE
-**Sundance Film Festival** (Jan 20-30, Park City, UT)
-- 5 properties, $80-200/night, 15min from venues
-- 2 include festival passes
-When asked: "Jan 20-30 in Park City! We have 5 spots near venues, some include festival passes. [Check Sundance spaces](${siteUrl}/listings?event=sundance)"
+${eventKnowledge}
+When asked about an event, lead with dates and place, then link its spaces.
 
 # KEY INFO
 **What is Bubbl?** Co-living for event attendees - cheaper than hotels, built-in community
@@ -53,15 +55,124 @@ Friendly • Helpful • Brief • Human (not robotic or marketing-y)`,
     temperature: 0.7,
     maxTokens: 150, // Reduced for shorter, more concise responses
     contextMessages: 5, // Number of previous messages to include
+    promptTokenBudget: 3000, // Max prompt tokens: system > knowledge > summary > newest turns (lib/context-builder.ts)
   },
 
-  /** Events database */
+  /** Rate limits (token bucket: burst capacity + refill per minute) */
+  rateLimits: {
+    apiKey: { capacity: 60, refillPerMinute: 60 }, // Per X-API-Key on /api/chat
+    user: { capacity: 20, refillPerMinute: 10 }, // Per logged-in user on /api/chat/converse
+    ip: { capacity: 20, refillPerMinute: 10 }, // Fallback when there's no key or user id
+    authFailure: { capacity: 10, refillPerMinute: 5 }, // Failed logins per IP before all its requests are refused
+  },
+
+  /** Spending budgets in USD (0 = unlimited), counted from actual token usage */
+  budgets: {
+    apiKey: { dailyUsd: 5, monthlyUsd: 100 }, // Per tenant, shared by its API keys (tenants can override)
+    user: { dailyUsd: 0.5, monthlyUsd: 5 }, // Per logged-in user
+    softLimitRatio: 0.8, // Warn once spend crosses this share of a budget
+  },
+
+  /** Function calling for listing and event lookups (see lib/tools.ts) */
+  tools: {
+    enabled: true,
+    maxSteps: 3, // Model calls per reply, including the ones that only call tools
+  },
+
+  /** Cache for replies to repeated opening questions (FAQ traffic) */
+  answerCache: {
+    enabled: true,
+    ttlSeconds: 3600, // Re-ask the model after an hour
+    maxEntries: 500, // Oldest answers are evicted beyond this
+  },
+
+  /** Versioned system prompt templates and A/B experiments (see lib/prompts.ts) */
+  prompts: {
+    defaultTemplate: 'concierge@1', // "name@version"
+    experiments: [
+      {
+        id: 'event-first-question',
+        enabled: false, // The first enabled experiment applies
+        assignBy: 'thread', // 'thread' or 'user' (anonymous callers are assigned by thread; calls without a thread id by user)
+        variants: [
+          { name: 'control', template: 'concierge@1', weight: 50 },
+          { name: 'event-first', template: 'concierge@2', weight: 50 },
+        ],
+      },
+    ],
+  },
+
+  /** Moderation of inbound messages (see lib/moderation.ts) */
+  moderation: {
+    enabled: true,
+    injection: { blockScore: 2 }, // One injection pattern softens the message; a score this high blocks it
+    blocklist: {
+      block: [] as string[], // Terms that block the message (MODERATION_BLOCKLIST adds more)
+      mask: ['fuck', 'shit', 'bitch', 'asshole'], // Masked with *** before the model sees them
+    },
+    provider: { timeoutMs: 3000 }, // MODERATION_PROVIDER=openai - the message is allowed if it doesn't answer in time
+  },
+
+  /** Handing conversations to staff (see lib/handoff.ts) */
+  handoff: {
+    enabled: true,
+    // Sent instead of a model reply when a ticket is opened
+    reply: "I've passed this to our team - someone will reply here shortly. Anything else you send now goes straight to them.",
+    // Sent for messages that arrive while staff own the thread
+    queuedReply: "Thanks, I've added that for our team. They'll reply here soon.",
+    // Quick reply offered when a message is about bookings, refunds or problems during a stay
+    offer: { label: 'Talk to a human', payload: "I'd like to talk to a human" },
+  },
+
+  /** Buttons under replies, from the suggestActions tool and tool lookups (see lib/actions.ts) */
+  actions: {
+    enabled: true,
+    maxActions: 4,
+  },
+
+  /** Links allowed in replies - paths under the request's site_url; "*" matches one path segment (see lib/links.ts) */
+  links: {
+    enabled: true,
+    routes: ['/', '/listings', '/listings/*', '/events', '/community', '/dashboard', '/profile', '/help/*'],
+  },
+
+  /** PII masking (emails, phone and card numbers, custom patterns) - see lib/redaction.ts */
+  redaction: {
+    logs: true, // Mask PII in log context values
+    prompts: false, // Also mask PII in messages sent to the model (the model then can't see or repeat it)
+    // Extra patterns, e.g. { name: 'booking_code', pattern: '\\bBK[0-9]{6}\\b', flags: 'i' }
+    patterns: [] as { name: string; pattern: string; flags?: string }[],
+  },
+
+  /** Rolling summary of turns older than model.contextMessages (see lib/summary.ts) */
+  summary: {
+    enabled: true,
+    minMessages: 2, // Update once this many messages have left the window (one exchange)
+    maxTokens: 200,
+    timeoutMs: 8000, // Give up and keep the previous summary after this
+  },
+
+  /** Local knowledge base (house rules, FAQ, check-in) - see lib/knowledge.ts */
+  knowledge: {
+    enabled: true,
+    maxPassages: 3, // Passages added to the system prompt per question
+    minScore: 1, // Minimum BM25 score - weaker matches are left out
+  },
+
+  /** Server-side retries and circuit breaker around model calls */
+  resilience: {
+    retry: { maxAttempts: 3, baseDelayMs: 250, maxDelayMs: 2000 }, // Per provider/model, within the request deadline
+    circuitBreaker: { failureThreshold: 5, cooldownMs: 30000 }, // Fail fast after N consecutive upstream failures
+  },
+
+  /** Events database - validated against the Event schema in lib/events.ts */
   events: [
     {
       name: "Sundance Film Festival",
       slug: "sundance",
       dates: "Jan 20-30, 2025",
       location: "Park City, UT",
+      summary: "The Sundance Film Festival showcases independent films and attracts filmmakers from around the world.",
       venues: ["Egyptian Theatre", "Eccles Center", "Library Center"],
       neighborhoods: ["Old Town", "Park City Mountain", "Deer Valley"],
       tips: [
@@ -71,12 +182,22 @@ Friendly • Helpful • Brief • Human (not robotic or marketing-y)`,
         "Evening parties = networking",
         "Pack layers for cold, dry weather"
       ],
-      bubbl_stats: {
-        spaces_available: 5,
-        avg_distance: "15min to venues",
-        spaces_with_passes: 2,
-        price_range: "$80-200/night"
-      }
+      avg_distance: "15min to venues"
+    },
+    {
+      name: "SXSW",
+      slug: "sxsw",
+      dates: "Mar 7-16, 2025",
+      location: "Austin, TX",
+      summary: "South by Southwest brings together music, film, and interactive media.",
+      venues: ["Austin Convention Center", "Paramount Theatre", "ACL Live at the Moody Theater"],
+      neighborhoods: ["Downtown", "East Austin", "South Congress"],
+      tips: [
+        "Pick the badge for the tracks you care about",
+        "RSVP early for free daytime showcases",
+        "Walk or scooter - downtown traffic is gridlocked",
+      ],
+      // Space counts and prices come from lib/listings.ts - none listed yet
     },
     // Add more events here
   ],
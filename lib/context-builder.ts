@@ -0,0 +1,138 @@
+/**
+ * Token-budget-aware prompt assembly
+ * Fills the model's prompt-token budget in priority order:
+ *   1. system prompt and the current message (always sent)
+ *   2. knowledge passages, best match first - whole passages only
+ *   3. conversation summary - cut short if it doesn't fit
+ *   4. history, newest turn first - older turns are dropped; if not even the newest
+ *      turn fits, it's cut short
+ * Each stage only gets what the stages before it left, so a long pasted message can't
+ * crowd out the system prompt or push the request over budget.
+ */
+
+import type { CoreMessage } from 'ai'
+import { formatKnowledgeContext, Passage } from './knowledge'
+import { formatSummaryContext, ConversationSummary } from './summary'
+import { countMessageTokens, truncateToTokens } from './tokens'
+import type { ModelTarget } from './providers'
+
+type HistoryMessage = { role: 'user' | 'assistant'; content: string }
+
+export interface ContextInput {
+  /** Base system prompt (template, persona, tool instructions) */
+  system: string
+  /** Retrieved knowledge, best first */
+  passages: Passage[]
+  summary?: ConversationSummary
+  /** Recent turns, oldest first */
+  history: HistoryMessage[]
+  /** The message being answered */
+  message: string
+  /** For knowledge source links */
+  siteUrl: string
+}
+
+export interface ContextReport {
+  /** Prompt-token budget the context was built for */
+  budget: number
+  /** Estimated prompt tokens of the assembled messages */
+  promptTokens: number
+  passagesDropped: number
+  summaryTruncated: boolean
+  turnsDropped: number
+  turnsTruncated: number
+}
+
+export interface BuiltContext {
+  messages: CoreMessage[]
+  /** Passages that made it into the prompt */
+  passages: Passage[]
+  report: ContextReport
+}
+
+function assemble(
+  input: ContextInput,
+  passages: Passage[],
+  summaryText: string | undefined,
+  history: HistoryMessage[]
+): CoreMessage[] {
+  const system = input.system
+    + formatKnowledgeContext(passages, input.siteUrl)
+    + formatSummaryContext(summaryText ? { text: summaryText, messageCount: 0 } : undefined)
+
+  return [
+    { role: 'system', content: system },
+    ...history,
+    { role: 'user', content: input.message },
+  ]
+}
+
+/**
+ * Builds the model messages within a prompt-token budget
+ *
+ * @param input - Everything that could go into the prompt
+ * @param budget - Maximum prompt tokens
+ * @param target - Model the tokens are counted for
+ * @returns Messages, the passages used, and what was dropped
+ */
+export function buildContext(input: ContextInput, budget: number, target?: ModelTarget): BuiltContext {
+  const tokens = (passages: Passage[], summaryText: string | undefined, history: HistoryMessage[]) =>
+    countMessageTokens(assemble(input, passages, summaryText, history), target)
+
+  // 2. Knowledge: whole passages in ranking order, stopping at the first that doesn't fit
+  const passages: Passage[] = []
+  for (const passage of input.passages) {
+    if (tokens([...passages, passage], undefined, []) > budget) break
+    passages.push(passage)
+  }
+
+  // 3. Summary: whatever room is left
+  let summaryText = input.summary?.text
+  let summaryTruncated = false
+  if (summaryText && tokens(passages, summaryText, []) > budget) {
+    const room = budget - tokens(passages, '', [])
+    const section = tokens(passages, ' ', []) - tokens(passages, '', [])
+    summaryText = truncateToTokens(summaryText, room - section, target) || undefined
+    summaryTruncated = true
+
+    // Rounding can leave the cut summary a token over - then leave it out
+    if (summaryText && tokens(passages, summaryText, []) > budget) {
+      summaryText = undefined
+    }
+  }
+
+  // 4. History: newest turns first
+  const history: HistoryMessage[] = []
+  let turnsTruncated = 0
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const turn = input.history[i]
+    if (tokens(passages, summaryText, [turn, ...history]) <= budget) {
+      history.unshift(turn)
+      continue
+    }
+
+    if (history.length === 0) {
+      const room = budget - tokens(passages, summaryText, [{ ...turn, content: '' }])
+      const content = truncateToTokens(turn.content, room, target)
+      if (content) {
+        history.unshift({ ...turn, content })
+        turnsTruncated = 1
+      }
+    }
+    break
+  }
+
+  const messages = assemble(input, passages, summaryText, history)
+  return {
+    messages,
+    passages,
+    report: {
+      budget,
+      promptTokens: countMessageTokens(messages, target),
+      passagesDropped: input.passages.length - passages.length,
+      summaryTruncated,
+      turnsDropped: input.history.length - history.length,
+      turnsTruncated,
+    },
+  }
+}
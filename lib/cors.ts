@@ -0,0 +1,128 @@
+/**
+ * CORS origin allowlist
+ * Only origins from ALLOWED_ORIGINS (or the API key's tenant allowedOrigins) are echoed back
+ * in Access-Control-Allow-Origin - never the "*" wildcard
+ */
+
+import { getTenants, Tenant } from './tenants'
+import { logger } from './logger'
+
+export interface CorsOptions {
+  /** Access-Control-Allow-Methods */
+  methods: string
+  /** Access-Control-Allow-Headers */
+  allowHeaders: string
+  /** Access-Control-Expose-Headers */
+  exposeHeaders?: string
+}
+
+// How long browsers may cache a preflight result (seconds)
+const PREFLIGHT_MAX_AGE = 600
+
+function parseOrigins(value: string | undefined): string[] {
+  return value?.split(',').map(o => normalizeOrigin(o)).filter(Boolean) || []
+}
+
+function normalizeOrigin(origin: string): string {
+  return origin.trim().toLowerCase().replace(/\/+$/, '')
+}
+
+/**
+ * Allowed origins for a request
+ * A tenant's allowedOrigins replace ALLOWED_ORIGINS for its API keys
+ *
+ * @param tenant - Tenant the request authenticated as, if known
+ * @returns Allowed origins (entries may use a "https://*.example.com" subdomain wildcard)
+ */
+export function getAllowedOrigins(tenant?: Tenant): string[] {
+  if (tenant?.allowedOrigins?.length) {
+    return tenant.allowedOrigins.map(normalizeOrigin)
+  }
+  return parseOrigins(process.env.ALLOWED_ORIGINS)
+}
+
+/**
+ * Origins allowed for any API key - used for preflights, which never carry X-API-Key
+ */
+export function getPreflightOrigins(): string[] {
+  const tenantOrigins = getTenants().flatMap(tenant => tenant.allowedOrigins || [])
+  return [...parseOrigins(process.env.ALLOWED_ORIGINS), ...tenantOrigins.map(normalizeOrigin)]
+}
+
+/**
+ * Checks an Origin header against an allowlist
+ * - Exact match on scheme + host + port
+ * - "https://*.example.com" matches any subdomain of example.com (not example.com itself)
+ * - With no allowlist configured, every origin is allowed outside production
+ *
+ * @param origin - Origin request header
+ * @param allowedOrigins - Allowlist to check against
+ * @returns true if the origin may call the API from a browser
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  if (allowedOrigins.length === 0) {
+    return process.env.NODE_ENV !== 'production'
+  }
+
+  const normalized = normalizeOrigin(origin)
+
+  return allowedOrigins.some(allowed => {
+    if (allowed === normalized) return true
+
+    const wildcard = allowed.match(/^(https?:\/\/)\*\.(.+)$/)
+    if (!wildcard) return false
+
+    const [, scheme, domain] = wildcard
+    return normalized.startsWith(scheme) && normalized.slice(scheme.length).endsWith(`.${domain}`)
+  })
+}
+
+/**
+ * CORS response headers for an allowed origin
+ * Vary: Origin is always set so caches never serve one origin's response to another
+ *
+ * @param origin - Origin to echo back, or null if it isn't allowed
+ * @param options - Methods and headers for this endpoint
+ * @returns Headers to add to the response
+ */
+export function corsHeaders(origin: string | null, options: CorsOptions): Record<string, string> {
+  if (!origin) {
+    return { 'Vary': 'Origin' }
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': options.methods,
+    'Access-Control-Allow-Headers': options.allowHeaders,
+    ...(options.exposeHeaders && { 'Access-Control-Expose-Headers': options.exposeHeaders }),
+    // Credentials are opt-in - they're only ever sent alongside a specific origin, never "*"
+    ...(process.env.CORS_ALLOW_CREDENTIALS === 'true' && { 'Access-Control-Allow-Credentials': 'true' }),
+    'Vary': 'Origin',
+  }
+}
+
+/**
+ * Creates an OPTIONS handler for CORS preflights
+ * Preflights from unknown origins are rejected with 403 and logged
+ *
+ * @param options - Methods and headers for this endpoint
+ * @returns Next.js route handler
+ */
+export function createPreflightHandler(options: CorsOptions) {
+  return async function OPTIONS(request: Request): Promise<Response> {
+    const origin = request.headers.get('origin')
+
+    if (!origin || !isOriginAllowed(origin, getPreflightOrigins())) {
+      logger.security('CORS preflight from unknown origin rejected', {
+        endpoint: new URL(request.url).pathname,
+        origin,
+      })
+      return new Response(null, { status: 403, headers: corsHeaders(null, options) })
+    }
+
+    return new Response(null, {
+      status: 204,
+      headers: { ...corsHeaders(origin, options), 'Access-Control-Max-Age': String(PREFLIGHT_MAX_AGE) },
+    })
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Shared API error catalog
+ * Every chat endpoint maps failures onto these codes so clients can handle them uniformly
+ */
+
+export type ErrorCode = 'VALIDATION_ERROR' | 'RATE_LIMIT' | 'MODEL_ERROR' | 'TIMEOUT' | 'UNKNOWN' | 'AUTH_ERROR' | 'BUDGET_EXCEEDED' | 'CONTENT_BLOCKED'
+
+export interface ApiError {
+  code: ErrorCode
+  message: string
+  userMessage: string
+  retryable: boolean
+}
+
+/** A single problem with a request field - path uses dots and [index], e.g. "messages[2].role" */
+export interface FieldError {
+  path: string
+  reason: string
+}
+
+export const ERROR_RESPONSES: Record<ErrorCode, ApiError> = {
+  VALIDATION_ERROR: {
+    code: 'VALIDATION_ERROR',
+    message: 'Invalid request payload',
+    userMessage: 'Please provide a valid message.',
+    retryable: false,
+  },
+  RATE_LIMIT: {
+    code: 'RATE_LIMIT',
+    message: 'Rate limit exceeded',
+    userMessage: "I'm getting a lot of requests right now. Please wait a moment and try again.",
+    retryable: true,
+  },
+  MODEL_ERROR: {
+    code: 'MODEL_ERROR',
+    message: 'Model unavailable',
+    userMessage: "I'm temporarily unavailable. Please try again in a moment.",
+    retryable: true,
+  },
+  TIMEOUT: {
+    code: 'TIMEOUT',
+    message: 'Request timeout',
+    userMessage: 'The request is taking too long. Please try again.',
+    retryable: true,
+  },
+  UNKNOWN: {
+    code: 'UNKNOWN',
+    message: 'Unknown error',
+    userMessage: "I'm having trouble connecting right now. Please try again!",
+    retryable: true,
+  },
+  AUTH_ERROR: {
+    code: 'AUTH_ERROR',
+    message: 'Invalid or missing API key',
+    userMessage: 'Authentication failed. Please provide a valid API key.',
+    retryable: false,
+  },
+  BUDGET_EXCEEDED: {
+    code: 'BUDGET_EXCEEDED',
+    message: 'Spending budget exceeded',
+    userMessage: "I've reached my chat limit for now. Please try again later!",
+    retryable: false,
+  },
+  CONTENT_BLOCKED: {
+    code: 'CONTENT_BLOCKED',
+    message: 'Message blocked by moderation',
+    userMessage: "I can't help with that. Could you rephrase your question?",
+    retryable: false,
+  },
+}
+
+/**
+ * An expected, client-facing failure raised by a pipeline stage
+ * (bad input, failed auth, rate limit, budget, blocked content). Carries its HTTP status and any
+ * overrides to the catalog entry.
+ */
+export class ChatError extends Error {
+  readonly apiError: ApiError
+  readonly status: number
+  readonly headers: Record<string, string>
+  /** Field-level validation errors, returned to the client as `errors` */
+  readonly errors?: FieldError[]
+
+  constructor(
+    code: ErrorCode,
+    status: number,
+    overrides: Partial<Pick<ApiError, 'message' | 'userMessage' | 'retryable'>> = {},
+    headers: Record<string, string> = {},
+    errors?: FieldError[]
+  ) {
+    const apiError = { ...ERROR_RESPONSES[code], ...overrides }
+    super(apiError.message)
+    this.name = 'ChatError'
+    this.apiError = apiError
+    this.status = status
+    this.headers = headers
+    this.errors = errors
+  }
+
+  /**
+   * JSON error body for this error
+   *
+   * @param requestId - Request id to include for support/debugging
+   */
+  toBody(requestId: string) {
+    return {
+      ...this.apiError,
+      ...(this.errors && { errors: this.errors }),
+      requestId,
+    }
+  }
+}
+
+// AI SDK errors raised when the provider's output can't be parsed
+const MALFORMED_OUTPUT_ERRORS = ['AI_JSONParseError', 'AI_InvalidResponseDataError', 'AI_TypeValidationError']
+
+/**
+ * Maps an unexpected error (usually from the model call) to an API error and HTTP status
+ *
+ * @param error - The thrown error
+ * @returns Catalog entry and status code to respond with
+ */
+export function classifyError(error: any): { apiError: ApiError; statusCode: number } {
+  if (error instanceof ChatError) {
+    return { apiError: error.apiError, statusCode: error.status }
+  }
+  if (error?.name === 'CircuitOpenError') {
+    // Recent calls to this model kept failing - fail fast instead of waiting on it
+    return { apiError: ERROR_RESPONSES.MODEL_ERROR, statusCode: 503 }
+  }
+  if (error?.message === 'Request timeout') {
+    return { apiError: ERROR_RESPONSES.TIMEOUT, statusCode: 504 }
+  }
+  if (error?.message?.includes('rate limit') || error?.status === 429 || error?.statusCode === 429) {
+    return { apiError: ERROR_RESPONSES.RATE_LIMIT, statusCode: 429 }
+  }
+  if (error?.message?.includes('API key') || error?.status === 401 || error?.statusCode === 401) {
+    // Our upstream credentials are wrong - a server problem, not the caller's
+    return { apiError: { ...ERROR_RESPONSES.MODEL_ERROR, retryable: false }, statusCode: 503 }
+  }
+  if (error?.message?.includes('model') || error?.statusCode >= 500 || MALFORMED_OUTPUT_ERRORS.includes(error?.name)) {
+    return { apiError: ERROR_RESPONSES.MODEL_ERROR, statusCode: 503 }
+  }
+  return { apiError: ERROR_RESPONSES.UNKNOWN, statusCode: 500 }
+}
@@ -0,0 +1,148 @@
+/**
+ * Event catalog
+ * chatbotConfig.events is the single source of truth for events: it's validated against
+ * the Event schema here, then used for the system prompt, the chatbot's tools and the
+ * /events page. Space counts and prices aren't written in the catalog - they're
+ * derived from the listing inventory (./listings) when the catalog is loaded.
+ */
+
+import { chatbotConfig } from './config'
+import { LISTINGS, Listing } from './listings'
+import { parseWithSchema, schema, Infer } from './validation'
+import { logger } from './logger'
+
+export const eventSchema = schema.object({
+  name: schema.string({ minLength: 1 }),
+  slug: schema.string({
+    pattern: /^[a-z0-9-]+$/,
+    patternReason: 'must be lowercase letters, digits and dashes',
+    description: 'Used in links, e.g. /listings?event=sundance',
+  }),
+  dates: schema.string({ minLength: 1, description: 'Display dates, e.g. "Jan 20-30, 2025"' }),
+  location: schema.string({ minLength: 1 }),
+  summary: schema.string({ minLength: 1, description: 'One or two sentences for the events page' }),
+  venues: schema.array(schema.string({ minLength: 1 })),
+  neighborhoods: schema.array(schema.string({ minLength: 1 })),
+  tips: schema.array(schema.string({ minLength: 1 })),
+  avg_distance: schema.optional(schema.string({ description: 'Typical distance from listed spaces, e.g. "15min to venues"' })),
+})
+
+/** Bubbl's spaces for an event, derived from the listing inventory */
+export interface EventStats {
+  spaces_available: number
+  spaces_with_passes: number
+  /** e.g. "$80-200/night" */
+  price_range: string
+  avg_distance?: string
+}
+
+export type Event = Infer<typeof eventSchema> & {
+  /** Unset until spaces are listed for the event */
+  bubbl_stats?: EventStats
+}
+
+let cache: { source: unknown[]; events: Event[] } | null = null
+
+/**
+ * Summarizes the listings offered for an event
+ *
+ * @param event - Validated catalog entry
+ * @param listings - Listing inventory
+ * @returns Stats, or undefined when no spaces are listed
+ */
+export function eventStats(event: Infer<typeof eventSchema>, listings: Listing[] = LISTINGS): EventStats | undefined {
+  const spaces = listings.filter(listing => listing.event === event.slug)
+  if (spaces.length === 0) return undefined
+
+  const prices = spaces.map(listing => listing.pricePerNight)
+  const [min, max] = [Math.min(...prices), Math.max(...prices)]
+  return {
+    spaces_available: spaces.length,
+    spaces_with_passes: spaces.filter(listing => listing.includesPasses).length,
+    price_range: min === max ? `$${min}/night` : `$${min}-${max}/night`,
+    avg_distance: event.avg_distance,
+  }
+}
+
+/**
+ * Validates raw event records, skipping (and logging) invalid ones and duplicate slugs
+ *
+ * @param records - Raw catalog entries
+ * @param listings - Listing inventory the stats are derived from
+ * @returns Valid events in catalog order
+ */
+export function parseEvents(records: unknown[], listings: Listing[] = LISTINGS): Event[] {
+  const events: Event[] = []
+
+  records.forEach((record, index) => {
+    const parsed = parseWithSchema(eventSchema, record)
+    if (!parsed.success) {
+      logger.error('Skipping invalid event', { index, errors: parsed.errors })
+      return
+    }
+    if (events.some(event => event.slug === parsed.data.slug)) {
+      logger.error('Skipping duplicate event slug', { index, slug: parsed.data.slug })
+      return
+    }
+    events.push({ ...parsed.data, bubbl_stats: eventStats(parsed.data, listings) })
+  })
+
+  return events
+}
+
+/**
+ * Returns the validated event catalog (validated once per catalog)
+ */
+export function getEvents(): Event[] {
+  const source: unknown[] = chatbotConfig.events
+  if (!cache || cache.source !== source) {
+    cache = { source, events: parseEvents(source) }
+  }
+  return cache.events
+}
+
+/**
+ * Looks up an event by slug
+ */
+export function getEvent(slug: string): Event | undefined {
+  return getEvents().find(event => event.slug === slug.toLowerCase())
+}
+
+/**
+ * Link to an event's listings on the customer's site
+ */
+export function eventListingsUrl(event: Event, siteUrl: string): string {
+  return `${siteUrl}/listings?event=${event.slug}`
+}
+
+/**
+ * Builds the "EVENT KNOWLEDGE" section of the system prompt
+ *
+ * @param events - Validated events
+ * @param siteUrl - Site URL for links
+ * @returns Markdown, one block per event
+ */
+export function formatEventKnowledge(events: Event[], siteUrl: string): string {
+  if (events.length === 0) {
+    return `No events are listed right now - point people to [see events](${siteUrl}/events).`
+  }
+
+  return events.map(event => {
+    const stats = event.bubbl_stats
+    const lines = [`**${event.name}** (${event.dates}, ${event.location})`]
+
+    if (stats) {
+      lines.push(`- ${[`${stats.spaces_available} spaces`, stats.price_range, stats.avg_distance].filter(Boolean).join(', ')}`)
+      if (stats.spaces_with_passes > 0) {
+        lines.push(`- ${stats.spaces_with_passes} include festival passes`)
+      }
+      lines.push(`- Link: [Check ${event.name} spaces](${eventListingsUrl(event, siteUrl)})`)
+    } else {
+      lines.push(`- No spaces listed yet - point people to [see events](${siteUrl}/events)`)
+    }
+    if (event.venues.length > 0) {
+      lines.push(`- Venues: ${event.venues.join(', ')}`)
+    }
+    return lines.join('\n')
+  }).join('\n\n')
+}
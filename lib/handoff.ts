@@ -0,0 +1,268 @@
+/**
+ * Human handoff
+ * Guests who ask for a person, or report an urgent problem with their stay, get a handoff
+ * ticket instead of a model reply. The ticket holds the transcript, the user id and the
+ * reason, and the thread is marked as staff-owned: later messages are added to the ticket
+ * instead of being answered by the model, until staff close it.
+ *
+ * Staff work tickets through /api/staff/handoffs (list, claim, reply, close). Guests get
+ * staff replies with their next response or by polling their thread; each reply is delivered
+ * once, including replies sent just before staff closed the ticket.
+ */
+
+import { chatbotConfig } from './config'
+import { ChatError } from './errors'
+import { createStore, KeyValueStore } from './storage'
+import { appendMessages, setThreadHandoff, takeUndeliveredReplies, Thread, ThreadMessage } from './threads'
+import type { ChatAction } from './actions'
+import { logger } from './logger'
+
+export type HandoffStatus = 'open' | 'claimed' | 'closed'
+
+/** Why the ticket was opened */
+export type HandoffReason = 'requested_human' | 'stay_problem'
+
+export interface HandoffTicket {
+  id: string
+  tenantId: string
+  threadId: string
+  userId?: string
+  reason: HandoffReason
+  /** Detected from the message, or asked for explicitly (`handoff: true`) */
+  trigger: 'intent' | 'action'
+  status: HandoffStatus
+  /** Conversation up to the handoff, then every message since (guest and staff) */
+  transcript: ThreadMessage[]
+  createdAt: string
+  updatedAt: string
+  /** Staff member working the ticket */
+  claimedBy?: string
+  claimedAt?: string
+  closedAt?: string
+}
+
+/** What the guest hasn't seen yet of a thread's handoff */
+export interface HandoffUpdate {
+  ticketId: string
+  status: HandoffStatus
+  /** Staff replies not yet delivered to the guest, oldest first */
+  replies: { content: string; timestamp: string }[]
+}
+
+interface IntentPattern {
+  reason: HandoffReason
+  pattern: RegExp
+}
+
+// Messages that open a ticket straight away
+const HANDOFF_PATTERNS: IntentPattern[] = [
+  {
+    reason: 'requested_human',
+    pattern: /\b((talk|speak|chat)\s+(to|with)\s+(a\s+|an\s+|some\s*one\s*)?(human|person|real person|someone|agent|staff|support|customer service|representative|manager)|(human|live|real)\s+(agent|person|support)|customer service)\b/i,
+  },
+  {
+    reason: 'stay_problem',
+    pattern: /\b(locked out|can'?t get in(to)?|no (hot )?water|no heat(ing)?|flood(ed|ing)?|gas smell|smell(s)? (of )?gas|emergency|unsafe)\b/i,
+  },
+]
+
+// Topics the bot can only partly help with - the reply offers a handoff instead of opening one
+const SUPPORT_TOPIC = /\b(refund|charged twice|double charged|cancel(l?ing)? my (booking|stay|reservation)|change my (booking|reservation|dates)|my (booking|reservation)|problem with (my|the) (stay|room|place|booking))\b/i
+
+let store: KeyValueStore<HandoffTicket> | null = null
+
+function getStore(): KeyValueStore<HandoffTicket> {
+  if (!store) {
+    store = createStore<HandoffTicket>('handoffs')
+  }
+  return store
+}
+
+/**
+ * Replaces the backing store (used by tests and custom deployments)
+ *
+ * @param customStore - Store to use for tickets, or null to recreate from env
+ */
+export function setHandoffStore(customStore: KeyValueStore<HandoffTicket> | null) {
+  store = customStore
+}
+
+// Tickets are namespaced per tenant like threads
+function ticketKey(tenantId: string, ticketId: string): string {
+  return `${tenantId}:${ticketId}`
+}
+
+/**
+ * Whether a message asks for a person or reports an urgent problem
+ *
+ * @param message - Guest message
+ * @returns Why the conversation should go to staff, or null
+ */
+export function detectHandoffIntent(message: string): HandoffReason | null {
+  return HANDOFF_PATTERNS.find(({ pattern }) => pattern.test(message))?.reason || null
+}
+
+/**
+ * Whether a message is about bookings, refunds or a stay, where a person may be needed
+ */
+export function isSupportTopic(message: string): boolean {
+  return SUPPORT_TOPIC.test(message)
+}
+
+/**
+ * Quick reply that asks for a human (its payload is detected by detectHandoffIntent)
+ */
+export function handoffOffer(): ChatAction {
+  const { label, payload } = chatbotConfig.handoff.offer
+  return { type: 'quick_reply', label, href: undefined, payload }
+}
+
+/**
+ * Opens a ticket and hands the thread to staff
+ *
+ * @param ticket - Who, why and the conversation so far
+ * @returns The open ticket
+ */
+export async function createHandoffTicket(ticket: Pick<HandoffTicket, 'tenantId' | 'threadId' | 'userId' | 'reason' | 'trigger' | 'transcript'>): Promise<HandoffTicket> {
+  const now = new Date().toISOString()
+  const created: HandoffTicket = {
+    ...ticket,
+    id: crypto.randomUUID(),
+    status: 'open',
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  await getStore().set(ticketKey(created.tenantId, created.id), created)
+  await setThreadHandoff(created.tenantId, created.threadId, created.id)
+
+  logger.info('Handoff ticket created', {
+    tenantId: created.tenantId,
+    ticketId: created.id,
+    threadId: created.threadId,
+    userId: created.userId,
+    reason: created.reason,
+    trigger: created.trigger,
+  })
+  return created
+}
+
+/**
+ * Loads a ticket by id
+ */
+export async function getHandoffTicket(tenantId: string, ticketId: string): Promise<HandoffTicket | null> {
+  return getStore().get(ticketKey(tenantId, ticketId))
+}
+
+/**
+ * Lists a tenant's tickets, oldest first
+ *
+ * @param tenantId - Tenant that owns the tickets
+ * @param status - Only tickets with this status
+ */
+export async function listHandoffTickets(tenantId: string, status?: HandoffStatus): Promise<HandoffTicket[]> {
+  const tickets = await getStore().list()
+  return tickets
+    .filter(ticket => ticket.tenantId === tenantId && (!status || ticket.status === status))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+async function requireActiveTicket(tenantId: string, ticketId: string): Promise<HandoffTicket> {
+  const ticket = await getHandoffTicket(tenantId, ticketId)
+  if (!ticket) {
+    throw new ChatError('VALIDATION_ERROR', 404, { message: 'Handoff ticket not found', userMessage: 'Handoff ticket not found.' })
+  }
+  if (ticket.status === 'closed') {
+    throw new ChatError('VALIDATION_ERROR', 409, { message: 'Handoff ticket is closed', userMessage: 'This ticket is already closed.' })
+  }
+  return ticket
+}
+
+async function saveTicket(ticket: HandoffTicket): Promise<HandoffTicket> {
+  ticket.updatedAt = new Date().toISOString()
+  await getStore().set(ticketKey(ticket.tenantId, ticket.id), ticket)
+  return ticket
+}
+
+/**
+ * Adds a guest message that arrived while staff own the thread
+ *
+ * @param ticket - The thread's open ticket
+ * @param content - Guest message
+ */
+export async function queueHandoffMessage(ticket: HandoffTicket, content: string): Promise<HandoffTicket> {
+  ticket.transcript.push({ role: 'user', content, timestamp: new Date().toISOString() })
+  return saveTicket(ticket)
+}
+
+/**
+ * Assigns a ticket to a staff member
+ * Claiming a ticket someone else holds fails with 409.
+ */
+export async function claimHandoffTicket(tenantId: string, ticketId: string, agent: string): Promise<HandoffTicket> {
+  const ticket = await requireActiveTicket(tenantId, ticketId)
+  if (ticket.status === 'claimed' && ticket.claimedBy !== agent) {
+    throw new ChatError('VALIDATION_ERROR', 409, {
+      message: 'Handoff ticket already claimed',
+      userMessage: `This ticket is already claimed by ${ticket.claimedBy}.`,
+    })
+  }
+
+  if (ticket.status === 'open') {
+    ticket.status = 'claimed'
+    ticket.claimedBy = agent
+    ticket.claimedAt = new Date().toISOString()
+    logger.info('Handoff ticket claimed', { tenantId, ticketId, agent })
+  }
+  return saveTicket(ticket)
+}
+
+/**
+ * Sends a staff reply to the guest
+ * The reply is added to the thread as an assistant turn (author "staff"), so the guest gets
+ * it with their next response or poll (see takeHandoffUpdate). Replying to an open ticket
+ * claims it.
+ */
+export async function replyToHandoff(tenantId: string, ticketId: string, agent: string, content: string): Promise<HandoffTicket> {
+  const ticket = await claimHandoffTicket(tenantId, ticketId, agent)
+
+  await appendMessages(tenantId, ticket.threadId, [{ role: 'assistant', content, author: 'staff', ticketId }])
+  ticket.transcript.push({ role: 'assistant', content, timestamp: new Date().toISOString(), author: 'staff' })
+
+  logger.info('Handoff reply sent', { tenantId, ticketId, agent })
+  return saveTicket(ticket)
+}
+
+/**
+ * Closes a ticket and gives the thread back to the model
+ */
+export async function closeHandoffTicket(tenantId: string, ticketId: string, agent: string): Promise<HandoffTicket> {
+  const ticket = await requireActiveTicket(tenantId, ticketId)
+
+  ticket.status = 'closed'
+  ticket.closedAt = new Date().toISOString()
+  await setThreadHandoff(tenantId, ticket.threadId, undefined)
+
+  logger.info('Handoff ticket closed', { tenantId, ticketId, agent })
+  return saveTicket(ticket)
+}
+
+/**
+ * Takes the staff replies the guest hasn't been shown yet, with the ticket's status
+ * Works after the ticket is closed too, so a reply sent just before closing isn't lost.
+ *
+ * @param thread - The guest's thread
+ * @returns The update (replies marked as delivered), or null if the thread was never handed off
+ */
+export async function takeHandoffUpdate(thread: Thread): Promise<HandoffUpdate | null> {
+  const replies = await takeUndeliveredReplies(thread.tenantId, thread.id)
+  const ticketId = thread.handoffTicketId || replies[replies.length - 1]?.ticketId
+  const ticket = ticketId ? await getHandoffTicket(thread.tenantId, ticketId) : null
+  if (!ticket) return null
+
+  return {
+    ticketId: ticket.id,
+    status: ticket.status,
+    replies: replies.map(reply => ({ content: reply.content, timestamp: reply.timestamp })),
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Local knowledge base
+ * Ingests markdown and JSON documents from a directory (KNOWLEDGE_DIR, default "knowledge"),
+ * splits them into passages and ranks passages for a question with BM25 - no external
+ * vector service. The top passages go into the system prompt and their documents are
+ * returned to the client as sources.
+ *
+ * Markdown: optional front matter (title, url), passages split at ## headings.
+ * JSON: one document or an array of { title, url, content } (content may be markdown).
+ */
+
+import { readdirSync, readFileSync } from 'fs'
+import { extname, join, basename } from 'path'
+import { chatbotConfig } from './config'
+import { logger } from './logger'
+
+export type KnowledgeSettings = typeof chatbotConfig.knowledge
+
+export interface KnowledgeDocument {
+  title: string
+  /** Absolute URL, or a path resolved against the request's site_url */
+  url: string
+  content: string
+}
+
+export interface Passage {
+  title: string
+  url: string
+  /** Section heading inside the document, if any */
+  heading?: string
+  text: string
+}
+
+export interface RankedPassage extends Passage {
+  score: number
+}
+
+export interface KnowledgeSource {
+  title: string
+  url: string
+}
+
+interface IndexedPassage extends Passage {
+  termCounts: Map<string, number>
+  length: number
+}
+
+export interface KnowledgeIndex {
+  passages: IndexedPassage[]
+  /** Number of passages containing each term */
+  documentFrequency: Map<string, number>
+  averageLength: number
+}
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2
+const B = 0.75
+
+// Long sections are split on paragraph boundaries into passages of about this size
+const MAX_PASSAGE_CHARS = 800
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'there',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your',
+])
+
+/**
+ * Splits text into lowercase search terms (stopwords dropped, plurals folded)
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(term => !STOPWORDS.has(term))
+    .map(term => term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term)
+}
+
+function parseFrontMatter(source: string): { meta: Record<string, string>; body: string } {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/)
+  if (!match) return { meta: {}, body: source }
+
+  const meta: Record<string, string> = {}
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':')
+    if (separator > 0) {
+      meta[line.slice(0, separator).trim()] = line.slice(separator + 1).trim().replace(/^["']|["']$/g, '')
+    }
+  }
+  return { meta, body: source.slice(match[0].length) }
+}
+
+/**
+ * Parses one knowledge file into documents
+ *
+ * @param fileName - File name (used for the default title and URL)
+ * @param source - File contents
+ * @returns Documents in the file (none if it can't be parsed)
+ */
+export function parseKnowledgeFile(fileName: string, source: string): KnowledgeDocument[] {
+  const slug = basename(fileName, extname(fileName))
+
+  if (extname(fileName) === '.json') {
+    let records: unknown
+    try {
+      records = JSON.parse(source)
+    } catch (error: any) {
+      logger.error('Invalid knowledge JSON', { file: fileName, error: error.message })
+      return []
+    }
+
+    return (Array.isArray(records) ? records : [records]).flatMap((record: any, index) => {
+      if (!record || typeof record.content !== 'string' || typeof record.title !== 'string') {
+        logger.error('Skipping invalid knowledge document', { file: fileName, index })
+        return []
+      }
+      return [{ title: record.title, url: record.url || `/help/${slug}`, content: record.content }]
+    })
+  }
+
+  const { meta, body } = parseFrontMatter(source)
+  const heading = body.match(/^#\s+(.+)$/m)
+  return [{
+    title: meta.title || heading?.[1].trim() || slug,
+    url: meta.url || `/help/${slug}`,
+    content: body,
+  }]
+}
+
+/**
+ * Splits a document into passages at ## headings, then at paragraphs for long sections
+ */
+export function splitPassages(document: KnowledgeDocument): Passage[] {
+  const passages: Passage[] = []
+  const sections = document.content.split(/^(?=##\s)/m)
+
+  for (const section of sections) {
+    const headingMatch = section.match(/^##+\s+(.+)$/m)
+    const heading = headingMatch?.[1].trim()
+    const body = section.replace(/^#+\s+.+$/gm, '').trim()
+    if (!body) continue
+
+    let current = ''
+    for (const paragraph of body.split(/\n\s*\n/)) {
+      if (current && current.length + paragraph.length > MAX_PASSAGE_CHARS) {
+        passages.push({ title: document.title, url: document.url, heading, text: current })
+        current = ''
+      }
+      current = current ? `${current}\n\n${paragraph.trim()}` : paragraph.trim()
+    }
+    if (current) {
+      passages.push({ title: document.title, url: document.url, heading, text: current })
+    }
+  }
+
+  return passages
+}
+
+/**
+ * Builds the BM25 index for a set of documents
+ */
+export function buildKnowledgeIndex(documents: KnowledgeDocument[]): KnowledgeIndex {
+  const documentFrequency = new Map<string, number>()
+
+  const passages = documents.flatMap(splitPassages).map(passage => {
+    // Headings and titles count as passage text so "WiFi" finds the WiFi guide
+    const terms = tokenize(`${passage.title} ${passage.heading || ''} ${passage.text}`)
+    const termCounts = new Map<string, number>()
+    terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1))
+    termCounts.forEach((_count, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1))
+
+    return { ...passage, termCounts, length: terms.length }
+  })
+
+  const totalLength = passages.reduce((sum, passage) => sum + passage.length, 0)
+  return { passages, documentFrequency, averageLength: passages.length ? totalLength / passages.length : 0 }
+}
+
+/**
+ * Ranks passages for a query with BM25
+ *
+ * @param index - Knowledge index
+ * @param query - The user's question
+ * @param options - Maximum passages and minimum score
+ * @returns Best passages first
+ */
+export function rankPassages(
+  index: KnowledgeIndex,
+  query: string,
+  options: { limit: number; minScore: number }
+): RankedPassage[] {
+  const terms = Array.from(new Set(tokenize(query)))
+  const total = index.passages.length
+
+  return index.passages
+    .map(passage => {
+      let score = 0
+      for (const term of terms) {
+        const frequency = passage.termCounts.get(term)
+        if (!frequency) continue
+
+        const documentFrequency = index.documentFrequency.get(term) || 0
+        const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5))
+        const lengthNorm = 1 - B + B * (passage.length / index.averageLength)
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm)
+      }
+
+      const { termCounts: _termCounts, length: _length, ...rest } = passage
+      return { ...rest, score }
+    })
+    .filter(passage => passage.score > 0 && passage.score >= options.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit)
+}
+
+/**
+ * Reads every .md and .json file in a directory
+ *
+ * @param dir - Knowledge directory
+ * @returns Documents (an empty list if the directory doesn't exist)
+ */
+export function loadKnowledgeDocuments(dir: string): KnowledgeDocument[] {
+  let files: string[]
+  try {
+    files = readdirSync(dir).filter(file => ['.md', '.json'].includes(extname(file))).sort()
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      logger.error('Failed to read knowledge directory', { dir, error: error.message })
+    }
+    return []
+  }
+
+  return files.flatMap(file => {
+    try {
+      return parseKnowledgeFile(file, readFileSync(join(dir, file), 'utf8'))
+    } catch (error: any) {
+      logger.error('Failed to read knowledge file', { file, error: error.message })
+      return []
+    }
+  })
+}
+
+let cache: { dir: string; index: KnowledgeIndex } | null = null
+
+/**
+ * Returns the index for KNOWLEDGE_DIR (built once per directory - restart to pick up edits)
+ */
+export function getKnowledgeIndex(): KnowledgeIndex {
+  const dir = process.env.KNOWLEDGE_DIR || 'knowledge'
+  if (!cache || cache.dir !== dir) {
+    const documents = loadKnowledgeDocuments(dir)
+    cache = { dir, index: buildKnowledgeIndex(documents) }
+    logger.info('Knowledge base loaded', { dir, documents: documents.length, passages: cache.index.passages.length })
+  }
+  return cache.index
+}
+
+/**
+ * Finds the passages to add to the prompt for a question
+ *
+ * @param query - The user's question
+ * @param settings - Passage limit and minimum score
+ * @returns Best passages first (empty when the knowledge base is off or nothing matches)
+ */
+export function searchKnowledge(query: string, settings: KnowledgeSettings = chatbotConfig.knowledge): RankedPassage[] {
+  if (!settings.enabled) return []
+  return rankPassages(getKnowledgeIndex(), query, { limit: settings.maxPassages, minScore: settings.minScore })
+}
+
+/**
+ * Resolves a source URL against the request's site URL
+ */
+export function resolveSourceUrl(url: string, siteUrl: string): string {
+  return /^https?:\/\//.test(url) ? url : `${siteUrl}${url.startsWith('/') ? '' : '/'}${url}`
+}
+
+/**
+ * Unique documents behind a set of passages, in ranking order
+ */
+export function knowledgeSources(passages: Passage[], siteUrl: string): KnowledgeSource[] {
+  const sources: KnowledgeSource[] = []
+  for (const passage of passages) {
+    const url = resolveSourceUrl(passage.url, siteUrl)
+    if (!sources.some(source => source.url === url)) {
+      sources.push({ title: passage.title, url })
+    }
+  }
+  return sources
+}
+
+/**
+ * Builds the knowledge section of the system prompt
+ */
+export function formatKnowledgeContext(passages: Passage[], siteUrl: string): string {
+  if (passages.length === 0) return ''
+
+  const blocks = passages.map(passage => {
+    const heading = passage.heading ? ` - ${passage.heading}` : ''
+    return `## ${passage.title}${heading} (${resolveSourceUrl(passage.url, siteUrl)})\n${passage.text}`
+  })
+
+  return `\n\n# KNOWLEDGE BASE\nAnswer from these passages when they're relevant and link the page you used.\n\n${blocks.join('\n\n')}`
+}
@@ -0,0 +1,171 @@
+/**
+ * Link checking for assistant replies
+ * The system prompt asks the model for markdown links built from siteUrl, but nothing
+ * stops it inventing paths (/bookings/123) or linking off-site. Every markdown link in
+ * a reply is checked against the request's site and the route table in config:
+ * - a known route on the site is kept (relative links and http/https mismatches are
+ *   rewritten to the full siteUrl link)
+ * - anything else is stripped down to its text
+ * The changes are returned so the response can report them.
+ */
+
+import { chatbotConfig } from './config'
+
+export type LinkSettings = typeof chatbotConfig.links
+
+export type LinkChangeReason = 'relative' | 'origin' | 'off_site' | 'unknown_route' | 'invalid'
+
+export interface LinkChange {
+  /** Link text as the model wrote it */
+  text: string
+  /** URL as the model wrote it */
+  url: string
+  action: 'rewritten' | 'stripped'
+  reason: LinkChangeReason
+  /** The URL it was rewritten to (rewritten links only) */
+  href: string | undefined
+}
+
+export interface CheckedReply {
+  message: string
+  /** Links that were rewritten or stripped, in order of appearance */
+  linkChanges: LinkChange[]
+}
+
+type LinkVerdict =
+  | { action: 'kept' }
+  | { action: 'rewritten'; reason: LinkChangeReason; href: string }
+  | { action: 'stripped'; reason: LinkChangeReason }
+
+// [text](url), [text](<url>), [text](url "title") and images; autolinks (<https://...>) separately
+const MARKDOWN_LINK = /(!?)\[([^\]\n]*)\]\(\s*<?([^\s()<>]*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/g
+const AUTOLINK = /<((?:https?:)?\/\/[^\s<>]+)>/g
+// The start of a link that hasn't finished streaming yet, at the end of the text
+const PARTIAL_LINK = /!?\[[^\]\n]*(?:\](?:\(\s*<?[^\s()<>]*>?(?:\s+(?:"[^"]*"?|'[^']*'?))?\s*)?)?$|<[^\s<>]*$/
+
+/**
+ * Turns a route table entry into a path matcher ("*" is one path segment)
+ */
+function routePattern(route: string): RegExp {
+  const pattern = route
+    .replace(/\/+$/, '')
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]+')
+  return new RegExp(`^${pattern}/?$`)
+}
+
+/**
+ * Whether a path (relative to siteUrl) is in the route table
+ */
+export function isKnownRoute(path: string, routes: readonly string[] = chatbotConfig.links.routes): boolean {
+  const normalized = path === '' ? '/' : path
+  return routes.some(route => routePattern(route).test(normalized))
+}
+
+/**
+ * Decides what happens to one link
+ *
+ * @param url - URL as written in the reply
+ * @param siteUrl - Validated site URL of the request
+ * @param routes - Known routes, relative to siteUrl
+ */
+export function checkLink(url: string, siteUrl: string, routes: readonly string[] = chatbotConfig.links.routes): LinkVerdict {
+  const site = new URL(siteUrl)
+  const basePath = site.pathname.replace(/\/+$/, '')
+
+  // Site-relative paths (the prompt's links are siteUrl + path, so they resolve under it)
+  const relative = url.startsWith('/') && !url.startsWith('//')
+  let target: URL
+  try {
+    target = relative ? new URL(`${basePath}${url}`, site.origin) : new URL(url, 'invalid:/')
+  } catch {
+    return { action: 'stripped', reason: 'invalid' }
+  }
+
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return { action: 'stripped', reason: 'invalid' }
+  }
+  if (target.hostname !== site.hostname) {
+    return { action: 'stripped', reason: 'off_site' }
+  }
+
+  const inBase = target.pathname === basePath || target.pathname.startsWith(`${basePath}/`)
+  if (!inBase || !isKnownRoute(target.pathname.slice(basePath.length), routes)) {
+    return { action: 'stripped', reason: 'unknown_route' }
+  }
+
+  const href = `${site.origin}${target.pathname}${target.search}${target.hash}`
+  if (relative) return { action: 'rewritten', reason: 'relative', href }
+  if (target.origin !== site.origin) return { action: 'rewritten', reason: 'origin', href }
+  return { action: 'kept' }
+}
+
+/**
+ * Checks every markdown link in a reply
+ *
+ * @param message - Reply from the model
+ * @param siteUrl - Validated site URL of the request
+ * @param settings - Link configuration
+ * @returns The reply with bad links rewritten or stripped, and what changed
+ */
+export function checkReplyLinks(message: string, siteUrl: string, settings: LinkSettings = chatbotConfig.links): CheckedReply {
+  if (!settings.enabled) return { message, linkChanges: [] }
+
+  const linkChanges: LinkChange[] = []
+  const record = (text: string, url: string, verdict: LinkVerdict) => {
+    if (verdict.action === 'kept') return
+    linkChanges.push({ text, url, href: undefined, ...verdict })
+  }
+
+  const withLinks = message.replace(MARKDOWN_LINK, (link, image: string, text: string, url: string) => {
+    const verdict = checkLink(url, siteUrl, settings.routes)
+    record(text, url, verdict)
+
+    if (verdict.action === 'kept') return link
+    if (verdict.action === 'rewritten') return `${image}[${text}](${verdict.href})`
+    return text
+  })
+
+  const checked = withLinks.replace(AUTOLINK, (link, url: string) => {
+    const verdict = checkLink(url, siteUrl, settings.routes)
+    record(url, url, verdict)
+
+    if (verdict.action === 'kept') return link
+    if (verdict.action === 'rewritten') return `<${verdict.href}>`
+    return ''
+  })
+
+  return { message: checked, linkChanges }
+}
+
+/**
+ * Checks links in a reply while it streams
+ * Text is passed on as soon as it can't be part of a link; a link that's still arriving is
+ * held back until it's complete, then checked like checkReplyLinks. Streamed tokens then
+ * never show a link the final `message` strips.
+ *
+ * @param siteUrl - Validated site URL of the request
+ * @param settings - Link configuration
+ * @returns push() takes each chunk and returns the checked text to send now (may be empty);
+ *   flush() returns whatever is still held back once the stream ends
+ */
+export function createStreamLinkChecker(siteUrl: string, settings: LinkSettings = chatbotConfig.links) {
+  let pending = ''
+  const check = (text: string) => text && checkReplyLinks(text, siteUrl, settings).message
+
+  return {
+    push(chunk: string): string {
+      pending += chunk
+      const partial = PARTIAL_LINK.exec(pending)
+      const ready = partial ? pending.slice(0, partial.index) : pending
+      pending = pending.slice(ready.length)
+      return check(ready)
+    },
+    flush(): string {
+      const rest = pending
+      pending = ''
+      return check(rest)
+    },
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Listing inventory
+ * Local data source for the chatbot's listing search (see ./tools) and for each event's
+ * space counts and price range (see ./events)
+ */
+
+export interface Listing {
+  id: string
+  title: string
+  /** Slug of the event the listing is offered for (see chatbotConfig.events) */
+  event: string
+  city: string
+  neighborhood: string
+  pricePerNight: number
+  /** Beds still available */
+  beds: number
+  instantBook: boolean
+  includesPasses: boolean
+  description: string
+}
+
+export interface ListingSearch {
+  event?: string
+  city?: string
+  maxPrice?: number
+  /** Minimum number of free beds */
+  beds?: number
+}
+
+export const LISTINGS: Listing[] = [
+  {
+    id: 'sundance-mountain-home',
+    title: 'Cozy Mountain Home',
+    event: 'sundance',
+    city: 'Park City, UT',
+    neighborhood: 'Old Town',
+    pricePerNight: 120,
+    beds: 3,
+    instantBook: true,
+    includesPasses: false,
+    description: 'Mountain home 10 minutes from the Egyptian Theatre',
+  },
+  {
+    id: 'sundance-downtown-condo',
+    title: 'Downtown Condo with Passes',
+    event: 'sundance',
+    city: 'Park City, UT',
+    neighborhood: 'Old Town',
+    pricePerNight: 95,
+    beds: 2,
+    instantBook: false,
+    includesPasses: true,
+    description: 'Condo on the shuttle route, festival passes included',
+  },
+  {
+    id: 'sundance-deer-valley-chalet',
+    title: 'Deer Valley Ski Chalet',
+    event: 'sundance',
+    city: 'Park City, UT',
+    neighborhood: 'Deer Valley',
+    pricePerNight: 150,
+    beds: 4,
+    instantBook: true,
+    includesPasses: false,
+    description: 'Spacious modern chalet near Deer Valley',
+  },
+  {
+    id: 'sundance-resort-loft',
+    title: 'Resort Base Loft',
+    event: 'sundance',
+    city: 'Park City, UT',
+    neighborhood: 'Park City Mountain',
+    pricePerNight: 200,
+    beds: 2,
+    instantBook: false,
+    includesPasses: true,
+    description: 'Loft at the resort base with festival passes included',
+  },
+  {
+    id: 'sundance-budget-bunkhouse',
+    title: 'Budget Bunkhouse',
+    event: 'sundance',
+    city: 'Park City, UT',
+    neighborhood: 'Park City Mountain',
+    pricePerNight: 80,
+    beds: 6,
+    instantBook: true,
+    includesPasses: false,
+    description: 'Shared bunk rooms 15 minutes from the Eccles Center',
+  },
+]
+
+/**
+ * Finds listings matching every given filter, cheapest first
+ *
+ * @param search - Event slug, city, maximum nightly price and minimum free beds
+ * @param listings - Inventory to search
+ * @returns Matching listings
+ */
+export function searchListings(search: ListingSearch, listings: Listing[] = LISTINGS): Listing[] {
+  const city = search.city?.toLowerCase()
+
+  return listings
+    .filter(listing => !search.event || listing.event === search.event.toLowerCase())
+    .filter(listing => !city || listing.city.toLowerCase().includes(city))
+    .filter(listing => search.maxPrice === undefined || listing.pricePerNight <= search.maxPrice)
+    .filter(listing => search.beds === undefined || listing.beds >= search.beds)
+    .sort((a, b) => a.pricePerNight - b.pricePerNight)
+}
+
+/**
+ * Public URL of a listing on the customer's site
+ */
+export function listingUrl(listing: Listing, siteUrl: string): string {
+  return `${siteUrl}/listings/${listing.id}`
+}
@@ -1,8 +1,12 @@
 /**
  * Structured logging utility for production and development
  * Provides different log levels and formats based on environment
+ * Context values are PII-redacted (see lib/redaction.ts) unless redaction.logs is off
  */
 
+import { chatbotConfig } from './config'
+import { mergeCounts, redactValue, RedactionCounts } from './redaction'
+
 type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'security'
 
 interface LogContext {
@@ -13,8 +17,12 @@ interface LogContext {
   [key: string]: any
 }
 
+// Requests whose redactions are being counted; ones that never report metrics are dropped oldest first
+const MAX_TRACKED_REQUESTS = 1000
+
 export class Logger {
   private logLevel: LogLevel = 'info'
+  private redactionCounts = new Map<string, RedactionCounts>()
 
   constructor() {
     this.logLevel = (process.env.LOG_LEVEL as LogLevel) || 'info'
@@ -25,8 +33,10 @@ export class Logger {
     return levels.indexOf(level) >= levels.indexOf(this.logLevel)
   }
 
-  private formatLog(level: LogLevel, message: string, context?: LogContext) {
+  private formatLog(level: LogLevel, message: string, rawContext?: LogContext) {
     const timestamp = new Date().toISOString()
+    const counts = rawContext?.requestId ? this.redactionCounts.get(rawContext.requestId) : undefined
+    const context = rawContext && chatbotConfig.redaction.logs ? redactValue(rawContext, undefined, 0, counts) : rawContext
 
     if (process.env.NODE_ENV === 'production') {
       // Structured JSON for production (easier for log aggregation tools)
@@ -43,6 +53,35 @@ export class Logger {
     }
   }
 
+  /**
+   * Starts counting the PII masked in a request's log lines (reported with its metrics)
+   */
+  trackRedactions(requestId: string) {
+    if (this.redactionCounts.size >= MAX_TRACKED_REQUESTS) {
+      this.redactionCounts.delete(this.redactionCounts.keys().next().value!)
+    }
+    this.redactionCounts.set(requestId, {})
+  }
+
+  /**
+   * Adds PII masked before it reached the logger (e.g. a preview redacted before it's cut)
+   */
+  recordRedactions(requestId: string, counts: RedactionCounts) {
+    const tracked = this.redactionCounts.get(requestId)
+    if (tracked) mergeCounts(tracked, counts)
+  }
+
+  /**
+   * Stops counting for a request
+   *
+   * @returns What was masked in its log lines so far, or undefined if it wasn't tracked
+   */
+  takeRedactions(requestId: string): RedactionCounts | undefined {
+    const counts = this.redactionCounts.get(requestId)
+    this.redactionCounts.delete(requestId)
+    return counts
+  }
+
   debug(message: string, context?: LogContext) {
     if (this.shouldLog('debug')) {
       console.debug(this.formatLog('debug', message, context))
@@ -0,0 +1,259 @@
+/**
+ * Deterministic mock language model
+ * Replies without network access - the same prompt always produces the same reply and usage.
+ *
+ * Select it with LLM_PROVIDER=mock. Behaviour is configured with:
+ * - MOCK_MODEL_SCRIPT (inline JSON) or MOCK_MODEL_FILE (JSON file) - scripted and rule-based replies
+ * - MOCK_MODEL_LATENCY_MS - delay before the reply starts
+ * - MOCK_MODEL_FAILURE - make every call fail: timeout | rate_limit | error | malformed
+ */
+
+import { readFileSync } from 'fs'
+import { APICallError, JSONParseError } from 'ai'
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from 'ai'
+import { logger } from './logger'
+
+export type MockFailure = 'timeout' | 'rate_limit' | 'error' | 'malformed'
+
+const MOCK_FAILURES: MockFailure[] = ['timeout', 'rate_limit', 'error', 'malformed']
+
+export interface MockRule {
+  /** Case-insensitive regular expression tested against the last user message */
+  match: string
+  reply?: string
+  /** Fail instead of replying */
+  failure?: MockFailure
+  /** Reported token usage (estimated from the text when omitted) */
+  usage?: { promptTokens: number; completionTokens: number }
+  /** Call this tool first; the reply is generated once its result is in the prompt */
+  toolCall?: { name: string; args?: Record<string, unknown> }
+}
+
+export interface MockScript {
+  /** Checked in order - the first matching rule wins */
+  rules?: MockRule[]
+  /** Replies by turn: the first user message gets replies[0], the second replies[1], ... */
+  replies?: string[]
+  /**
+   * Reply when nothing else matches
+   * {{message}} is replaced with the last user message and {{listings}} with links to
+   * the listings returned by tool calls
+   */
+  default?: string
+}
+
+export interface MockModelOptions {
+  script?: MockScript
+  latencyMs?: number
+  failure?: MockFailure
+}
+
+const DEFAULT_REPLY = 'Mock reply: {{message}}'
+
+// Rough token estimate used for simulated usage (~4 characters per token)
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4))
+}
+
+function readScriptSource(): string | undefined {
+  if (process.env.MOCK_MODEL_FILE) {
+    try {
+      return readFileSync(process.env.MOCK_MODEL_FILE, 'utf8')
+    } catch (error: any) {
+      logger.error('Failed to read mock model file', { file: process.env.MOCK_MODEL_FILE, error: error.message })
+      return undefined
+    }
+  }
+  return process.env.MOCK_MODEL_SCRIPT
+}
+
+function parseScript(source: string | undefined): MockScript | undefined {
+  if (!source) return undefined
+  try {
+    return JSON.parse(source)
+  } catch (error: any) {
+    logger.error('Invalid mock model script JSON', { error: error.message })
+    return undefined
+  }
+}
+
+/**
+ * Reads mock model options from MOCK_MODEL_* environment variables
+ */
+export function mockOptionsFromEnv(): MockModelOptions {
+  const failure = process.env.MOCK_MODEL_FAILURE as MockFailure | undefined
+  if (failure && !MOCK_FAILURES.includes(failure)) {
+    logger.warn('Ignoring unknown MOCK_MODEL_FAILURE', { failure })
+  }
+
+  return {
+    script: parseScript(readScriptSource()),
+    latencyMs: Number(process.env.MOCK_MODEL_LATENCY_MS) || 0,
+    failure: failure && MOCK_FAILURES.includes(failure) ? failure : undefined,
+  }
+}
+
+function promptText(prompt: LanguageModelV1CallOptions['prompt']) {
+  let all = ''
+  let lastUser = ''
+  let turn = 0
+  const toolResults: unknown[] = []
+
+  for (const message of prompt) {
+    if (message.role === 'tool') {
+      toolResults.push(...message.content.map(part => part.result))
+      all += JSON.stringify(message.content)
+      continue
+    }
+
+    const text = typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => part.type === 'text' ? part.text : '').join('')
+    all += text
+    if (message.role === 'user') {
+      lastUser = text
+      turn++
+    }
+  }
+
+  // Tool results answer the latest tool call when they're the last thing in the prompt
+  const awaitingReply = prompt[prompt.length - 1]?.role === 'tool'
+
+  return { all, lastUser, turn, toolResults, awaitingReply }
+}
+
+// Markdown links for listings found in tool results
+function listingLinks(toolResults: unknown[]): string {
+  return toolResults
+    .flatMap((result: any) => Array.isArray(result?.listings) ? result.listings : [])
+    .map((listing: any) => `[${listing.title}](${listing.url})`)
+    .join(', ')
+}
+
+function findRule(rules: MockRule[], message: string): MockRule | undefined {
+  return rules.find(rule => {
+    try {
+      return new RegExp(rule.match, 'i').test(message)
+    } catch {
+      return message.toLowerCase().includes(rule.match.toLowerCase())
+    }
+  })
+}
+
+/**
+ * Builds the error a real provider call would fail with
+ */
+function failureError(failure: Exclude<MockFailure, 'timeout'>): Error {
+  if (failure === 'malformed') {
+    return new JSONParseError({ text: '{"choices":[{"message":', cause: new Error('Unexpected end of JSON input') })
+  }
+
+  // Not marked retryable so the AI SDK doesn't retry with its own backoff
+  return new APICallError({
+    message: failure === 'rate_limit' ? 'Mock rate limit exceeded' : 'Mock model error',
+    url: 'mock://model',
+    requestBodyValues: {},
+    statusCode: failure === 'rate_limit' ? 429 : 500,
+    isRetryable: false,
+  })
+}
+
+/**
+ * Waits for the simulated latency, or forever for a simulated timeout
+ * Rejects as soon as the call is aborted
+ */
+function wait(ms: number | undefined, abortSignal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) return reject(new Error('Request aborted'))
+
+    const timeoutId = ms === undefined ? undefined : setTimeout(resolve, ms)
+    abortSignal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId)
+      reject(new Error('Request aborted'))
+    }, { once: true })
+  })
+}
+
+/**
+ * Creates a mock model
+ * Without a script it echoes the last user message. Rules with a toolCall call that tool
+ * when the request offers it, then reply once the result is in the prompt.
+ *
+ * @param modelId - Model id reported in logs and metrics
+ * @param options - Script, latency and failure mode (defaults to MOCK_MODEL_* env)
+ * @returns AI SDK language model
+ */
+export function createMockModel(modelId = 'mock', options: MockModelOptions = mockOptionsFromEnv()): LanguageModelV1 {
+  async function reply(callOptions: LanguageModelV1CallOptions) {
+    const { all, lastUser, turn, toolResults, awaitingReply } = promptText(callOptions.prompt)
+    const rule = findRule(options.script?.rules || [], lastUser)
+    const failure = rule?.failure || options.failure
+
+    if (failure === 'timeout') {
+      await wait(undefined, callOptions.abortSignal)
+    }
+    if (options.latencyMs) {
+      await wait(options.latencyMs, callOptions.abortSignal)
+    }
+    if (failure && failure !== 'timeout') {
+      throw failureError(failure)
+    }
+
+    const tools = callOptions.mode.type === 'regular' ? callOptions.mode.tools || [] : []
+    if (rule?.toolCall && !awaitingReply && tools.some(tool => tool.name === rule.toolCall!.name)) {
+      const args = JSON.stringify(rule.toolCall.args || {})
+      return {
+        toolCall: { toolCallType: 'function' as const, toolCallId: `mock-call-${turn}`, toolName: rule.toolCall.name, args },
+        usage: { promptTokens: estimateTokens(all), completionTokens: estimateTokens(args) },
+      }
+    }
+
+    const template = rule?.reply ?? options.script?.replies?.[turn - 1] ?? options.script?.default ?? DEFAULT_REPLY
+    const text = template
+      .replace(/\{\{message\}\}/g, lastUser)
+      .replace(/\{\{listings\}\}/g, listingLinks(toolResults))
+
+    return {
+      text,
+      usage: rule?.usage || { promptTokens: estimateTokens(all), completionTokens: estimateTokens(text) },
+    }
+  }
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(callOptions) {
+      const { text, toolCall, usage } = await reply(callOptions)
+      return {
+        text,
+        toolCalls: toolCall && [toolCall],
+        usage,
+        finishReason: toolCall ? 'tool-calls' : 'stop',
+        rawCall: { rawPrompt: callOptions.prompt, rawSettings: {} },
+      }
+    },
+
+    async doStream(callOptions) {
+      const { text, toolCall, usage } = await reply(callOptions)
+      const words = text ? text.split(/(?<= )/) : []
+
+      const stream = new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          if (toolCall) {
+            controller.enqueue({ type: 'tool-call', ...toolCall })
+          }
+          for (const word of words) {
+            controller.enqueue({ type: 'text-delta', textDelta: word })
+          }
+          controller.enqueue({ type: 'finish', finishReason: toolCall ? 'tool-calls' : 'stop', usage })
+          controller.close()
+        },
+      })
+
+      return { stream, rawCall: { rawPrompt: callOptions.prompt, rawSettings: {} } }
+    },
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Inbound message moderation
+ * Every message runs through a list of checks before it reaches the model. Each check
+ * returns allow, soften (pass on a cleaned-up message) or block; the strictest verdict
+ * wins. Built in:
+ * - injection: local heuristics for prompt-injection phrasing
+ * - blocklist: configured terms that block the message or get masked
+ * - provider: optional hosted moderation API (MODERATION_PROVIDER=openai)
+ * More checks can be added with registerModerationCheck().
+ */
+
+import { chatbotConfig } from './config'
+import { logger } from './logger'
+
+export type ModerationSettings = typeof chatbotConfig.moderation
+export type ModerationAction = 'allow' | 'soften' | 'block'
+
+export interface ModerationVerdict {
+  action: ModerationAction
+  /** Short machine-readable reason, e.g. "injection:ignore_instructions" */
+  reasons?: string[]
+  /** Cleaned-up message (soften only) */
+  message?: string
+}
+
+export interface ModerationContext {
+  requestId: string
+  tenantId: string
+}
+
+export interface ModerationCheck {
+  name: string
+  /** Calls an external service - skipped for local-only runs (see ModerationOptions) */
+  hosted?: boolean
+  check(message: string, ctx: ModerationContext, settings: ModerationSettings): ModerationVerdict | Promise<ModerationVerdict>
+}
+
+export interface ModerationResult {
+  action: ModerationAction
+  /** Message to send to the model (softened if any check softened it) */
+  message: string
+  /** Checks that didn't allow the message */
+  decisions: { check: string; action: ModerationAction; reasons: string[] }[]
+}
+
+export interface ModerationOptions {
+  /** Skip hosted checks, e.g. for earlier turns that clients resend with every message */
+  localOnly?: boolean
+  /** Log the decision when every check allowed the message (default true) */
+  logAllowed?: boolean
+}
+
+const SEVERITY: Record<ModerationAction, number> = { allow: 0, soften: 1, block: 2 }
+
+const ALLOW: ModerationVerdict = { action: 'allow' }
+
+interface InjectionPattern {
+  name: string
+  pattern: RegExp
+  /** Added to the message's injection score */
+  score: number
+}
+
+// Phrasings seen in prompt-injection attempts. One match softens; several (or a strong one) block.
+const INJECTION_PATTERNS: InjectionPattern[] = [
+  {
+    name: 'ignore_instructions',
+    pattern: /\b(ignore|disregard|forget|override)\s+(all\s+|any\s+|the\s+|your\s+)*(previous|prior|above|earlier|system|original)\s+(instructions|prompts?|rules|directions|messages)\b/gi,
+    score: 1,
+  },
+  {
+    name: 'reveal_prompt',
+    pattern: /\b(reveal|show|print|repeat|output|tell me)\s+(me\s+)?(your|the)\s+(system\s+prompt|instructions|initial\s+prompt|hidden\s+prompt)\b/gi,
+    score: 1,
+  },
+  {
+    name: 'role_override',
+    pattern: /\b(you\s+are\s+now|from\s+now\s+on\s+you\s+are|pretend\s+to\s+be|act\s+as)\s+(an?\s+)?(unrestricted|unfiltered|jailbroken|dan|developer\s+mode|evil)\b/gi,
+    score: 2,
+  },
+  {
+    name: 'jailbreak_mode',
+    pattern: /\b(developer|god|jailbreak|dan)\s+mode\b/gi,
+    score: 1,
+  },
+  {
+    name: 'fake_role_marker',
+    pattern: /(<\|im_start\|>|<\|im_end\|>|^\s*(system|assistant)\s*:|\[\/?(system|inst)\])/gim,
+    score: 1,
+  },
+]
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function termPattern(term: string): RegExp {
+  return new RegExp(`\\b${escapeRegExp(term)}\\b`, 'gi')
+}
+
+/** Local prompt-injection heuristics */
+export const injectionCheck: ModerationCheck = {
+  name: 'injection',
+  check(message, _ctx, settings) {
+    const matches = INJECTION_PATTERNS.filter(({ pattern }) => {
+      pattern.lastIndex = 0
+      return pattern.test(message)
+    })
+    if (matches.length === 0) return ALLOW
+
+    const score = matches.reduce((sum, match) => sum + match.score, 0)
+    const reasons = matches.map(match => `injection:${match.name}`)
+    if (score >= settings.injection.blockScore) {
+      return { action: 'block', reasons }
+    }
+
+    // Soften: drop the instruction-like phrasing and keep the rest of the question
+    const softened = matches
+      .reduce((text, { pattern }) => text.replace(pattern, '[removed]'), message)
+      .replace(/\s+/g, ' ')
+      .trim()
+    return { action: 'soften', reasons, message: softened }
+  },
+}
+
+/** Configured blocklist (MODERATION_BLOCKLIST adds comma-separated block terms) */
+export const blocklistCheck: ModerationCheck = {
+  name: 'blocklist',
+  check(message, _ctx, settings) {
+    const envTerms = process.env.MODERATION_BLOCKLIST?.split(',').map(term => term.trim()).filter(Boolean) || []
+    const blocked = [...settings.blocklist.block, ...envTerms].filter(term => termPattern(term).test(message))
+    if (blocked.length > 0) {
+      // Log which list matched, not the term itself
+      return { action: 'block', reasons: [`blocklist:block:${blocked.length}`] }
+    }
+
+    const masked = settings.blocklist.mask.filter(term => termPattern(term).test(message))
+    if (masked.length === 0) return ALLOW
+
+    const softened = masked.reduce((text, term) => text.replace(termPattern(term), match => '*'.repeat(match.length)), message)
+    return { action: 'soften', reasons: [`blocklist:mask:${masked.length}`], message: softened }
+  },
+}
+
+/**
+ * Hosted moderation (MODERATION_PROVIDER=openai)
+ * Fails open: if the provider is slow or down, the message is allowed and the failure logged.
+ */
+export const providerCheck: ModerationCheck = {
+  name: 'provider',
+  hosted: true,
+  async check(message, ctx, settings) {
+    if (process.env.MODERATION_PROVIDER !== 'openai' || !process.env.OPENAI_API_KEY) return ALLOW
+
+    try {
+      const response = await fetch('https://api.openai.com/v1/moderations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+        body: JSON.stringify({ input: message }),
+        signal: AbortSignal.timeout(settings.provider.timeoutMs),
+      })
+      if (!response.ok) throw new Error(`Moderation API returned ${response.status}`)
+
+      const data = await response.json()
+      const result = data.results?.[0]
+      if (!result?.flagged) return ALLOW
+
+      const categories = Object.keys(result.categories || {}).filter(category => result.categories[category])
+      return { action: 'block', reasons: categories.map(category => `provider:${category}`) }
+    } catch (error: any) {
+      logger.warn('Moderation provider failed, allowing message', { requestId: ctx.requestId, error: error.message })
+      return ALLOW
+    }
+  },
+}
+
+let checks: ModerationCheck[] = [injectionCheck, blocklistCheck, providerCheck]
+
+/**
+ * Adds a check (runs after the built-in ones)
+ */
+export function registerModerationCheck(check: ModerationCheck) {
+  checks = [...checks.filter(existing => existing.name !== check.name), check]
+}
+
+/**
+ * Restores the built-in checks (used by tests)
+ */
+export function resetModerationChecks() {
+  checks = [injectionCheck, blocklistCheck, providerCheck]
+}
+
+/**
+ * Runs every check over a message
+ * Checks run in order and each sees the message as softened by the ones before it;
+ * the first block stops the run. The decision is logged as a security event.
+ *
+ * @param message - Sanitized user message
+ * @param ctx - Request and tenant ids for logging
+ * @param settings - Moderation configuration
+ * @param options - Which checks to run and whether to log allowed messages
+ * @returns Final action and the message to send to the model
+ */
+export async function moderateMessage(
+  message: string,
+  ctx: ModerationContext,
+  settings: ModerationSettings = chatbotConfig.moderation,
+  options: ModerationOptions = {}
+): Promise<ModerationResult> {
+  if (!settings.enabled) {
+    return { action: 'allow', message, decisions: [] }
+  }
+
+  const result: ModerationResult = { action: 'allow', message, decisions: [] }
+
+  for (const check of checks) {
+    if (options.localOnly && check.hosted) continue
+
+    const verdict = await check.check(result.message, ctx, settings)
+    if (verdict.action === 'allow') continue
+
+    result.decisions.push({ check: check.name, action: verdict.action, reasons: verdict.reasons || [] })
+    if (SEVERITY[verdict.action] > SEVERITY[result.action]) {
+      result.action = verdict.action
+    }
+    if (verdict.action === 'block') break
+    if (verdict.message !== undefined) {
+      result.message = verdict.message
+    }
+  }
+
+  if (result.action === 'allow' && options.logAllowed === false) return result
+
+  logger.security('Moderation decision', {
+    requestId: ctx.requestId,
+    tenantId: ctx.tenantId,
+    action: result.action,
+    decisions: result.decisions,
+  })
+  return result
+}
@@ -11,10 +11,31 @@ interface RequestMetrics {
   method: string
   statusCode: number
   duration: number
+  tenantId?: string
   userId?: string
   ip?: string
+  /** Provider and model that produced the reply (after any fallback) */
+  provider?: string
+  model?: string
   tokensUsed?: number
+  /** Prompt tokens reported by the model, against the budget the context was built for */
+  promptTokens?: number
+  promptTokenBudget?: number
+  /** Local estimate the context builder used (see lib/tokens.ts) */
+  estimatedPromptTokens?: number
+  /** Tokens spent updating the conversation summary (included in estimatedCost) */
+  summaryTokens?: number
+  /** PII masked in the model prompt, per type (redaction.prompts only) */
+  redactions?: Record<string, number>
   estimatedCost?: number
+  /** Reply served from the answer cache (no model call, zero cost) */
+  cacheHit?: boolean
+  /** Answered by the human handoff instead of the model: a ticket was opened or the message queued for staff */
+  handoff?: 'opened' | 'queued'
+  /** Prompt template ("name@version") and experiment variant, for comparing variants */
+  promptVersion?: string
+  experiment?: string
+  variant?: string
 }
 
 /**
@@ -24,16 +45,33 @@ interface RequestMetrics {
  * @param metrics - Request metrics to log
  */
 export function logRequestMetrics(metrics: RequestMetrics) {
+  // PII masked in this request's log lines (redaction.logs) - counted before this line is written
+  const logRedactions = logger.takeRedactions(metrics.requestId)
+
   logger.info('Request completed', {
     requestId: metrics.requestId,
     endpoint: metrics.endpoint,
     method: metrics.method,
     statusCode: metrics.statusCode,
     duration: metrics.duration,
+    tenantId: metrics.tenantId,
     userId: metrics.userId,
     ip: metrics.ip,
+    provider: metrics.provider,
+    model: metrics.model,
     tokensUsed: metrics.tokensUsed,
+    promptTokens: metrics.promptTokens,
+    promptTokenBudget: metrics.promptTokenBudget,
+    estimatedPromptTokens: metrics.estimatedPromptTokens,
+    summaryTokens: metrics.summaryTokens,
+    redactions: metrics.redactions,
+    logRedactions: logRedactions && Object.keys(logRedactions).length > 0 ? logRedactions : undefined,
     estimatedCost: metrics.estimatedCost,
+    cacheHit: metrics.cacheHit,
+    handoff: metrics.handoff,
+    promptVersion: metrics.promptVersion,
+    experiment: metrics.experiment,
+    variant: metrics.variant,
   })
 
   // Alert on high cost requests (>$0.10 per request)
@@ -42,6 +80,8 @@ export function logRequestMetrics(metrics: RequestMetrics) {
       requestId: metrics.requestId,
       cost: metrics.estimatedCost,
       tokensUsed: metrics.tokensUsed,
+      provider: metrics.provider,
+      model: metrics.model,
     })
   }
 
@@ -56,26 +96,45 @@ export function logRequestMetrics(metrics: RequestMetrics) {
 }
 
 /**
- * Calculates estimated cost for OpenAI API usage
- * Pricing based on current OpenAI rates (as of 2025)
+ * Pricing per token by provider and model
+ * Local and mock providers don't bill per token
+ */
+const PRICING: Record<string, Record<string, { input: number; output: number }>> = {
+  // OpenAI pricing per 1000 tokens (as of January 2025)
+  openai: {
+    'gpt-3.5-turbo': { input: 0.0005 / 1000, output: 0.0015 / 1000 },
+    'gpt-4': { input: 0.03 / 1000, output: 0.06 / 1000 },
+    'gpt-4-turbo': { input: 0.01 / 1000, output: 0.03 / 1000 },
+    'gpt-4o': { input: 0.0025 / 1000, output: 0.01 / 1000 },
+    'gpt-4o-mini': { input: 0.00015 / 1000, output: 0.0006 / 1000 },
+  },
+  local: {},
+  mock: {},
+}
+
+/**
+ * Calculates estimated cost for model usage
+ * Pricing based on current provider rates (as of 2025)
  *
- * @param usage - Token usage from OpenAI response
+ * @param usage - Token usage from the model response
  * @param model - Model name used
+ * @param provider - Provider that served the request (defaults to openai)
  * @returns Estimated cost in USD
  */
 export function calculateCost(
   usage: { promptTokens: number; completionTokens: number },
-  model: string
+  model: string,
+  provider = 'openai'
 ): number {
-  // OpenAI pricing per 1000 tokens (as of January 2025)
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gpt-3.5-turbo': { input: 0.0005 / 1000, output: 0.0015 / 1000 },
-    'gpt-4': { input: 0.03 / 1000, output: 0.06 / 1000 },
-    'gpt-4-turbo': { input: 0.01 / 1000, output: 0.03 / 1000 },
+  const providerPricing = PRICING[provider]
+
+  // Self-hosted and mock providers are free; unknown providers are priced like OpenAI
+  if (providerPricing && provider !== 'openai' && !providerPricing[model]) {
+    return 0
   }
 
   // Default to gpt-3.5-turbo pricing if model not found
-  const modelPricing = pricing[model] || pricing['gpt-3.5-turbo']
+  const modelPricing = (providerPricing || PRICING.openai)[model] || PRICING.openai['gpt-3.5-turbo']
 
   const inputCost = usage.promptTokens * modelPricing.input
   const outputCost = usage.completionTokens * modelPricing.output
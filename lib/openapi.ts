@@ -0,0 +1,567 @@
+/**
+ * OpenAPI 3 document for the chatbot API
+ * Built from the request schemas in ./validation, the response schemas below and the
+ * ErrorCode catalog, so the spec, the homepage docs and the handlers share one source
+ */
+
+import { ERROR_RESPONSES, ErrorCode } from './errors'
+import { API_KEY_SCOPES } from './api-keys'
+import { chatActionSchema } from './actions'
+import {
+  schema,
+  chatRequestSchema,
+  createApiKeyRequestSchema,
+  rotateApiKeyRequestSchema,
+  handoffActionRequestSchema,
+  handoffReplyRequestSchema,
+  Infer,
+  JsonSchema,
+  Schema,
+} from './validation'
+
+const API_VERSION = '2.0.0'
+
+const ERROR_CODES = Object.keys(ERROR_RESPONSES) as ErrorCode[]
+
+const handoffFields = {
+  ticket_id: schema.string({ example: '0b6f3a52-0000-4000-8000-000000000000' }),
+  status: schema.enum(['open', 'claimed', 'closed'] as const),
+  replies: schema.array(schema.object({
+    content: schema.string({ example: "Hi, I'm Dana - I've refunded the cleaning fee." }),
+    timestamp: schema.string({ format: 'date-time' }),
+  }), { description: 'Staff replies not received yet - each is returned once, including replies sent just before the ticket was closed' }),
+}
+
+/**
+ * Fields shared by both chat success bodies: suggested actions, links the reply checker changed, the prompt
+ * template and experiment variant (recorded on every reply so variants can be compared),
+ * the rolling summary and the human handoff
+ */
+const replyFields = {
+  actions: schema.array(chatActionSchema, {
+    description: 'Suggested next steps to render as buttons - links to site pages and quick replies to send as the next message',
+  }),
+  linkChanges: schema.array(schema.object({
+    text: schema.string({ example: 'your booking' }),
+    url: schema.string({ description: 'URL as the model wrote it', example: '/bookings/123' }),
+    action: schema.enum(['rewritten', 'stripped'] as const),
+    reason: schema.enum(['relative', 'origin', 'off_site', 'unknown_route', 'invalid'] as const),
+    href: schema.optional(schema.string({ description: 'Rewritten URL', example: 'https://bubbl.io/listings' })),
+  }), { description: 'Links in the reply that were rewritten, or stripped to their text, because they were off-site or not a known route' }),
+  promptVersion: schema.string({ description: 'System prompt template ("name@version")', example: 'concierge@1' }),
+  experiment: schema.optional(schema.string({ description: 'Prompt experiment the thread is in', example: 'event-first-question' })),
+  variant: schema.optional(schema.string({ description: 'Experiment variant the thread was assigned', example: 'control' })),
+  summary: schema.optional(schema.object({
+    text: schema.string({ example: 'Guest is going to Sundance Jan 22-26 with 3 friends, budget $100/night.' }),
+    message_count: schema.number({ example: 6 }),
+    signature: schema.string({ description: 'Send back unchanged with the summary', example: 'm0y3Jc9q0tEw5i1oZ2P2cN7c3l0p5o2mV8o0bQ2m9zE' }),
+  }, { description: 'Rolling summary of older turns - send it back with the next request (only when threads are off)' })),
+  handoff: schema.optional(schema.object(handoffFields, {
+    description: 'Staff own the conversation - the message went to the handoff ticket instead of the model. ' +
+      'Also set (status "closed") when staff replied and then closed the ticket since your previous message.',
+  })),
+}
+
+/** POST /api/chat success body (also the payload of the streaming `done` event) */
+export const chatResponseSchema = schema.object({
+  message: schema.string({
+    description: 'Reply with markdown links',
+    example: 'Jan 20-30 in Park City! [Check Sundance spaces](https://bubbl.io/listings?event=sundance)',
+  }),
+  thread_id: schema.string({ description: 'Send this back to continue the conversation', example: 'abc123' }),
+  timestamp: schema.string({ format: 'date-time', example: '2025-01-09T12:00:00.000Z' }),
+  success: schema.boolean({ example: true }),
+  requestId: schema.string({ example: '6f1c2d4e-0000-4000-8000-000000000000' }),
+  duration: schema.number({ description: 'Server time in milliseconds', example: 1234 }),
+  cached: schema.boolean({ description: 'The reply came from the answer cache (no model call)', example: false }),
+  sources: schema.array(schema.object({
+    title: schema.string({ example: 'House Rules' }),
+    url: schema.string({ example: 'https://bubbl.io/help/house-rules' }),
+  }), { description: 'Knowledge base documents used for the reply' }),
+  ...replyFields,
+})
+
+export type ChatResponseBody = Infer<typeof chatResponseSchema>
+
+/** POST /api/chat/converse success body */
+export const converseResponseSchema = schema.object({
+  message: schema.string({ description: 'Reply with markdown links', example: 'Hey! Looking for a place for a specific event?' }),
+  thread_id: schema.optional(schema.string({
+    description: 'Handoff thread - send it back while staff own the conversation (only set with `handoff`)',
+    example: 'abc123',
+  })),
+  timestamp: schema.string({ format: 'date-time', example: '2025-01-09T12:00:00.000Z' }),
+  success: schema.boolean({ example: true }),
+  requestId: schema.string({ example: '6f1c2d4e-0000-4000-8000-000000000000' }),
+  duration: schema.number({ description: 'Server time in milliseconds', example: 1234 }),
+  cached: schema.boolean({ description: 'The reply came from the answer cache (no model call)', example: false }),
+  ...replyFields,
+})
+
+export type ConverseResponseBody = Infer<typeof converseResponseSchema>
+
+/** GET /api/chat/threads/{id} and /api/chat/converse/threads/{id} body */
+export const threadResponseSchema = schema.object({
+  thread_id: schema.string({ example: 'abc123' }),
+  messages: schema.array(schema.object({
+    role: schema.enum(['user', 'assistant'] as const),
+    content: schema.string({ example: 'Can I talk to a human?' }),
+    timestamp: schema.string({ format: 'date-time' }),
+    author: schema.optional(schema.enum(['staff'] as const, { description: 'Set on staff replies' })),
+  })),
+  handoff: schema.nullable(schema.object(handoffFields, { description: 'The thread\'s handoff ticket, or null if it was never handed off' })),
+  requestId: schema.string(),
+})
+
+export type ThreadResponseBody = Infer<typeof threadResponseSchema>
+
+/** GET /api/chat health check body */
+export const healthResponseSchema = schema.object({
+  service: schema.string({ example: 'Bubbl Chatbot API' }),
+  status: schema.enum(['active', 'degraded'], { description: 'degraded while any model circuit breaker is open' }),
+  version: schema.string({ example: API_VERSION }),
+  authRequired: schema.boolean({ description: 'Whether POST /api/chat requires an API key', example: true }),
+  authentication: schema.object({
+    type: schema.string({ example: 'apiKey' }),
+    header: schema.string({ example: 'X-API-Key' }),
+  }),
+  endpoints: schema.object({
+    chat: schema.string({ example: 'POST /api/chat' }),
+    health: schema.string({ example: 'GET /api/chat' }),
+    openapi: schema.string({ example: 'GET /api/openapi.json' }),
+  }),
+  documentation: schema.string({ example: 'See /api/openapi.json or README.md for API documentation' }),
+  circuitBreakers: schema.array(schema.object({
+    target: schema.string({ example: 'openai:gpt-3.5-turbo' }),
+    state: schema.enum(['closed', 'open', 'half_open']),
+    failures: schema.number({ integer: true, description: 'Consecutive failed calls', example: 0 }),
+    openedAt: schema.optional(schema.string({ format: 'date-time' })),
+  }), { description: 'Model circuit breakers on this instance that have seen traffic' }),
+})
+
+export type HealthResponseBody = Infer<typeof healthResponseSchema>
+
+/** Validation, auth, rate limit and budget errors */
+export const errorResponseSchema = schema.object({
+  code: schema.enum(ERROR_CODES),
+  message: schema.string({ description: 'Technical description', example: ERROR_RESPONSES.VALIDATION_ERROR.message }),
+  userMessage: schema.string({ description: 'Safe to show to end users', example: ERROR_RESPONSES.VALIDATION_ERROR.userMessage }),
+  retryable: schema.boolean({ example: false }),
+  errors: schema.optional(schema.array(schema.object({
+    path: schema.string({ example: 'messages[1].role' }),
+    reason: schema.string({ example: 'must be one of: user, assistant' }),
+  }), { description: 'Field-level problems (VALIDATION_ERROR only)' })),
+  requestId: schema.string({ example: '6f1c2d4e-0000-4000-8000-000000000000' }),
+}, { description: 'Request rejected before reaching the model' })
+
+/** Failures while generating the reply */
+export const modelErrorResponseSchema = schema.object({
+  message: schema.string({ description: 'Safe to show to end users', example: ERROR_RESPONSES.MODEL_ERROR.userMessage }),
+  error: schema.boolean({ example: true }),
+  code: schema.enum(ERROR_CODES),
+  retryable: schema.boolean({ example: true }),
+  requestId: schema.string({ example: '6f1c2d4e-0000-4000-8000-000000000000' }),
+  duration: schema.number({ example: 25000 }),
+  details: schema.optional(schema.string({ description: 'Error detail (development only)' })),
+}, { description: 'The model call failed' })
+
+const periodStatusSchema = schema.object({
+  period: schema.string({ example: '2025-01-20' }),
+  spentUsd: schema.number({ example: 0.42 }),
+  limitUsd: schema.nullable(schema.number({ example: 5 })),
+  remainingUsd: schema.nullable(schema.number({ example: 4.58 })),
+  requests: schema.number({ integer: true, example: 812 }),
+  resetsAt: schema.string({ format: 'date-time', example: '2025-01-21T00:00:00.000Z' }),
+})
+
+/** GET /api/budget body */
+export const budgetResponseSchema = schema.object({
+  subject: schema.object({
+    type: schema.enum(['tenant', 'user'] as const),
+    id: schema.string({ example: 'acme' }),
+  }),
+  daily: periodStatusSchema,
+  monthly: periodStatusSchema,
+  exceeded: schema.boolean({ example: false }),
+  softLimitReached: schema.boolean({ example: false }),
+  requestId: schema.string(),
+})
+
+const apiKeyRecordSchema = schema.object({
+  id: schema.string({ description: 'Public key prefix', example: 'sk_bubbl_abcd1234' }),
+  tenantId: schema.string({ example: 'acme' }),
+  name: schema.optional(schema.string({ example: 'Acme production' })),
+  scopes: schema.array(schema.enum(API_KEY_SCOPES)),
+  createdAt: schema.string({ format: 'date-time' }),
+  expiresAt: schema.optional(schema.string({ format: 'date-time' })),
+  lastUsedAt: schema.optional(schema.string({ format: 'date-time' })),
+  revokedAt: schema.optional(schema.string({ format: 'date-time' })),
+  rotatedTo: schema.optional(schema.string({ description: 'Id of the replacement key' })),
+  active: schema.boolean({ example: true }),
+})
+
+const issuedKeySchema = schema.object({
+  key: schema.string({ description: 'Plaintext key - only returned once', example: 'sk_bubbl_abcd1234...' }),
+  record: apiKeyRecordSchema,
+  requestId: schema.string(),
+})
+
+const handoffTicketSchema = schema.object({
+  id: schema.string({ example: '0b6f3a52-0000-4000-8000-000000000000' }),
+  tenantId: schema.string({ example: 'default' }),
+  threadId: schema.string({ example: 'abc123' }),
+  userId: schema.optional(schema.string({ example: 'user-1' })),
+  reason: schema.enum(['requested_human', 'stay_problem'] as const),
+  trigger: schema.enum(['intent', 'action'] as const, { description: 'Detected from the message, or asked for with "handoff": true' }),
+  status: schema.enum(['open', 'claimed', 'closed'] as const),
+  transcript: schema.array(schema.object({
+    role: schema.enum(['user', 'assistant'] as const),
+    content: schema.string({ example: 'Can I talk to a human?' }),
+    timestamp: schema.string({ format: 'date-time' }),
+    author: schema.optional(schema.enum(['staff'] as const, { description: 'Set on staff replies' })),
+  }), { description: 'Conversation up to the handoff, then every message since' }),
+  createdAt: schema.string({ format: 'date-time' }),
+  updatedAt: schema.string({ format: 'date-time' }),
+  claimedBy: schema.optional(schema.string({ example: 'Dana' })),
+  claimedAt: schema.optional(schema.string({ format: 'date-time' })),
+  closedAt: schema.optional(schema.string({ format: 'date-time' })),
+})
+
+const handoffTicketResponseSchema = schema.object({ ticket: handoffTicketSchema, requestId: schema.string() })
+
+// Which error codes each status can carry
+const ERROR_STATUSES: Record<string, { description: string; codes: ErrorCode[]; modelError?: boolean }> = {
+  '400': { description: 'Invalid request body, or the message was blocked by moderation', codes: ['VALIDATION_ERROR', 'CONTENT_BLOCKED'] },
+  '401': { description: 'Missing or invalid credentials', codes: ['AUTH_ERROR'] },
+  '403': { description: 'Key lacks the required scope, or the origin is not allowed', codes: ['AUTH_ERROR'] },
+  '404': { description: 'Not found', codes: ['VALIDATION_ERROR'] },
+  '409': { description: 'Conflicts with the current state (e.g. a closed or already claimed ticket)', codes: ['VALIDATION_ERROR'] },
+  '429': { description: 'Rate limit or spending budget exceeded (see Retry-After)', codes: ['RATE_LIMIT', 'BUDGET_EXCEEDED'] },
+  '500': { description: 'Unexpected error', codes: ['UNKNOWN'], modelError: true },
+  '503': { description: 'Model unavailable', codes: ['MODEL_ERROR'], modelError: true },
+  '504': { description: 'The model took too long', codes: ['TIMEOUT'], modelError: true },
+}
+
+function jsonContent(bodySchema: Schema<unknown> | JsonSchema) {
+  const jsonSchema = 'jsonSchema' in bodySchema ? (bodySchema as Schema<unknown>).jsonSchema : bodySchema
+  return { 'application/json': { schema: jsonSchema } }
+}
+
+function errorResponses(statuses: string[]) {
+  return Object.fromEntries(statuses.map(status => {
+    const { description, codes, modelError } = ERROR_STATUSES[status]
+    const base = modelError ? modelErrorResponseSchema : errorResponseSchema
+
+    return [status, {
+      description: `${description} (${codes.join(', ')})`,
+      content: jsonContent({ ...base.jsonSchema, example: errorExample(codes[0], modelError) }),
+    }]
+  }))
+}
+
+function errorExample(code: ErrorCode, modelError?: boolean) {
+  const { message, userMessage, retryable } = ERROR_RESPONSES[code]
+  return modelError
+    ? { message: userMessage, error: true, code, retryable, requestId: 'uuid', duration: 1234 }
+    : { code, message, userMessage, retryable, requestId: 'uuid' }
+}
+
+const rateLimitHeaders = {
+  'X-RateLimit-Limit': { description: 'Bucket capacity', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left in the bucket', schema: { type: 'integer' } },
+  'X-RateLimit-Reset': { description: 'Seconds until the bucket is full', schema: { type: 'integer' } },
+}
+
+/**
+ * Builds the OpenAPI 3 document
+ *
+ * @param serverUrl - Base URL of this deployment
+ * @returns OpenAPI document (JSON-serializable)
+ */
+export function buildOpenApiSpec(serverUrl = process.env.NEXT_PUBLIC_BASE_URL || 'https://your-app.railway.app') {
+  const adminKey = [{ ApiKeyAuth: [] }]
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Bubbl Chatbot API',
+      version: API_VERSION,
+      description: 'Backend API for Bubble.io chatbot integration. ' +
+        'Authenticate with the X-API-Key header. Error responses carry a `code` from the catalog below.',
+    },
+    servers: [{ url: serverUrl }],
+    components: {
+      securitySchemes: {
+        ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        SessionCookie: { type: 'apiKey', in: 'cookie', name: 'next-auth.session-token' },
+      },
+      schemas: {
+        ChatRequest: chatRequestSchema.jsonSchema,
+        ChatResponse: chatResponseSchema.jsonSchema,
+        ErrorResponse: errorResponseSchema.jsonSchema,
+        ModelErrorResponse: modelErrorResponseSchema.jsonSchema,
+        ErrorCode: {
+          type: 'string',
+          enum: ERROR_CODES,
+          description: ERROR_CODES.map(code => `${code}: ${ERROR_RESPONSES[code].message}`).join('\n'),
+        },
+      },
+    },
+    paths: {
+      '/api/chat': {
+        post: {
+          summary: 'Send a message and get an AI response',
+          description: 'Send "stream": true or "Accept: text/event-stream" to receive `token` events ' +
+            'followed by a `done` event carrying the response body (or an `error` event).',
+          security: [{ ApiKeyAuth: [] }],
+          requestBody: { required: true, content: jsonContent(chatRequestSchema) },
+          responses: {
+            '200': {
+              description: 'Reply generated',
+              headers: rateLimitHeaders,
+              content: {
+                ...jsonContent(chatResponseSchema),
+                'text/event-stream': { schema: { type: 'string', description: 'Server-sent events: token, done, error' } },
+              },
+            },
+            ...errorResponses(['400', '401', '403', '404', '429', '500', '503', '504']),
+          },
+        },
+        get: {
+          summary: 'Health check',
+          security: [],
+          responses: { '200': { description: 'Service status', content: jsonContent(healthResponseSchema) } },
+        },
+      },
+      '/api/chat/converse': {
+        post: {
+          summary: 'Chat as the logged-in user (widget)',
+          description: 'Same request body as /api/chat. History comes from `messages`; thread_id is only used ' +
+            'for the handoff thread returned while staff own the conversation.',
+          security: [{ SessionCookie: [] }],
+          requestBody: { required: true, content: jsonContent(chatRequestSchema) },
+          responses: {
+            '200': { description: 'Reply generated', content: jsonContent(converseResponseSchema) },
+            ...errorResponses(['400', '401', '429', '500', '503', '504']),
+          },
+        },
+      },
+      '/api/chat/threads/{id}': {
+        get: {
+          summary: 'Read a thread and poll for staff replies',
+          description: 'Returns the thread and its handoff, with staff replies not received yet (each is returned once). ' +
+            'Requires the threads:read scope; threads owned by a logged-in user are reported as not found.',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': { description: 'Thread', content: jsonContent(threadResponseSchema) },
+            ...errorResponses(['401', '403', '404']),
+          },
+        },
+      },
+      '/api/chat/converse/threads/{id}': {
+        get: {
+          summary: 'Poll the logged-in user\'s handoff thread (widget)',
+          description: 'Same body as /api/chat/threads/{id}, for the thread_id returned with `handoff`. ' +
+            'Only the user who owns the thread can read it.',
+          security: [{ SessionCookie: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': { description: 'Thread', content: jsonContent(threadResponseSchema) },
+            ...errorResponses(['401', '404']),
+          },
+        },
+      },
+      '/api/budget': {
+        get: {
+          summary: 'Current spend against the budget',
+          description: 'Reports the spend of the calling key\'s tenant. Admin keys may pass tenant_id or user_id.',
+          security: [{ ApiKeyAuth: [] }],
+          parameters: [
+            { name: 'tenant_id', in: 'query', required: false, schema: { type: 'string' } },
+            { name: 'user_id', in: 'query', required: false, schema: { type: 'string' } },
+          ],
+          responses: {
+            '200': { description: 'Spend report', content: jsonContent(budgetResponseSchema) },
+            ...errorResponses(['401', '403', '404']),
+          },
+        },
+      },
+      '/api/admin/keys': {
+        get: {
+          summary: 'List API keys (admin)',
+          security: adminKey,
+          parameters: [{ name: 'tenant_id', in: 'query', required: false, schema: { type: 'string' } }],
+          responses: {
+            '200': {
+              description: 'Keys without secrets',
+              content: jsonContent(schema.object({ keys: schema.array(apiKeyRecordSchema), requestId: schema.string() })),
+            },
+            ...errorResponses(['401', '403']),
+          },
+        },
+        post: {
+          summary: 'Create an API key (admin)',
+          security: adminKey,
+          requestBody: { required: true, content: jsonContent(createApiKeyRequestSchema) },
+          responses: {
+            '201': { description: 'Key created', content: jsonContent(issuedKeySchema) },
+            ...errorResponses(['400', '401', '403']),
+          },
+        },
+      },
+      '/api/admin/keys/{id}': {
+        delete: {
+          summary: 'Revoke an API key (admin)',
+          security: adminKey,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': {
+              description: 'Key revoked',
+              content: jsonContent(schema.object({ record: apiKeyRecordSchema, requestId: schema.string() })),
+            },
+            ...errorResponses(['401', '403', '404']),
+          },
+        },
+      },
+      '/api/admin/keys/{id}/rotate': {
+        post: {
+          summary: 'Rotate an API key (admin)',
+          description: 'Issues a replacement key; the old key keeps working for overlap_seconds.',
+          security: adminKey,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: { required: false, content: jsonContent(rotateApiKeyRequestSchema) },
+          responses: {
+            '201': { description: 'Replacement issued', content: jsonContent(issuedKeySchema) },
+            ...errorResponses(['400', '401', '403', '404']),
+          },
+        },
+      },
+      '/api/admin/cache': {
+        delete: {
+          summary: 'Purge the answer cache (admin)',
+          description: 'Removes cached answers for every tenant, or only for tenant_id.',
+          security: adminKey,
+          parameters: [{ name: 'tenant_id', in: 'query', required: false, schema: { type: 'string' } }],
+          responses: {
+            '200': {
+              description: 'Cache purged',
+              content: jsonContent(schema.object({
+                purged: schema.number({ integer: true, description: 'Entries removed', example: 12 }),
+                requestId: schema.string(),
+              })),
+            },
+            ...errorResponses(['401', '403']),
+          },
+        },
+      },
+      '/api/staff/handoffs': {
+        get: {
+          summary: 'List handoff tickets (staff)',
+          description: 'Tickets for the key\'s tenant, oldest first. Requires the handoffs:read scope.',
+          security: adminKey,
+          parameters: [{ name: 'status', in: 'query', required: false, schema: { type: 'string', enum: ['open', 'claimed', 'closed'] } }],
+          responses: {
+            '200': {
+              description: 'Tickets',
+              content: jsonContent(schema.object({ tickets: schema.array(handoffTicketSchema), requestId: schema.string() })),
+            },
+            ...errorResponses(['400', '401', '403']),
+          },
+        },
+      },
+      '/api/staff/handoffs/{id}': {
+        get: {
+          summary: 'Get a handoff ticket (staff)',
+          description: 'Requires the handoffs:read scope.',
+          security: adminKey,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': { description: 'Ticket with its transcript', content: jsonContent(handoffTicketResponseSchema) },
+            ...errorResponses(['401', '403', '404']),
+          },
+        },
+      },
+      '/api/staff/handoffs/{id}/claim': {
+        post: {
+          summary: 'Claim a handoff ticket (staff)',
+          security: adminKey,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: { required: false, content: jsonContent(handoffActionRequestSchema) },
+          responses: {
+            '200': { description: 'Ticket claimed', content: jsonContent(handoffTicketResponseSchema) },
+            ...errorResponses(['400', '401', '403', '404', '409']),
+          },
+        },
+      },
+      '/api/staff/handoffs/{id}/reply': {
+        post: {
+          summary: 'Reply to the guest (staff)',
+          description: 'Adds the reply to the guest\'s thread; they receive it in `handoff.replies` with their next response ' +
+            'or by polling the thread. ' +
+            'Replying to an open ticket claims it.',
+          security: adminKey,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: { required: true, content: jsonContent(handoffReplyRequestSchema) },
+          responses: {
+            '200': { description: 'Reply sent', content: jsonContent(handoffTicketResponseSchema) },
+            ...errorResponses(['400', '401', '403', '404', '409']),
+          },
+        },
+      },
+      '/api/staff/handoffs/{id}/close': {
+        post: {
+          summary: 'Close a handoff ticket (staff)',
+          description: 'The model answers the thread again.',
+          security: adminKey,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: { required: false, content: jsonContent(handoffActionRequestSchema) },
+          responses: {
+            '200': { description: 'Ticket closed', content: jsonContent(handoffTicketResponseSchema) },
+            ...errorResponses(['400', '401', '403', '404', '409']),
+          },
+        },
+      },
+      '/api/openapi.json': {
+        get: {
+          summary: 'This document',
+          security: [],
+          responses: { '200': { description: 'OpenAPI 3 document' } },
+        },
+      },
+    },
+  }
+}
+
+export type OpenApiSpec = ReturnType<typeof buildOpenApiSpec>
+
+/**
+ * Builds an example value from a JSON Schema (uses `example` where given)
+ *
+ * @param jsonSchema - Schema to describe
+ * @returns Example value for docs
+ */
+export function exampleFromSchema(jsonSchema: JsonSchema): unknown {
+  if (jsonSchema.example !== undefined) return jsonSchema.example
+
+  switch (jsonSchema.type) {
+    case 'object': {
+      const properties = (jsonSchema.properties || {}) as Record<string, JsonSchema>
+      return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, exampleFromSchema(value)]))
+    }
+    case 'array':
+      return [exampleFromSchema((jsonSchema.items || {}) as JsonSchema)]
+    case 'boolean':
+      return true
+    case 'number':
+    case 'integer':
+      return 0
+    case 'string':
+      if (Array.isArray(jsonSchema.enum)) return jsonSchema.enum[0]
+      if (jsonSchema.format === 'date-time') return '2025-01-09T12:00:00.000Z'
+      if (jsonSchema.format === 'uri') return 'https://bubbl.io'
+      return '...'
+    default:
+      return null
+  }
+}
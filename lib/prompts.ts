@@ -0,0 +1,147 @@
+/**
+ * Versioned system prompt templates and A/B experiments
+ * Templates are registered by name and version ("concierge@2"). An enabled experiment
+ * splits traffic between templates: each thread (or user) is hashed into a variant, so
+ * it keeps the same prompt for the whole conversation. The chosen version and variant
+ * are recorded on every response and metrics entry.
+ */
+
+import { createHash } from 'crypto'
+import { chatbotConfig } from './config'
+import { logger } from './logger'
+
+export type PromptSettings = typeof chatbotConfig.prompts
+export type PromptExperiment = PromptSettings['experiments'][number]
+
+export interface PromptTemplate {
+  name: string
+  version: number
+  /** What changed in this version */
+  description: string
+  render(siteUrl: string, eventKnowledge: string): string
+}
+
+export interface PromptSelection {
+  template: PromptTemplate
+  /** "name@version" */
+  version: string
+  /** Experiment and variant the request was assigned to, if any */
+  experiment?: string
+  variant?: string
+}
+
+/** Who an experiment assigns - the user when known, otherwise the thread */
+export interface PromptSubject {
+  /** Omitted when the conversation has no stable id (no stored thread and no thread_id) */
+  threadId?: string
+  userId?: string
+}
+
+const templates = new Map<string, PromptTemplate>()
+
+// Always registered - used when the configured default doesn't exist
+const BUILT_IN_TEMPLATE = 'concierge@1'
+
+/**
+ * "name@version" id for a template
+ */
+export function templateId(template: Pick<PromptTemplate, 'name' | 'version'>): string {
+  return `${template.name}@${template.version}`
+}
+
+/**
+ * Registers a prompt template (replaces an existing one with the same name and version)
+ */
+export function registerPromptTemplate(template: PromptTemplate) {
+  templates.set(templateId(template), template)
+}
+
+/**
+ * Looks up a template by "name@version"
+ */
+export function getPromptTemplate(id: string): PromptTemplate | undefined {
+  return templates.get(id)
+}
+
+registerPromptTemplate({
+  name: 'concierge',
+  version: 1,
+  description: 'Original brief concierge prompt',
+  render: chatbotConfig.systemPrompt,
+})
+
+registerPromptTemplate({
+  name: 'concierge',
+  version: 2,
+  description: 'Asks which event the guest is going to before recommending spaces',
+  render: (siteUrl, eventKnowledge) => chatbotConfig.systemPrompt(siteUrl, eventKnowledge).replace(
+    '# TONE',
+    "# FIRST QUESTION\nIf you don't know which event they're going to, ask that before recommending spaces.\n\n# TONE"
+  ),
+})
+
+/**
+ * Maps a subject to a bucket in [0, buckets) - the same input always lands in the same bucket
+ */
+export function hashBucket(experimentId: string, subject: string, buckets: number): number {
+  const hash = createHash('sha256').update(`${experimentId}:${subject}`).digest()
+  return hash.readUInt32BE(0) % buckets
+}
+
+/**
+ * Picks an experiment variant for a subject, weighted by each variant's weight
+ * Conversations without a thread id are assigned by user, so every turn gets the same variant.
+ *
+ * @returns The variant, or undefined when the subject has neither a thread nor a user id
+ */
+export function assignVariant(experiment: PromptExperiment, subject: PromptSubject) {
+  const byUser = subject.userId && (experiment.assignBy === 'user' || !subject.threadId)
+  const key = byUser ? `user:${subject.userId}` : subject.threadId && `thread:${subject.threadId}`
+  if (!key) return undefined
+
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0)
+  let bucket = hashBucket(experiment.id, key, totalWeight)
+
+  for (const variant of experiment.variants) {
+    if (bucket < variant.weight) return variant
+    bucket -= variant.weight
+  }
+  return experiment.variants[experiment.variants.length - 1]
+}
+
+function selection(id: string, fallbackId: string): PromptSelection {
+  const template = getPromptTemplate(id)
+  if (template) return { template, version: id }
+
+  const fallback = getPromptTemplate(fallbackId) ? fallbackId : BUILT_IN_TEMPLATE
+  logger.warn('Unknown prompt template, using the default', { template: id, default: fallback })
+  return { template: getPromptTemplate(fallback)!, version: fallback }
+}
+
+/**
+ * Chooses the system prompt template for a request
+ * A pinned template wins; otherwise the first enabled experiment assigns a variant;
+ * otherwise the default template is used.
+ *
+ * @param subject - Thread and user ids used for stable assignment (omit to skip experiments)
+ * @param pinned - Template id pinned by the tenant, if any
+ * @param settings - Default template and experiments
+ * @returns Template, version and experiment variant
+ */
+export function selectPrompt(
+  subject: PromptSubject | undefined,
+  pinned?: string,
+  settings: PromptSettings = chatbotConfig.prompts
+): PromptSelection {
+  if (pinned) {
+    return selection(pinned, settings.defaultTemplate)
+  }
+
+  const experiment = subject && settings.experiments.find(candidate => candidate.enabled && candidate.variants.length > 0)
+  const variant = experiment && assignVariant(experiment, subject)
+  if (experiment && variant) {
+    return { ...selection(variant.template, settings.defaultTemplate), experiment: experiment.id, variant: variant.name }
+  }
+
+  return selection(settings.defaultTemplate, settings.defaultTemplate)
+}
@@ -0,0 +1,125 @@
+/**
+ * LLM provider layer
+ * Chat routes ask for a chain of provider/model targets instead of calling openai() directly;
+ * the pipeline tries them in order and falls back on retryable failures
+ */
+
+import type { LanguageModelV1 } from 'ai'
+import { openai, createOpenAI } from '@ai-sdk/openai'
+import { createMockModel } from './mock-model'
+import { ModelSettings } from './tenants'
+import { ErrorCode } from './errors'
+import { logger } from './logger'
+
+export interface LLMProvider {
+  /** Name used in configuration, logs and pricing */
+  name: string
+  /** Whether the driver has the settings it needs (API key, base URL) */
+  isConfigured(): boolean
+  /** Returns the AI SDK model for a model id */
+  languageModel(modelId: string): LanguageModelV1
+}
+
+export interface ModelTarget {
+  provider: string
+  model: string
+}
+
+/** Failures that move on to the next target in the chain */
+export const FALLBACK_ERROR_CODES: ErrorCode[] = ['MODEL_ERROR', 'TIMEOUT', 'RATE_LIMIT']
+
+const openaiProvider: LLMProvider = {
+  name: 'openai',
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  languageModel: (modelId) => openai(modelId),
+}
+
+// Any OpenAI-compatible server (Ollama, vLLM, LM Studio, llama.cpp)
+const localProvider: LLMProvider = {
+  name: 'local',
+  isConfigured: () => Boolean(process.env.LOCAL_LLM_BASE_URL),
+  languageModel: (modelId) => createOpenAI({
+    baseURL: process.env.LOCAL_LLM_BASE_URL,
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    compatibility: 'compatible',
+  })(modelId),
+}
+
+const mockProvider: LLMProvider = {
+  name: 'mock',
+  isConfigured: () => true,
+  languageModel: (modelId) => createMockModel(modelId),
+}
+
+const providers = new Map<string, LLMProvider>(
+  [openaiProvider, localProvider, mockProvider].map(provider => [provider.name, provider])
+)
+
+/**
+ * Registers a provider driver (or replaces a built-in one)
+ *
+ * @param provider - Driver to register under provider.name
+ */
+export function registerProvider(provider: LLMProvider) {
+  providers.set(provider.name, provider)
+}
+
+/**
+ * Looks up a provider driver by name
+ */
+export function getProvider(name: string): LLMProvider | undefined {
+  return providers.get(name)
+}
+
+/**
+ * Parses "provider:model" entries (comma-separated), e.g. "local:llama3,openai:gpt-4o-mini"
+ */
+export function parseModelTargets(value: string | undefined): ModelTarget[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(Boolean).flatMap(entry => {
+    const separator = entry.indexOf(':')
+    if (separator <= 0 || separator === entry.length - 1) {
+      logger.warn('Ignoring invalid model target', { entry })
+      return []
+    }
+    return [{ provider: entry.slice(0, separator), model: entry.slice(separator + 1) }]
+  })
+}
+
+/**
+ * Ordered list of provider/model targets to try for a request
+ * - Primary: settings.provider (tenant), else LLM_PROVIDER, else openai - with settings.name
+ * - Fallbacks: settings.fallbacks (tenant), else LLM_FALLBACKS
+ * Unknown or unconfigured providers are skipped
+ *
+ * @param settings - Model settings for the tenant
+ * @returns Targets in the order they should be tried
+ */
+export function resolveModelChain(settings: ModelSettings): ModelTarget[] {
+  const primary: ModelTarget = {
+    provider: settings.provider || process.env.LLM_PROVIDER || 'openai',
+    model: settings.name,
+  }
+  const fallbacks = settings.fallbacks
+    ? parseModelTargets(settings.fallbacks.join(','))
+    : parseModelTargets(process.env.LLM_FALLBACKS)
+
+  return [primary, ...fallbacks].filter(target => {
+    const provider = providers.get(target.provider)
+    if (!provider) {
+      logger.warn('Unknown model provider', { provider: target.provider })
+      return false
+    }
+    return provider.isConfigured()
+  })
+}
+
+/**
+ * Returns the AI SDK model for a target
+ */
+export function languageModel(target: ModelTarget): LanguageModelV1 {
+  const provider = providers.get(target.provider)
+  if (!provider) {
+    throw new Error(`Unknown model provider: ${target.provider}`)
+  }
+  return provider.languageModel(target.model)
+}
@@ -0,0 +1,176 @@
+/**
+ * Token-bucket rate limiting
+ * Limits requests per API key, per user, or per IP address, and failed logins per IP
+ * Uses an in-memory backend by default; plug in a shared backend for multi-instance deployments
+ */
+
+import { createHash } from 'crypto'
+
+export interface RateLimitRule {
+  /** Maximum burst size (bucket capacity) */
+  capacity: number
+  /** Tokens added back per minute */
+  refillPerMinute: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Seconds until the bucket is full again */
+  resetSeconds: number
+  /** Seconds until the next request would be allowed (0 when allowed) */
+  retryAfterSeconds: number
+}
+
+/**
+ * Storage backend for token buckets
+ * Implement this against a shared store (e.g. Redis) so limits hold across instances
+ */
+export interface RateLimitBackend {
+  /** A cost of 0 checks the bucket without taking from it (allowed while a token is left) */
+  consume(key: string, rule: RateLimitRule, cost?: number): Promise<RateLimitResult>
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+  /** When the bucket is full again under its own rule - it can be dropped after that */
+  fullAt: number
+}
+
+// Sweep idle buckets once the map grows past this size
+const MAX_BUCKETS = 10000
+
+/**
+ * In-memory token buckets (per process)
+ */
+export class MemoryRateLimitBackend implements RateLimitBackend {
+  private buckets = new Map<string, Bucket>()
+
+  constructor(private now: () => number = Date.now) {}
+
+  async consume(key: string, rule: RateLimitRule, cost = 1): Promise<RateLimitResult> {
+    const now = this.now()
+    const refillPerMs = rule.refillPerMinute / 60000
+    const existing = this.buckets.get(key)
+
+    // Refill based on time elapsed since the last request
+    const tokens = existing
+      ? Math.min(rule.capacity, existing.tokens + (now - existing.updatedAt) * refillPerMs)
+      : rule.capacity
+
+    const needed = Math.max(cost, 1)
+    const allowed = tokens >= needed
+    const remainingTokens = allowed ? tokens - cost : tokens
+    const refillMs = (rule.capacity - remainingTokens) / refillPerMs
+
+    this.buckets.set(key, { tokens: remainingTokens, updatedAt: now, fullAt: now + refillMs })
+    if (this.buckets.size > MAX_BUCKETS) {
+      this.sweep(now)
+    }
+
+    return {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(remainingTokens),
+      resetSeconds: Math.ceil(refillMs / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((needed - remainingTokens) / refillPerMs / 1000),
+    }
+  }
+
+  // Drop buckets that have refilled completely - they're equivalent to new ones.
+  // Each bucket expires by its own rule, not the one of the request that triggered the sweep.
+  private sweep(now: number) {
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key)
+      }
+    })
+  }
+}
+
+let backend: RateLimitBackend = new MemoryRateLimitBackend()
+
+/**
+ * Replaces the rate limit backend (e.g. with a shared Redis implementation)
+ *
+ * @param customBackend - Backend to use for all subsequent checks
+ */
+export function setRateLimitBackend(customBackend: RateLimitBackend) {
+  backend = customBackend
+}
+
+/**
+ * Consumes one request from the bucket for a key
+ *
+ * @param key - Bucket key, e.g. from rateLimitKey()
+ * @param rule - Capacity and refill rate
+ * @param cost - Tokens to take (0 only checks that one is left)
+ * @returns Whether the request is allowed, plus header values
+ */
+export async function checkRateLimit(key: string, rule: RateLimitRule, cost = 1): Promise<RateLimitResult> {
+  return backend.consume(key, rule, cost)
+}
+
+/**
+ * Builds a bucket key for a subject
+ * API keys are hashed so raw keys never sit in memory or a shared backend
+ *
+ * @param type - What is being limited
+ * @param value - API key, user id, or IP address
+ * @returns Namespaced bucket key
+ */
+export function rateLimitKey(type: 'api_key' | 'user' | 'ip' | 'auth_failure', value: string): string {
+  if (type === 'api_key') {
+    return `api_key:${createHash('sha256').update(value).digest('hex').slice(0, 32)}`
+  }
+  return `${type}:${value}`
+}
+
+/**
+ * Extracts the client IP from the platform or the trusted proxy's headers
+ * Each proxy appends the address it received the request from to X-Forwarded-For, so
+ * only the entries added by our own proxies can be trusted - anything to their left was
+ * sent by the client. TRUSTED_PROXY_COUNT is the number of proxies in front of the app
+ * (default 1, e.g. Railway's edge); the client is the address the outermost one added.
+ *
+ * @param request - Incoming request
+ * @returns Client IP address, or "unknown"
+ */
+export function getClientIp(request: Request): string {
+  // Set by the platform (NextRequest.ip on Vercel) - not a header the client can send
+  const platformIp = (request as Request & { ip?: string }).ip
+  if (platformIp) {
+    return platformIp
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean)
+    const trustedProxies = Math.max(1, Number(process.env.TRUSTED_PROXY_COUNT) || 1)
+    const clientIp = hops[Math.max(0, hops.length - trustedProxies)]
+    if (clientIp) return clientIp
+  }
+  return request.headers.get('x-real-ip') || 'unknown'
+}
+
+/**
+ * Builds standard rate limit response headers
+ *
+ * @param result - Result from checkRateLimit()
+ * @returns X-RateLimit-* headers, plus Retry-After when limited
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetSeconds),
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds)
+  }
+
+  return headers
+}
@@ -0,0 +1,155 @@
+/**
+ * PII redaction
+ * Masks emails, phone numbers, card-like numbers and configured patterns (e.g. booking
+ * codes) in free text. The logger applies it to every context value; the chat pipeline
+ * can also apply it to messages before they're sent to the model (redaction.prompts).
+ *
+ * This module must not import the logger - the logger depends on it.
+ */
+
+import { chatbotConfig } from './config'
+
+export type RedactionSettings = typeof chatbotConfig.redaction
+
+export interface RedactionRule {
+  /** Used in the placeholder ("[email]") and in redaction counts */
+  name: string
+  pattern: RegExp
+  /** Extra check on a match (e.g. Luhn for card numbers) */
+  accept?: (match: string) => boolean
+}
+
+/** Matches per rule name, e.g. { email: 1, phone: 2 } */
+export type RedactionCounts = Record<string, number>
+
+export interface RedactionResult {
+  text: string
+  counts: RedactionCounts
+}
+
+// Objects nested deeper than this are logged as-is
+const MAX_DEPTH = 5
+
+/**
+ * Luhn checksum - real card numbers pass it, most other long digit runs don't
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const digitsOf = (text: string) => text.replace(/\D/g, '')
+
+// Order matters: cards run before phones so a card number isn't half-masked as a phone
+const BUILT_IN_RULES: RedactionRule[] = [
+  {
+    name: 'email',
+    pattern: /[\w.+-]+@[\w-]+(\.[\w-]+)*\.[a-z]{2,}/gi,
+  },
+  {
+    name: 'card',
+    pattern: /(?<![\w.-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+    accept: match => passesLuhn(digitsOf(match)),
+  },
+  {
+    name: 'phone',
+    // International (+44 20 7946 0958) or North American (555-123-4567, (555) 123 4567).
+    // Dates, times, IPs and ids don't fit either shape.
+    pattern: /(?<![\w.+-])(\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,5}|(?:\+?1[ .-]?)?(?:\(\d{3}\)|\d{3})[ .-]?\d{3}[ .-]?\d{4})(?![\w-])/g,
+    accept: match => digitsOf(match).length >= 8 && digitsOf(match).length <= 15,
+  },
+]
+
+/**
+ * Built-in rules followed by the configured patterns
+ */
+export function redactionRules(settings: RedactionSettings = chatbotConfig.redaction): RedactionRule[] {
+  const custom = settings.patterns.map(({ name, pattern, flags }) => ({
+    name,
+    pattern: new RegExp(pattern, flags?.includes('g') ? flags : `${flags || ''}g`),
+  }))
+  return [...BUILT_IN_RULES, ...custom]
+}
+
+/**
+ * Masks PII in a piece of text
+ *
+ * @param text - Text to redact
+ * @param rules - Rules to apply, in order
+ * @returns Redacted text and the number of matches per rule
+ */
+export function redactText(text: string, rules: RedactionRule[] = redactionRules()): RedactionResult {
+  const counts: RedactionCounts = {}
+
+  const redacted = rules.reduce((current, rule) => current.replace(rule.pattern, match => {
+    if (rule.accept && !rule.accept(match)) return match
+    counts[rule.name] = (counts[rule.name] || 0) + 1
+    return `[${rule.name}]`
+  }), text)
+
+  return { text: redacted, counts }
+}
+
+/**
+ * Masks PII in every string inside a value (plain objects and arrays are walked)
+ * Used by the logger on log context.
+ *
+ * @param counts - Running counts to add this value's matches to, if wanted
+ */
+export function redactValue<T>(value: T, rules: RedactionRule[] = redactionRules(), depth = 0, counts?: RedactionCounts): T {
+  if (typeof value === 'string') {
+    const result = redactText(value, rules)
+    if (counts) mergeCounts(counts, result.counts)
+    return result.text as T
+  }
+  if (depth >= MAX_DEPTH || value === null || typeof value !== 'object') return value
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, rules, depth + 1, counts)) as T
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) return value
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, redactValue(item, rules, depth + 1, counts)])
+  ) as T
+}
+
+/**
+ * Masks PII in chat messages before they're sent to the model
+ *
+ * @param messages - Messages with string content
+ * @param rules - Rules to apply, in order
+ * @returns Redacted copies and the total matches per rule
+ */
+export function redactMessages<M extends { content: string }>(
+  messages: M[],
+  rules: RedactionRule[] = redactionRules()
+): { messages: M[]; counts: RedactionCounts } {
+  const counts: RedactionCounts = {}
+
+  const redacted = messages.map(message => {
+    const result = redactText(message.content, rules)
+    mergeCounts(counts, result.counts)
+    return { ...message, content: result.text }
+  })
+
+  return { messages: redacted, counts }
+}
+
+/**
+ * Adds one set of counts into another
+ */
+export function mergeCounts(into: RedactionCounts, from: RedactionCounts): RedactionCounts {
+  for (const [name, count] of Object.entries(from)) {
+    into[name] = (into[name] || 0) + count
+  }
+  return into
+}
@@ -0,0 +1,177 @@
+/**
+ * Retries and circuit breakers around model calls
+ * Retries use exponential backoff with jitter; a breaker per provider/model fails fast
+ * after repeated failed calls and lets a single probe through once it cools down.
+ * Breaker state is kept in memory, so each instance trips independently.
+ */
+
+import { chatbotConfig } from './config'
+import { ApiError, ErrorCode } from './errors'
+import { logger } from './logger'
+
+export type RetryPolicy = typeof chatbotConfig.resilience.retry
+
+export type CircuitBreakerSettings = typeof chatbotConfig.resilience.circuitBreaker
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerStatus {
+  /** Provider/model the breaker guards, e.g. "openai:gpt-3.5-turbo" */
+  target: string
+  state: CircuitState
+  /** Consecutive failed calls */
+  failures: number
+  /** When the breaker last opened (unset while closed) */
+  openedAt: string | undefined
+}
+
+/** Upstream failures that are retried when the catalog marks them retryable */
+export const UPSTREAM_ERROR_CODES: ErrorCode[] = ['MODEL_ERROR', 'TIMEOUT', 'RATE_LIMIT']
+
+/**
+ * Thrown instead of calling the model while its breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly target: string) {
+    super(`Circuit open for ${target}`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+/**
+ * Whether a failed model call is worth retrying
+ */
+export function isRetryableError(apiError: ApiError): boolean {
+  return apiError.retryable && UPSTREAM_ERROR_CODES.includes(apiError.code)
+}
+
+/**
+ * Backoff before the next attempt: exponential, capped, with "equal jitter"
+ * (half the delay is fixed, half is random) so callers don't retry in lockstep
+ *
+ * @param attempt - The attempt that just failed (1 = first call)
+ * @param policy - Base and maximum delay
+ * @param random - Random source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(exponential / 2 + random() * exponential / 2)
+}
+
+/**
+ * Circuit breaker for one provider/model
+ * closed → open after `failureThreshold` consecutive failed calls
+ * open → half_open after `cooldownMs`, letting one probe request through
+ * half_open → closed on success, back to open on failure
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private probing = false
+
+  constructor(
+    readonly target: string,
+    private settings: CircuitBreakerSettings = chatbotConfig.resilience.circuitBreaker,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Whether a call may go ahead (moves an expired open breaker to half_open)
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.settings.cooldownMs) {
+      this.transition('half_open')
+    }
+    if (this.state === 'closed') return true
+    if (this.state === 'half_open' && !this.probing) {
+      this.probing = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess() {
+    this.failures = 0
+    this.probing = false
+    if (this.state !== 'closed') {
+      this.transition('closed')
+    }
+  }
+
+  recordFailure() {
+    this.failures++
+    this.probing = false
+    if (this.state === 'half_open' || (this.state === 'closed' && this.failures >= this.settings.failureThreshold)) {
+      this.openedAt = this.now()
+      this.transition('open')
+    }
+  }
+
+  /**
+   * The call failed for a reason that says nothing about the provider's health (an abort,
+   * bad input, a tool error) - frees a half-open probe without counting a failure
+   */
+  recordIgnored() {
+    this.probing = false
+  }
+
+  status(): CircuitBreakerStatus {
+    return {
+      target: this.target,
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.state === 'closed' ? undefined : new Date(this.openedAt).toISOString(),
+    }
+  }
+
+  private transition(state: CircuitState) {
+    const from = this.state
+    this.state = state
+
+    const context = { target: this.target, from, to: state, failures: this.failures }
+    if (state === 'open') {
+      logger.warn('Circuit breaker opened', { ...context, cooldownMs: this.settings.cooldownMs })
+    } else {
+      logger.info('Circuit breaker state changed', context)
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>()
+
+/**
+ * Returns the breaker for a provider/model, creating it on first use
+ *
+ * @param target - Breaker key, e.g. "openai:gpt-3.5-turbo"
+ */
+export function getCircuitBreaker(target: string): CircuitBreaker {
+  let breaker = breakers.get(target)
+  if (!breaker) {
+    breaker = new CircuitBreaker(target)
+    breakers.set(target, breaker)
+  }
+  return breaker
+}
+
+/**
+ * Current state of every breaker that has seen traffic (for the health endpoint)
+ */
+export function getCircuitBreakerStates(): CircuitBreakerStatus[] {
+  return Array.from(breakers.values()).map(breaker => breaker.status())
+}
+
+/**
+ * Forgets all breaker state (used by tests)
+ */
+export function resetCircuitBreakers() {
+  breakers.clear()
+}
+
+/**
+ * Resolves after `ms` milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
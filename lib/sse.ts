@@ -0,0 +1,117 @@
+/**
+ * Server-Sent Events helpers for streaming chat responses
+ *
+ * Event protocol:
+ * - event: token  data: {"text": "..."}         one per text chunk
+ * - event: done   data: {...response metadata}  once, on success
+ * - event: error  data: {...error response}     once, on failure
+ */
+
+export type SseEvent = 'token' | 'done' | 'error'
+
+export type SseSend = (event: SseEvent, data: unknown) => void
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  // Disable proxy buffering (nginx, Railway) so tokens arrive as they're generated
+  'X-Accel-Buffering': 'no',
+}
+
+/**
+ * Checks whether the client asked for a streaming response
+ * Streaming is chosen with `Accept: text/event-stream` or `"stream": true` in the body
+ *
+ * @param request - Incoming request
+ * @param body - Parsed JSON body
+ * @returns true if the response should be streamed
+ */
+export function wantsEventStream(request: Request, body: { stream?: unknown } | null): boolean {
+  if (body?.stream === true) return true
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false
+}
+
+/**
+ * Formats a single SSE message
+ *
+ * @param event - Event name
+ * @param data - JSON-serializable payload
+ * @returns Wire-format SSE message
+ */
+export function formatSseEvent(event: SseEvent, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Creates an SSE stream driven by an async producer
+ * The stream closes when the producer settles. Producers are expected to send
+ * their own `error` event; anything they throw is swallowed to keep the stream well-formed.
+ * If the client disconnects, `signal` aborts (so the producer can stop the model call) and
+ * later events are dropped.
+ *
+ * @param producer - Async function that emits events through `send`
+ * @returns A byte stream suitable for a Response body
+ */
+export function createEventStream(
+  producer: (send: SseSend, signal: AbortSignal) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const cancelled = new AbortController()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SseSend = (event, data) => {
+        if (cancelled.signal.aborted) return
+        controller.enqueue(encoder.encode(formatSseEvent(event, data)))
+      }
+
+      try {
+        await producer(send, cancelled.signal)
+      } catch {
+        // Producer failed after (or while) reporting its error - nothing left to send
+      } finally {
+        if (!cancelled.signal.aborted) controller.close()
+      }
+    },
+    cancel() {
+      cancelled.abort()
+    },
+  })
+}
+
+/**
+ * Parses SSE messages out of a text buffer
+ * Returns complete events and whatever trailing text is still incomplete
+ *
+ * @param buffer - Accumulated stream text
+ * @returns Parsed events and the unconsumed remainder
+ */
+export function parseSseEvents(buffer: string): {
+  events: { event: string; data: any }[]
+  rest: string
+} {
+  const events: { event: string; data: any }[] = []
+  const chunks = buffer.split('\n\n')
+  const rest = chunks.pop() ?? ''
+
+  for (const chunk of chunks) {
+    let event = 'message'
+    const dataLines: string[] = []
+
+    for (const line of chunk.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+    }
+
+    if (dataLines.length === 0) continue
+
+    try {
+      events.push({ event, data: JSON.parse(dataLines.join('\n')) })
+    } catch {
+      // Ignore malformed events rather than breaking the whole stream
+    }
+  }
+
+  return { events, rest }
+}
@@ -0,0 +1,153 @@
+/**
+ * Pluggable key/value storage for server-side state
+ * Supports an in-memory driver (default) and a JSON file driver
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export type StorageDriver = 'memory' | 'file'
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | null>
+  set(key: string, value: T): Promise<void>
+  /**
+   * Atomically replaces a value with one computed from the current value
+   * (no other update to the same key can interleave between the read and the write)
+   */
+  update(key: string, updater: (current: T | null) => T): Promise<T>
+  delete(key: string): Promise<boolean>
+  list(): Promise<T[]>
+}
+
+/**
+ * In-memory store
+ * Values are cloned on the way in and out so callers can't mutate stored state
+ * Data is lost on restart and is not shared between instances
+ */
+export class MemoryStore<T> implements KeyValueStore<T> {
+  private items = new Map<string, T>()
+
+  async get(key: string): Promise<T | null> {
+    const value = this.items.get(key)
+    return value === undefined ? null : structuredClone(value)
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.items.set(key, structuredClone(value))
+  }
+
+  async update(key: string, updater: (current: T | null) => T): Promise<T> {
+    // Read and write happen in the same tick, so updates can't interleave
+    const current = this.items.get(key)
+    const next = updater(current === undefined ? null : structuredClone(current))
+    this.items.set(key, structuredClone(next))
+    return structuredClone(next)
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.items.delete(key)
+  }
+
+  async list(): Promise<T[]> {
+    return Array.from(this.items.values(), value => structuredClone(value))
+  }
+}
+
+/**
+ * File store - one JSON document per key inside a directory
+ * Writes go to a temp file first and are renamed into place so readers never see partial JSON
+ * Updates are serialized per key within this process; instances sharing a directory need
+ * a store with its own locking
+ */
+export class FileStore<T> implements KeyValueStore<T> {
+  private pendingUpdates = new Map<string, Promise<unknown>>()
+
+  constructor(private dir: string) {}
+
+  private fileFor(key: string): string {
+    // encodeURIComponent escapes path separators, so keys can't escape the directory
+    return path.join(this.dir, `${encodeURIComponent(key)}.json`)
+  }
+
+  async get(key: string): Promise<T | null> {
+    try {
+      const raw = await fs.readFile(this.fileFor(key), 'utf8')
+      return JSON.parse(raw) as T
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true })
+    const file = this.fileFor(key)
+    const tmpFile = `${file}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(tmpFile, JSON.stringify(value), 'utf8')
+    await fs.rename(tmpFile, file)
+  }
+
+  async update(key: string, updater: (current: T | null) => T): Promise<T> {
+    const previous = this.pendingUpdates.get(key) || Promise.resolve()
+    const result = previous.catch(() => {}).then(async () => {
+      const next = updater(await this.get(key))
+      await this.set(key, next)
+      return next
+    })
+
+    this.pendingUpdates.set(key, result)
+    try {
+      return await result
+    } finally {
+      // Drop the entry once no later update has queued behind this one
+      if (this.pendingUpdates.get(key) === result) this.pendingUpdates.delete(key)
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.fileFor(key))
+      return true
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return false
+      throw error
+    }
+  }
+
+  async list(): Promise<T[]> {
+    let files: string[]
+    try {
+      files = await fs.readdir(this.dir)
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return []
+      throw error
+    }
+
+    const values: (T | null)[] = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(decodeURIComponent(file.slice(0, -'.json'.length))))
+    )
+    return values.filter((value): value is T => value !== null)
+  }
+}
+
+/**
+ * Creates a store for a namespace using the configured driver
+ * - STORAGE_DRIVER: "memory" (default) or "file"
+ * - STORAGE_DIR: base directory for the file driver (default ".data")
+ *
+ * @param namespace - Logical collection name (e.g. "threads")
+ * @returns A key/value store for that namespace
+ */
+export function createStore<T>(namespace: string): KeyValueStore<T> {
+  const driver = (process.env.STORAGE_DRIVER || 'memory') as StorageDriver
+
+  if (driver === 'file') {
+    const baseDir = process.env.STORAGE_DIR || '.data'
+    return new FileStore<T>(path.join(baseDir, namespace))
+  }
+
+  return new MemoryStore<T>()
+}
@@ -0,0 +1,128 @@
+/**
+ * Rolling conversation summaries
+ * Only the newest turns are sent to the model. Instead of forgetting the turns that fall
+ * out of that window, they're condensed into a running summary (event, dates, budget,
+ * group size, decisions) that's added to the system prompt. Summaries are stored with the
+ * thread, or round-tripped through the client when threads are off - signed, so a client
+ * can't write its own text into the system prompt.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { generateText, LanguageModelUsage } from 'ai'
+import type { LanguageModelV1 } from 'ai'
+import { chatbotConfig } from './config'
+import { logger } from './logger'
+
+export type SummarySettings = typeof chatbotConfig.summary
+
+export interface ConversationSummary {
+  text: string
+  /** Number of messages, from the start of the conversation, the summary covers */
+  messageCount: number
+}
+
+type Turn = { role: 'user' | 'assistant'; content: string }
+
+const SUMMARY_INSTRUCTIONS = `You maintain a running summary of a conversation between a guest and Bubbl's chat assistant.
+Update the summary with the new turns. Keep every fact the assistant will need later: events, dates,
+places, budget, group size, preferences, listings discussed and decisions made. Drop greetings and small talk.
+Write terse notes in the third person ("Guest is..."), at most 120 words. Reply with the summary only.`
+
+/**
+ * Messages that have left the context window and aren't in the summary yet
+ *
+ * @param messages - The whole conversation, oldest first
+ * @param summary - Current summary, if any
+ * @param contextMessages - Size of the window of newest turns sent to the model
+ * @returns Messages to fold into the summary (oldest first)
+ */
+export function unsummarizedMessages<T>(
+  messages: T[],
+  summary: ConversationSummary | undefined,
+  contextMessages: number
+): T[] {
+  const windowStart = Math.max(0, messages.length - contextMessages)
+  return messages.slice(Math.min(summary?.messageCount || 0, windowStart), windowStart)
+}
+
+/**
+ * Whether enough turns have left the window to update the summary
+ * Batching keeps it to one summary call per exchange rather than per message.
+ */
+export function shouldSummarize(pending: unknown[], settings: SummarySettings = chatbotConfig.summary): boolean {
+  return settings.enabled && pending.length >= settings.minMessages
+}
+
+/**
+ * Condenses turns that left the context window into the running summary
+ *
+ * @param previous - Current summary text, if any
+ * @param turns - Turns to add, oldest first
+ * @param model - Model used to write the summary
+ * @param settings - Summary length and timeout
+ * @returns The new summary text and the tokens it cost
+ */
+export async function summarizeTurns(
+  previous: string | undefined,
+  turns: Turn[],
+  model: LanguageModelV1,
+  settings: SummarySettings = chatbotConfig.summary
+): Promise<{ text: string; usage: LanguageModelUsage }> {
+  const transcript = turns
+    .map(turn => `${turn.role === 'user' ? 'Guest' : 'Assistant'}: ${turn.content}`)
+    .join('\n')
+
+  const result = await generateText({
+    model,
+    system: SUMMARY_INSTRUCTIONS,
+    prompt: `Summary so far:\n${previous || '(none)'}\n\nNew turns:\n${transcript}`,
+    temperature: 0,
+    maxTokens: settings.maxTokens,
+    maxRetries: 0,
+    abortSignal: AbortSignal.timeout(settings.timeoutMs),
+  })
+
+  const text = result.text.trim()
+  if (!text) {
+    logger.warn('Empty conversation summary, keeping the previous one')
+    return { text: previous || '', usage: result.usage }
+  }
+  return { text, usage: result.usage }
+}
+
+/**
+ * Builds the summary section of the system prompt
+ */
+export function formatSummaryContext(summary: ConversationSummary | undefined): string {
+  if (!summary?.text) return ''
+  return `\n\n# CONVERSATION SO FAR\nEarlier in this conversation (older messages aren't shown):\n${summary.text}`
+}
+
+// Without SUMMARY_SIGNING_SECRET, summaries are only valid on this instance until it restarts
+const fallbackSecret = randomBytes(32)
+
+function summarySignature(text: string): Buffer {
+  return createHmac('sha256', process.env.SUMMARY_SIGNING_SECRET || fallbackSecret).update(text).digest()
+}
+
+/**
+ * Signs a summary before it's returned to the client
+ *
+ * @returns Base64url HMAC-SHA256 of the summary text
+ */
+export function signSummary(text: string): string {
+  return summarySignature(text).toString('base64url')
+}
+
+/**
+ * Checks that a summary sent back by a client is one this server wrote
+ *
+ * @param text - Summary text from the request
+ * @param signature - Signature returned with it
+ */
+export function verifySummary(text: string, signature: string | undefined): boolean {
+  if (!signature) return false
+  const expected = summarySignature(text)
+  const actual = Buffer.from(signature, 'base64url')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,210 @@
+/**
+ * Multi-tenant API key registry
+ * Each API key maps to a tenant (one Bubble.io app/site) with its own
+ * allowed domains, CORS origins, persona, model settings and features
+ */
+
+import { readFileSync } from 'fs'
+import { chatbotConfig } from './config'
+import { findMatchingKey } from './api-auth'
+import { selectPrompt, PromptSelection, PromptSubject, PromptTemplate } from './prompts'
+import { logger } from './logger'
+
+export type ModelSettings = typeof chatbotConfig.model & {
+  /** Provider for the primary model (see lib/providers.ts) - defaults to LLM_PROVIDER or "openai" */
+  provider?: string
+  /** Fallback "provider:model" targets tried in order when the primary fails */
+  fallbacks?: string[]
+}
+export type BudgetRule = typeof chatbotConfig.budgets.apiKey
+
+export interface TenantFeatures {
+  /** Allow streaming (SSE) responses */
+  streaming: boolean
+  /** Keep conversation history in the server-side thread store */
+  threads: boolean
+}
+
+export interface Tenant {
+  id: string
+  name: string
+  /** Static API keys for this tenant - plaintext or "sha256:<hex>" hashes */
+  apiKeys: string[]
+  /** Allowed site_url domains (replaces ALLOWED_SITE_DOMAINS for this tenant) */
+  allowedSiteDomains?: string[]
+  /** Allowed CORS origins for browser calls */
+  allowedOrigins?: string[]
+  /** site_url used when the request doesn't send one */
+  defaultSiteUrl?: string
+  /**
+   * Full system prompt override - "{{siteUrl}}" is replaced with the request's site URL
+   * and "{{events}}" with the event section generated from the catalog
+   */
+  systemPrompt?: string
+  /** Prompt template to always use, e.g. "concierge@2" (opts the tenant out of experiments) */
+  promptTemplate?: string
+  /** Extra persona instructions appended to the default system prompt */
+  persona?: string
+  /** Model overrides (merged over chatbotConfig.model) */
+  model?: Partial<ModelSettings>
+  /** Spending budget shared by the tenant's API keys (merged over chatbotConfig.budgets.apiKey) */
+  budget?: Partial<BudgetRule>
+  features: TenantFeatures
+}
+
+const DEFAULT_FEATURES: TenantFeatures = {
+  streaming: true,
+  threads: true,
+}
+
+let cache: { sourceKey: string; tenants: Tenant[] } | null = null
+
+/**
+ * Reads raw tenant records from BUBBL_TENANTS_FILE (JSON file) or BUBBL_TENANTS (inline JSON)
+ */
+function readTenantSource(): string {
+  if (process.env.BUBBL_TENANTS_FILE) {
+    try {
+      return readFileSync(process.env.BUBBL_TENANTS_FILE, 'utf8')
+    } catch (error: any) {
+      logger.error('Failed to read tenant file', { file: process.env.BUBBL_TENANTS_FILE, error: error.message })
+      return '[]'
+    }
+  }
+  return process.env.BUBBL_TENANTS || '[]'
+}
+
+function parseTenants(source: string): Tenant[] {
+  let records: unknown
+  try {
+    records = JSON.parse(source)
+  } catch (error: any) {
+    logger.error('Invalid tenant configuration JSON', { error: error.message })
+    return []
+  }
+
+  if (!Array.isArray(records)) {
+    logger.error('Tenant configuration must be a JSON array')
+    return []
+  }
+
+  return records.flatMap((record: any) => {
+    if (!record || typeof record.id !== 'string' || !Array.isArray(record.apiKeys)) {
+      logger.error('Skipping invalid tenant record', { tenantId: record?.id })
+      return []
+    }
+
+    return [{
+      ...record,
+      name: record.name || record.id,
+      apiKeys: record.apiKeys.filter((key: unknown) => typeof key === 'string' && key.length > 0),
+      features: { ...DEFAULT_FEATURES, ...record.features },
+    } as Tenant]
+  })
+}
+
+/**
+ * Returns all configured tenants
+ * Loaded once per configuration source (restart to pick up tenant file edits)
+ */
+export function getTenants(): Tenant[] {
+  const sourceKey = process.env.BUBBL_TENANTS_FILE
+    ? `file:${process.env.BUBBL_TENANTS_FILE}`
+    : `env:${process.env.BUBBL_TENANTS || ''}`
+
+  if (!cache || cache.sourceKey !== sourceKey) {
+    cache = { sourceKey, tenants: parseTenants(readTenantSource()) }
+  }
+  return cache.tenants
+}
+
+/**
+ * The tenant used for legacy BUBBL_API_KEYS keys, session users, and open access
+ * Uses the global chatbotConfig and ALLOWED_SITE_DOMAINS
+ */
+export function getDefaultTenant(): Tenant {
+  return {
+    id: 'default',
+    name: 'Default',
+    apiKeys: process.env.BUBBL_API_KEYS?.split(',').map(k => k.trim()).filter(Boolean) || [],
+    features: DEFAULT_FEATURES,
+  }
+}
+
+/**
+ * Looks up a tenant by id
+ *
+ * @param tenantId - Tenant id ("default" for the global configuration)
+ * @returns The tenant, or null if it isn't configured
+ */
+export function getTenantById(tenantId: string): Tenant | null {
+  if (tenantId === 'default') return getDefaultTenant()
+  return getTenants().find(tenant => tenant.id === tenantId) || null
+}
+
+/**
+ * Resolves the tenant for a static API key
+ *
+ * @param providedKey - The API key provided in the request header
+ * @returns The tenant, or null if the key is unknown
+ */
+export function resolveTenant(providedKey: string | null): Tenant | null {
+  if (!providedKey) return null
+
+  // Check every tenant (no early exit) to keep timing independent of which tenant matched
+  const candidates = [...getTenants(), getDefaultTenant()]
+  const matches = candidates.map(tenant => findMatchingKey(providedKey, tenant.apiKeys) !== null)
+  const index = matches.indexOf(true)
+
+  return index === -1 ? null : candidates[index]
+}
+
+/**
+ * Model settings for a tenant (tenant overrides merged over chatbotConfig.model)
+ */
+export function getTenantModel(tenant: Tenant): ModelSettings {
+  return { ...chatbotConfig.model, ...tenant.model }
+}
+
+/**
+ * Chooses the prompt template for a tenant's request
+ * A full systemPrompt override is reported as version "custom:<tenant id>" and never
+ * takes part in experiments.
+ *
+ * @param tenant - Tenant the request belongs to
+ * @param subject - Thread and user ids for experiment assignment (omit to skip experiments)
+ * @returns Template, version and experiment variant
+ */
+export function selectTenantPrompt(tenant: Tenant, subject?: PromptSubject): PromptSelection {
+  const override = tenant.systemPrompt
+  if (override) {
+    const template: PromptTemplate = {
+      name: `custom:${tenant.id}`,
+      version: 1,
+      description: 'Tenant systemPrompt override',
+      render: (siteUrl, eventKnowledge) => override.split('{{siteUrl}}').join(siteUrl).split('{{events}}').join(eventKnowledge),
+    }
+    return { template, version: template.name }
+  }
+
+  return selectPrompt(subject, tenant.promptTemplate)
+}
+
+/**
+ * Builds the system prompt for a tenant
+ *
+ * @param tenant - Tenant the request belongs to
+ * @param siteUrl - Validated site URL for links
+ * @param eventKnowledge - Event section generated from the catalog (see lib/events.ts)
+ * @param template - Template chosen by selectTenantPrompt (defaults to the tenant's default)
+ * @returns System prompt text
+ */
+export function buildTenantSystemPrompt(
+  tenant: Tenant,
+  siteUrl: string,
+  eventKnowledge = '',
+  template: PromptTemplate = selectTenantPrompt(tenant).template
+): string {
+  const prompt = template.render(siteUrl, eventKnowledge)
+  return tenant.persona && !tenant.systemPrompt ? `${prompt}\n\n# PERSONA\n${tenant.persona}` : prompt
+}
@@ -0,0 +1,194 @@
+/**
+ * Server-side conversation threads
+ * Stores each user/assistant turn so clients only need to send thread_id
+ */
+
+import { createStore, KeyValueStore } from './storage'
+import type { ConversationSummary } from './summary'
+
+export interface ThreadMessage {
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: string
+  /** Set on assistant turns written by staff during a handoff */
+  author?: 'staff'
+  /** Handoff ticket a staff turn was sent on */
+  ticketId?: string
+  /** When a staff turn was returned to the guest (unset until then, see takeUndeliveredReplies) */
+  deliveredAt?: string
+}
+
+export interface Thread {
+  id: string
+  tenantId: string
+  createdAt: string
+  updatedAt: string
+  messages: ThreadMessage[]
+  /** Rolling summary of the turns before the context window (see lib/summary.ts) */
+  summary?: ConversationSummary
+  /** Open handoff ticket - while set, staff own the thread and the model doesn't reply (see lib/handoff.ts) */
+  handoffTicketId?: string
+  /** Logged-in user who started the thread - only they can continue it (see isThreadOwner) */
+  userId?: string
+}
+
+// Hard cap on stored turns so a single thread can't grow without bound
+const MAX_STORED_MESSAGES = 200
+
+let store: KeyValueStore<Thread> | null = null
+
+function getStore(): KeyValueStore<Thread> {
+  if (!store) {
+    store = createStore<Thread>('threads')
+  }
+  return store
+}
+
+/**
+ * Replaces the backing store (used by tests and custom deployments)
+ *
+ * @param customStore - Store to use for threads, or null to recreate from env
+ */
+export function setThreadStore(customStore: KeyValueStore<Thread> | null) {
+  store = customStore
+}
+
+// Threads are namespaced per tenant so one API key can't read another tenant's conversations
+function threadKey(tenantId: string, threadId: string): string {
+  return `${tenantId}:${threadId}`
+}
+
+/**
+ * Loads a thread by id
+ *
+ * @param tenantId - Tenant that owns the thread
+ * @param threadId - Thread identifier
+ * @returns The thread, or null if it doesn't exist
+ */
+export async function getThread(tenantId: string, threadId: string): Promise<Thread | null> {
+  return getStore().get(threadKey(tenantId, threadId))
+}
+
+/**
+ * Appends turns to a thread, creating it if needed
+ *
+ * @param tenantId - Tenant that owns the thread
+ * @param threadId - Thread identifier
+ * @param messages - Turns to append, in order
+ * @param summary - Updated conversation summary, if it changed
+ * @param userId - Owner recorded when the thread is created (ignored for existing threads)
+ * @returns The updated thread
+ */
+export async function appendMessages(
+  tenantId: string,
+  threadId: string,
+  messages: Pick<ThreadMessage, 'role' | 'content' | 'author' | 'ticketId'>[],
+  summary?: ConversationSummary,
+  userId?: string
+): Promise<Thread> {
+  const now = new Date().toISOString()
+
+  // One store update, so a staff reply and a guest message arriving together both land
+  return getStore().update(threadKey(tenantId, threadId), existing => {
+    const thread = existing || {
+      id: threadId,
+      tenantId,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+      ...(userId && { userId }),
+    }
+
+    thread.messages.push(...messages.map(m => ({
+      role: m.role,
+      content: m.content,
+      timestamp: now,
+      ...(m.author && { author: m.author }),
+      ...(m.ticketId && { ticketId: m.ticketId }),
+    })))
+    if (summary) {
+      thread.summary = summary
+    }
+
+    const dropped = Math.max(0, thread.messages.length - MAX_STORED_MESSAGES)
+    thread.messages = thread.messages.slice(dropped)
+    if (thread.summary && dropped > 0) {
+      // Keep the summary's message count pointing at the same messages
+      thread.summary = { ...thread.summary, messageCount: Math.max(0, thread.summary.messageCount - dropped) }
+    }
+    thread.updatedAt = now
+    return thread
+  })
+}
+
+/**
+ * Returns the staff replies the guest hasn't been shown yet and marks them as delivered
+ * Read and marked in one store update, so a poll and a message arriving together can't
+ * both return the same reply.
+ *
+ * @param tenantId - Tenant that owns the thread
+ * @param threadId - Thread identifier
+ * @returns Undelivered staff turns, oldest first (none if the thread doesn't exist)
+ */
+export async function takeUndeliveredReplies(tenantId: string, threadId: string): Promise<ThreadMessage[]> {
+  if (!await getThread(tenantId, threadId)) return []
+
+  const now = new Date().toISOString()
+  let replies: ThreadMessage[] = []
+  await getStore().update(threadKey(tenantId, threadId), thread => {
+    const current = thread!
+    replies = current.messages.filter(message => message.author === 'staff' && !message.deliveredAt)
+    replies.forEach(message => { message.deliveredAt = now })
+    return current
+  })
+  return replies
+}
+
+/**
+ * Whether a caller may continue a thread
+ * Threads without an owner belong to the whole tenant; owned ones only to that user.
+ *
+ * @param thread - Stored thread
+ * @param userId - Caller's user id, if any
+ */
+export function isThreadOwner(thread: Thread, userId: string | undefined): boolean {
+  return !thread.userId || thread.userId === userId
+}
+
+/**
+ * Hands a thread to staff, or back to the model
+ *
+ * @param tenantId - Tenant that owns the thread
+ * @param threadId - Thread identifier
+ * @param ticketId - Open handoff ticket, or undefined to give the thread back to the model
+ * @returns The updated thread, or null if it doesn't exist
+ */
+export async function setThreadHandoff(tenantId: string, threadId: string, ticketId: string | undefined): Promise<Thread | null> {
+  if (!await getThread(tenantId, threadId)) return null
+
+  return getStore().update(threadKey(tenantId, threadId), existing => {
+    const thread = existing!
+    if (ticketId) {
+      thread.handoffTicketId = ticketId
+    } else {
+      delete thread.handoffTicketId
+    }
+    thread.updatedAt = new Date().toISOString()
+    return thread
+  })
+}
+
+/**
+ * Returns the most recent turns of a thread in model message format
+ *
+ * @param thread - Thread to read from
+ * @param limit - Maximum number of turns to return
+ * @returns Role/content pairs, oldest first
+ */
+export function getContextMessages(
+  thread: Thread,
+  limit: number
+): { role: ThreadMessage['role']; content: string }[] {
+  if (limit <= 0) return []
+  return thread.messages.slice(-limit).map(m => ({ role: m.role, content: m.content }))
+}
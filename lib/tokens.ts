@@ -0,0 +1,74 @@
+/**
+ * Token estimates per model
+ * Prompt size is budgeted before the model call, so tokens are estimated locally from
+ * each model family's average characters per token (no tokenizer download). Estimates
+ * round up and unknown models use a conservative ratio, so prompts stay under budget.
+ */
+
+import type { CoreMessage } from 'ai'
+import type { ModelTarget } from './providers'
+
+interface TokenizerProfile {
+  /** Matches "provider:model" */
+  match: RegExp
+  charsPerToken: number
+}
+
+// Measured on English chat text with each family's tokenizer (o200k for gpt-4o, cl100k for gpt-3.5/4)
+const TOKENIZER_PROFILES: TokenizerProfile[] = [
+  { match: /^openai:(gpt-4o|o\d)/, charsPerToken: 4.2 },
+  { match: /^openai:gpt-/, charsPerToken: 3.8 },
+  { match: /^mock:/, charsPerToken: 4 },
+]
+
+// Unknown and local models (Llama, Mistral tokenizers are less efficient on English)
+const DEFAULT_CHARS_PER_TOKEN = 3.2
+
+// Chat formatting overhead (role markers) per message, plus priming for the reply
+const TOKENS_PER_MESSAGE = 4
+const REPLY_PRIMING_TOKENS = 3
+
+/**
+ * Average characters per token for a model
+ */
+export function charsPerToken(target?: ModelTarget): number {
+  if (!target) return DEFAULT_CHARS_PER_TOKEN
+  const id = `${target.provider}:${target.model}`
+  return TOKENIZER_PROFILES.find(profile => profile.match.test(id))?.charsPerToken || DEFAULT_CHARS_PER_TOKEN
+}
+
+/**
+ * Estimated tokens in a piece of text
+ */
+export function countTokens(text: string, target?: ModelTarget): number {
+  if (!text) return 0
+  return Math.ceil(text.length / charsPerToken(target))
+}
+
+/**
+ * Estimated prompt tokens for a list of chat messages (text content only)
+ */
+export function countMessageTokens(messages: CoreMessage[], target?: ModelTarget): number {
+  const content = messages.reduce((sum, message) => {
+    const text = typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+    return sum + TOKENS_PER_MESSAGE + countTokens(text, target)
+  }, 0)
+  return content + REPLY_PRIMING_TOKENS
+}
+
+/**
+ * Cuts text to roughly maxTokens, marking the cut
+ *
+ * @param text - Text to shorten
+ * @param maxTokens - Token allowance (including the marker)
+ * @param target - Model the tokens are counted for
+ * @returns The text, unchanged if it already fits
+ */
+export function truncateToTokens(text: string, maxTokens: number, target?: ModelTarget): string {
+  if (countTokens(text, target) <= maxTokens) return text
+
+  const marker = ' …[truncated]'
+  const maxChars = Math.floor(maxTokens * charsPerToken(target)) - marker.length
+  if (maxChars <= 0) return ''
+  return text.slice(0, maxChars).trimEnd() + marker
+}
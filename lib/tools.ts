@@ -0,0 +1,214 @@
+/**
+ * Tools the model can call to look up real inventory and event data
+ * Backed by local data (./listings and the ./events catalog). Every call and its result
+ * is logged with the request id. Their results also become suggested actions for the
+ * reply (see actionsFromToolResults).
+ */
+
+import { jsonSchema, tool, CoreTool } from 'ai'
+import { chatbotConfig } from './config'
+import { chatActionSchema, ChatAction } from './actions'
+import { eventListingsUrl, getEvent, getEvents, Event } from './events'
+import { LISTINGS, listingUrl, searchListings, ListingSearch } from './listings'
+import { parseWithSchema, schema, Schema } from './validation'
+import { logger } from './logger'
+
+export interface ToolContext {
+  requestId: string
+  tenantId: string
+  /** Customer site used to build links */
+  siteUrl: string
+}
+
+// Keep tool results (and the tokens they cost) small
+const MAX_LISTING_RESULTS = 5
+
+// Listings from a search that get their own link action
+const MAX_LISTING_ACTIONS = 2
+
+/** A tool call and its result, as reported by generateText steps and streamText parts */
+export interface ToolOutcome {
+  toolName: string
+  args: unknown
+  result: unknown
+}
+
+/** Added to the system prompt when tools are enabled */
+export const TOOLS_PROMPT = `
+
+# TOOLS
+- For places to stay, call searchListings and only recommend listings it returns, linked as [title](url)
+- For event dates, venues and tips, call getEvent or listUpcomingEvents
+- Never invent listings, prices or availability
+- To offer next steps, call suggestActions with up to 4 buttons: links to pages from the AVAILABLE LINKS or tool results, or quick replies the guest can tap`
+
+const searchListingsParameters = schema.object({
+  event: schema.optional(schema.string({ description: 'Event slug, e.g. "sundance"' })),
+  city: schema.optional(schema.string({ description: 'City, e.g. "Park City"' })),
+  maxPrice: schema.optional(schema.number({ min: 0, description: 'Maximum price per night in USD' })),
+  beds: schema.optional(schema.number({ min: 1, integer: true, description: 'Minimum number of free beds' })),
+})
+
+const getEventParameters = schema.object({
+  slug: schema.string({ minLength: 1, description: 'Event slug, e.g. "sundance"' }),
+})
+
+const suggestActionsParameters = schema.object({
+  actions: schema.array(chatActionSchema, { minItems: 1, maxItems: 4 }),
+})
+
+const noParameters = schema.object({})
+
+/**
+ * AI SDK parameters backed by one of our request schemas
+ * Invalid arguments from the model are rejected with the same field-level reasons
+ */
+function parameters<T>(parameterSchema: Schema<T>) {
+  return jsonSchema<T>(parameterSchema.jsonSchema as Parameters<typeof jsonSchema>[0], {
+    validate: (value) => {
+      const parsed = parseWithSchema(parameterSchema, value)
+      if (parsed.success) {
+        return { success: true, value: parsed.data }
+      }
+      const reasons = parsed.errors.map(error => `${error.path || 'arguments'} ${error.reason}`)
+      return { success: false, error: new Error(`Invalid tool arguments: ${reasons.join('; ')}`) }
+    },
+  })
+}
+
+/**
+ * Wraps a tool implementation with call/result logging
+ */
+function loggedTool<T>(
+  name: string,
+  description: string,
+  parameterSchema: Schema<T>,
+  ctx: ToolContext,
+  run: (args: T) => unknown
+): CoreTool {
+  return tool({
+    description,
+    parameters: parameters(parameterSchema),
+    execute: async (args: T) => {
+      const startTime = Date.now()
+      logger.info('Tool call', { requestId: ctx.requestId, tenantId: ctx.tenantId, tool: name, args })
+
+      const result = run(args)
+      logger.info('Tool result', { requestId: ctx.requestId, tool: name, duration: Date.now() - startTime, result })
+      return result
+    },
+  })
+}
+
+function eventSummary(event: Event, siteUrl: string) {
+  return {
+    name: event.name,
+    slug: event.slug,
+    dates: event.dates,
+    location: event.location,
+    url: eventListingsUrl(event, siteUrl),
+  }
+}
+
+/**
+ * Creates the tools for one request
+ *
+ * @param ctx - Request id for logging and the site URL for links
+ * @returns Tools to pass to generateText/streamText
+ */
+export function createChatTools(ctx: ToolContext): Record<string, CoreTool> {
+  return {
+    searchListings: loggedTool(
+      'searchListings',
+      'Search available Bubbl listings. Returns the cheapest matches with their links.',
+      searchListingsParameters,
+      ctx,
+      (search: ListingSearch) => {
+        const matches = searchListings(search, LISTINGS)
+        return {
+          total: matches.length,
+          listings: matches.slice(0, MAX_LISTING_RESULTS).map(listing => ({
+            title: listing.title,
+            event: listing.event,
+            city: listing.city,
+            neighborhood: listing.neighborhood,
+            pricePerNight: listing.pricePerNight,
+            beds: listing.beds,
+            instantBook: listing.instantBook,
+            includesPasses: listing.includesPasses,
+            url: listingUrl(listing, ctx.siteUrl),
+          })),
+        }
+      }
+    ),
+
+    getEvent: loggedTool(
+      'getEvent',
+      'Get details for one event: dates, venues, neighborhoods, tips and Bubbl availability.',
+      getEventParameters,
+      ctx,
+      ({ slug }) => {
+        const event = getEvent(slug)
+        if (!event) {
+          return { error: `No event with slug "${slug}"`, available: getEvents().map(e => e.slug) }
+        }
+        return {
+          ...eventSummary(event, ctx.siteUrl),
+          summary: event.summary,
+          venues: event.venues,
+          neighborhoods: event.neighborhoods,
+          tips: event.tips,
+          stats: event.bubbl_stats,
+        }
+      }
+    ),
+
+    listUpcomingEvents: loggedTool(
+      'listUpcomingEvents',
+      'List the events Bubbl has stays for.',
+      noParameters,
+      ctx,
+      () => ({ events: getEvents().map(event => eventSummary(event, ctx.siteUrl)) })
+    ),
+
+    ...(chatbotConfig.actions.enabled && {
+      suggestActions: loggedTool(
+        'suggestActions',
+        'Show buttons under your reply: "link" opens a page on the site (href), "quick_reply" sends payload as the guest\'s next message.',
+        suggestActionsParameters,
+        ctx,
+        ({ actions }) => ({ shown: actions.length })
+      ),
+    }),
+  }
+}
+
+/**
+ * Suggested actions from the tools called for a reply
+ * The model's own suggestions come first, then links to what the lookups found.
+ * Actions are sanitized by the pipeline (see sanitizeActions).
+ *
+ * @param outcomes - Tool calls and results from every step, in order
+ */
+export function actionsFromToolResults(outcomes: ToolOutcome[]): ChatAction[] {
+  const suggested = outcomes
+    .filter(outcome => outcome.toolName === 'suggestActions')
+    .flatMap(outcome => (outcome.args as { actions?: ChatAction[] }).actions || [])
+
+  const found = outcomes.flatMap((outcome): ChatAction[] => {
+    const result = outcome.result as Record<string, any> | undefined
+    if (!result || result.error) return []
+
+    if (outcome.toolName === 'searchListings') {
+      return (result.listings || []).slice(0, MAX_LISTING_ACTIONS).map((listing: { title: string; url: string }) => (
+        { type: 'link', label: listing.title, href: listing.url, payload: undefined }
+      ))
+    }
+    if (outcome.toolName === 'getEvent') {
+      return [{ type: 'link', label: `${result.name} spaces`, href: result.url, payload: undefined }]
+    }
+    return []
+  })
+
+  return [...suggested, ...found]
+}
@@ -3,6 +3,9 @@
  * Prevents injection attacks and ensures data integrity
  */
 
+import type { FieldError } from './errors'
+import { API_KEY_SCOPES, ApiKeyScope } from './api-keys'
+
 /**
  * Validates and sanitizes a site URL
  * - Only allows http/https protocols
@@ -10,11 +13,15 @@
  * - Strips query parameters and fragments for security
  *
  * @param url - The URL to validate
+ * @param options - Per-tenant overrides for the domain whitelist and default URL
  * @returns Sanitized URL string, or null if invalid
  */
-export function validateSiteUrl(url: string | undefined): string | null {
+export function validateSiteUrl(
+  url: string | undefined,
+  options: { allowedDomains?: string[]; defaultUrl?: string } = {}
+): string | null {
   if (!url) {
-    return process.env.DEFAULT_SITE_URL || 'https://bubbl.io'
+    return options.defaultUrl || process.env.DEFAULT_SITE_URL || 'https://bubbl.io'
   }
 
   try {
@@ -28,7 +35,9 @@ export function validateSiteUrl(url: string | undefined): string | null {
 
     // For production, only allow whitelisted domains (if configured)
     if (process.env.NODE_ENV === 'production') {
-      const allowedDomains = process.env.ALLOWED_SITE_DOMAINS?.split(',').map(d => d.trim()) || []
+      const allowedDomains = options.allowedDomains
+        || process.env.ALLOWED_SITE_DOMAINS?.split(',').map(d => d.trim())
+        || []
 
       // If ALLOWED_SITE_DOMAINS is set to "*" or not configured, allow all domains
       if (allowedDomains.length === 0 || allowedDomains.includes('*')) {
@@ -70,3 +79,310 @@ export function sanitizeMessage(message: string): string {
   // Trim whitespace and limit to 2000 characters
   return message.trim().slice(0, 2000)
 }
+
+// Thread ids are used as storage keys: letters, digits, dash and underscore, 1 to 128 characters
+const THREAD_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+/**
+ * Declarative request schemas
+ * Describe a request body once and get a typed parsed object, field-level errors
+ * ({ path, reason }) and a JSON Schema for the API docs
+ */
+
+export type JsonSchema = Record<string, unknown>
+
+export interface Schema<T> {
+  /**
+   * Validates and converts a value, pushing problems onto `errors`
+   * The returned value is only meaningful when no errors were added
+   */
+  check(value: unknown, path: string, errors: FieldError[]): T
+  /** Whether the field may be left out of an object */
+  readonly isOptional: boolean
+  /** JSON Schema for this value (used for the OpenAPI spec) */
+  readonly jsonSchema: JsonSchema
+}
+
+/** The parsed type of a schema */
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldError[] }
+
+interface FieldOptions {
+  description?: string
+  example?: unknown
+}
+
+function withDocs(jsonSchema: JsonSchema, options: FieldOptions): JsonSchema {
+  return {
+    ...jsonSchema,
+    ...(options.description && { description: options.description }),
+    ...(options.example !== undefined && { example: options.example }),
+  }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+function field<T>(jsonSchema: JsonSchema, check: Schema<T>['check']): Schema<T> {
+  return { check, isOptional: false, jsonSchema }
+}
+
+export const schema = {
+  string(options: FieldOptions & {
+    minLength?: number
+    maxLength?: number
+    pattern?: RegExp
+    /** Reason reported when the pattern doesn't match */
+    patternReason?: string
+    /** Applied before length and pattern checks (e.g. sanitizeMessage) */
+    transform?: (value: string) => string
+    format?: string
+  } = {}): Schema<string> {
+    return field(withDocs({
+      type: 'string',
+      ...(options.minLength !== undefined && { minLength: options.minLength }),
+      ...(options.maxLength !== undefined && { maxLength: options.maxLength }),
+      ...(options.pattern && { pattern: options.pattern.source }),
+      ...(options.format && { format: options.format }),
+    }, options), (value, path, errors) => {
+      if (typeof value !== 'string') {
+        errors.push({ path, reason: 'must be a string' })
+        return ''
+      }
+
+      const result = options.transform ? options.transform(value) : value
+      if (options.minLength !== undefined && result.length < options.minLength) {
+        errors.push({ path, reason: options.minLength === 1 ? 'must not be empty' : `must be at least ${options.minLength} characters` })
+      } else if (options.maxLength !== undefined && result.length > options.maxLength) {
+        errors.push({ path, reason: `must be at most ${options.maxLength} characters` })
+      } else if (options.pattern && !options.pattern.test(result)) {
+        errors.push({ path, reason: options.patternReason || `must match ${options.pattern.source}` })
+      }
+      return result
+    })
+  },
+
+  number(options: FieldOptions & { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+    return field(withDocs({
+      type: options.integer ? 'integer' : 'number',
+      ...(options.min !== undefined && { minimum: options.min }),
+      ...(options.max !== undefined && { maximum: options.max }),
+    }, options), (value, path, errors) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ path, reason: 'must be a number' })
+      } else if (options.integer && !Number.isInteger(value)) {
+        errors.push({ path, reason: 'must be an integer' })
+      } else if (options.min !== undefined && value < options.min) {
+        errors.push({ path, reason: `must be at least ${options.min}` })
+      } else if (options.max !== undefined && value > options.max) {
+        errors.push({ path, reason: `must be at most ${options.max}` })
+      }
+      return value as number
+    })
+  },
+
+  boolean(options: FieldOptions = {}): Schema<boolean> {
+    return field(withDocs({ type: 'boolean' }, options), (value, path, errors) => {
+      if (typeof value !== 'boolean') {
+        errors.push({ path, reason: 'must be a boolean' })
+      }
+      return value as boolean
+    })
+  },
+
+  enum<const V extends string>(values: readonly V[], options: FieldOptions = {}): Schema<V> {
+    return field(withDocs({ type: 'string', enum: values }, options), (value, path, errors) => {
+      if (!values.includes(value as V)) {
+        errors.push({ path, reason: `must be one of: ${values.join(', ')}` })
+      }
+      return value as V
+    })
+  },
+
+  array<T>(item: Schema<T>, options: FieldOptions & { minItems?: number; maxItems?: number } = {}): Schema<T[]> {
+    return field(withDocs({
+      type: 'array',
+      items: item.jsonSchema,
+      ...(options.minItems !== undefined && { minItems: options.minItems }),
+      ...(options.maxItems !== undefined && { maxItems: options.maxItems }),
+    }, options), (value, path, errors) => {
+      if (!Array.isArray(value)) {
+        errors.push({ path, reason: 'must be an array' })
+        return []
+      }
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        errors.push({ path, reason: `must have at least ${options.minItems} items` })
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        errors.push({ path, reason: `must have at most ${options.maxItems} items` })
+        return []
+      }
+      return value.map((entry, i) => item.check(entry, `${path}[${i}]`, errors))
+    })
+  },
+
+  /**
+   * An object with known fields - unknown fields are ignored and dropped
+   */
+  object<S extends Record<string, Schema<unknown>>>(
+    shape: S,
+    options: FieldOptions = {}
+  ): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional)
+
+    return field(withDocs({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, s]) => [key, s.jsonSchema])),
+      ...(required.length > 0 && { required }),
+    }, options), (value, path, errors) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push({ path, reason: 'must be an object' })
+        return {} as { [K in keyof S]: Infer<S[K]> }
+      }
+
+      const result: Record<string, unknown> = {}
+      for (const [key, fieldSchema] of Object.entries(shape)) {
+        const fieldValue = (value as Record<string, unknown>)[key]
+        if (fieldValue === undefined && !fieldSchema.isOptional) {
+          errors.push({ path: joinPath(path, key), reason: 'is required' })
+        } else {
+          result[key] = fieldSchema.check(fieldValue, joinPath(path, key), errors)
+        }
+      }
+      return result as { [K in keyof S]: Infer<S[K]> }
+    })
+  },
+
+  /** Field may be left out */
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return {
+      isOptional: true,
+      jsonSchema: inner.jsonSchema,
+      check: (value, path, errors) => value === undefined ? undefined : inner.check(value, path, errors),
+    }
+  },
+
+  /** Field may be null */
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+      isOptional: inner.isOptional,
+      jsonSchema: { ...inner.jsonSchema, nullable: true },
+      check: (value, path, errors) => value === null ? null : inner.check(value, path, errors),
+    }
+  },
+}
+
+/**
+ * Validates a value against a schema
+ *
+ * @param bodySchema - Schema describing the value
+ * @param value - Untrusted input (usually a parsed JSON body)
+ * @returns The typed, converted value, or every field-level error found
+ */
+export function parseWithSchema<T>(bodySchema: Schema<T>, value: unknown): ParseResult<T> {
+  const errors: FieldError[] = []
+  const data = bodySchema.check(value, '', errors)
+  return errors.length > 0 ? { success: false, errors } : { success: true, data }
+}
+
+/** Request body for POST /api/chat and POST /api/chat/converse */
+export const chatRequestSchema = schema.object({
+  message: schema.string({
+    description: 'The user\'s message (trimmed, truncated to 2000 characters)',
+    minLength: 1,
+    transform: sanitizeMessage,
+    example: 'Where can I stay for Sundance?',
+  }),
+  thread_id: schema.optional(schema.nullable(schema.string({
+    description: 'Conversation id from a previous response - history is loaded from the server',
+    pattern: THREAD_ID_PATTERN,
+    patternReason: 'must be 1-128 letters, digits, "-" or "_"',
+    example: 'abc123',
+  }))),
+  messages: schema.optional(schema.array(schema.object({
+    role: schema.enum(['user', 'assistant'] as const),
+    content: schema.string({
+      description: 'Trimmed and truncated to 2000 characters, like `message`',
+      maxLength: 2000,
+      transform: sanitizeMessage,
+      example: 'I am going to Sundance',
+    }),
+  }), {
+    description: 'Earlier turns - only used to seed a new thread (or as history when threads are off)',
+    maxItems: 100,
+  })),
+  summary: schema.optional(schema.object({
+    text: schema.string({ maxLength: 2000 }),
+    message_count: schema.number({ min: 0, integer: true, description: 'Number of leading `messages` the summary covers' }),
+    signature: schema.optional(schema.string({ maxLength: 100, description: 'Signature returned with the summary - unsigned or altered summaries are ignored' })),
+  }, { description: 'Summary from the previous response - only used when threads are off' })),
+  site_url: schema.optional(schema.string({
+    description: 'Base URL for links in replies (must be an allowed domain in production)',
+    format: 'uri',
+    example: 'https://bubbl.io',
+  })),
+  stream: schema.optional(schema.boolean({
+    description: 'Stream the reply as server-sent events (same as "Accept: text/event-stream")',
+  })),
+  handoff: schema.optional(schema.boolean({
+    description: 'Hand the conversation to staff (e.g. from a "Talk to a human" button) - opens a handoff ticket',
+  })),
+}, { description: 'Chat request' })
+
+export type ChatRequestBody = Infer<typeof chatRequestSchema>
+
+/**
+ * Request body for POST /api/admin/keys, limited to the scopes the caller may grant
+ *
+ * @param grantableScopes - API_KEY_SCOPES for BUBBL_ADMIN_KEYS, TENANT_GRANTABLE_SCOPES for managed admin keys
+ */
+export function createApiKeyRequestSchemaFor(grantableScopes: readonly ApiKeyScope[]) {
+  return schema.object({
+    tenant_id: schema.optional(schema.string({ description: 'Owning tenant (defaults to the calling key\'s tenant)', minLength: 1, example: 'acme' })),
+    name: schema.optional(schema.string({ description: 'Label shown in key listings', maxLength: 200 })),
+    scopes: schema.optional(schema.array(schema.enum(grantableScopes), {
+      description: 'Defaults to ["chat:write"]. Only BUBBL_ADMIN_KEYS may grant "admin"',
+      minItems: 1,
+    })),
+    expires_in_days: schema.optional(schema.number({ description: 'Key expires after this many days', min: 1 })),
+  }, { description: 'Create an API key' })
+}
+
+/** Request body for POST /api/admin/keys (as documented - every scope) */
+export const createApiKeyRequestSchema = createApiKeyRequestSchemaFor(API_KEY_SCOPES)
+
+/** Request body for POST /api/admin/keys/:id/rotate */
+export const rotateApiKeyRequestSchema = schema.object({
+  overlap_seconds: schema.optional(schema.number({
+    description: 'How long the old key keeps working (defaults to 86400)',
+    min: 0,
+    integer: true,
+  })),
+}, { description: 'Rotate an API key' })
+
+const staffAgent = schema.optional(schema.string({
+  description: 'Staff member name (defaults to the API key id)',
+  minLength: 1,
+  maxLength: 100,
+  example: 'Dana',
+}))
+
+/** Request body for POST /api/staff/handoffs/:id/claim and /close */
+export const handoffActionRequestSchema = schema.object({
+  agent: staffAgent,
+}, { description: 'Claim or close a handoff ticket' })
+
+/** Request body for POST /api/staff/handoffs/:id/reply */
+export const handoffReplyRequestSchema = schema.object({
+  message: schema.string({
+    description: 'Reply shown to the guest in their thread',
+    minLength: 1,
+    transform: sanitizeMessage,
+    example: "Hi! I've refunded the cleaning fee - it'll show up in 3-5 days.",
+  }),
+  agent: staffAgent,
+}, { description: 'Reply to a handoff ticket' })
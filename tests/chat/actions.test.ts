@@ -0,0 +1,87 @@
+/**
+ * Suggested Action Tests
+ * Tests for /lib/actions.ts and actionsFromToolResults in /lib/tools.ts
+ */
+
+import { chatbotConfig } from '../../lib/config'
+import { sanitizeActions, ChatAction } from '../../lib/actions'
+import { actionsFromToolResults } from '../../lib/tools'
+
+const siteUrl = 'https://bubbl.io'
+
+const link = (label: string, href: string): ChatAction => ({ type: 'link', label, href, payload: undefined })
+const quickReply = (label: string, payload?: string): ChatAction => ({ type: 'quick_reply', label, href: undefined, payload })
+
+describe('Suggested Actions', () => {
+  describe('sanitizeActions', () => {
+    it('should keep links to known routes and rewrite relative ones', () => {
+      expect(sanitizeActions([
+        link('Sundance spaces', 'https://bubbl.io/listings?event=sundance'),
+        link('Events', '/events'),
+      ], siteUrl)).toEqual([
+        link('Sundance spaces', 'https://bubbl.io/listings?event=sundance'),
+        link('Events', 'https://bubbl.io/events'),
+      ])
+    })
+
+    it('should drop off-site, unknown and missing links', () => {
+      expect(sanitizeActions([
+        link('Deal', 'https://deals.example'),
+        link('Booking', '/bookings/123'),
+        { type: 'link', label: 'Nowhere', href: undefined, payload: undefined },
+      ], siteUrl)).toEqual([])
+    })
+
+    it('should default quick reply payloads to the label and drop stray hrefs', () => {
+      expect(sanitizeActions([
+        quickReply('Cheaper options'),
+        { type: 'quick_reply', label: 'Dates?', href: 'https://evil.example', payload: 'When is Sundance?' },
+      ], siteUrl)).toEqual([
+        quickReply('Cheaper options', 'Cheaper options'),
+        quickReply('Dates?', 'When is Sundance?'),
+      ])
+    })
+
+    it('should remove duplicates and cap the list', () => {
+      const actions = [
+        link('Spaces', '/listings'),
+        link('All spaces', 'https://bubbl.io/listings'),
+        quickReply('A'), quickReply('B'), quickReply('C'), quickReply('D'),
+      ]
+
+      const sanitized = sanitizeActions(actions, siteUrl)
+      expect(sanitized.map(action => action.label)).toEqual(['Spaces', 'A', 'B', 'C'])
+      expect(sanitizeActions(actions, siteUrl, { ...chatbotConfig.actions, enabled: false })).toEqual([])
+    })
+  })
+
+  describe('actionsFromToolResults', () => {
+    it('should put the model suggestions before links to what lookups found', () => {
+      const actions = actionsFromToolResults([
+        {
+          toolName: 'searchListings',
+          args: { event: 'sundance' },
+          result: { total: 3, listings: [
+            { title: 'Cozy Mountain Home', url: 'https://bubbl.io/listings/a' },
+            { title: 'Ski Lodge', url: 'https://bubbl.io/listings/b' },
+            { title: 'Condo', url: 'https://bubbl.io/listings/c' },
+          ] },
+        },
+        { toolName: 'suggestActions', args: { actions: [quickReply('Cheaper options')] }, result: { shown: 1 } },
+        { toolName: 'getEvent', args: { slug: 'sxsw' }, result: { name: 'SXSW', url: 'https://bubbl.io/listings?event=sxsw' } },
+        { toolName: 'getEvent', args: { slug: 'nope' }, result: { error: 'No event with slug "nope"' } },
+      ])
+
+      expect(actions).toEqual([
+        quickReply('Cheaper options'),
+        link('Cozy Mountain Home', 'https://bubbl.io/listings/a'),
+        link('Ski Lodge', 'https://bubbl.io/listings/b'),
+        link('SXSW spaces', 'https://bubbl.io/listings?event=sxsw'),
+      ])
+    })
+
+    it('should return nothing when no tools were called', () => {
+      expect(actionsFromToolResults([])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Answer Cache Tests
+ * Tests for /lib/answer-cache.ts and /app/api/admin/cache/route.ts
+ */
+
+import {
+  answerCacheKey,
+  cacheAnswer,
+  getCachedAnswer,
+  normalizeQuestion,
+  purgeAnswerCache,
+  setAnswerCacheStore,
+  AnswerCacheKey,
+} from '../../lib/answer-cache'
+import { createApiKey, setApiKeyStore } from '../../lib/api-keys'
+import { MemoryStore } from '../../lib/storage'
+import { DELETE as purgeRoute } from '../../app/api/admin/cache/route'
+
+const baseKey: AnswerCacheKey = {
+  tenantId: 'default',
+  siteUrl: 'https://bubbl.io',
+  promptHash: 'abc123',
+  model: 'openai:gpt-3.5-turbo',
+  message: 'What is Bubbl?',
+}
+
+function entry(key: string, tenantId = 'default') {
+  return { key, tenantId, message: `Answer for ${key}`, provider: 'openai', model: 'gpt-3.5-turbo' }
+}
+
+describe('Answer Cache', () => {
+  const originalEnv = process.env
+  const settings = { enabled: true, ttlSeconds: 60, maxEntries: 2 }
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, BUBBL_ADMIN_KEYS: 'sk_bubbl_admin_test' }
+    setAnswerCacheStore(new MemoryStore())
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+    setAnswerCacheStore(null)
+  })
+
+  describe('answerCacheKey', () => {
+    it('should ignore case, spacing and trailing punctuation', () => {
+      expect(normalizeQuestion('  What   is Bubbl?? ')).toBe('what is bubbl')
+      expect(answerCacheKey({ ...baseKey, message: 'what is bubbl' })).toBe(answerCacheKey(baseKey))
+    })
+
+    it.each(['tenantId', 'siteUrl', 'promptHash', 'model'] as const)('should change with %s', (field) => {
+      expect(answerCacheKey({ ...baseKey, [field]: 'other' })).not.toBe(answerCacheKey(baseKey))
+    })
+  })
+
+  describe('cacheAnswer', () => {
+    it('should return answers until they expire', async () => {
+      await cacheAnswer(entry('a'), settings, 0)
+
+      expect((await getCachedAnswer('a', 59000))?.message).toBe('Answer for a')
+      expect(await getCachedAnswer('a', 60000)).toBeNull()
+    })
+
+    it('should evict the oldest answers past maxEntries', async () => {
+      await cacheAnswer(entry('a'), settings, 1000)
+      await cacheAnswer(entry('b'), settings, 2000)
+      await cacheAnswer(entry('c'), settings, 3000)
+
+      expect(await getCachedAnswer('a', 3000)).toBeNull()
+      expect(await getCachedAnswer('b', 3000)).not.toBeNull()
+      expect(await getCachedAnswer('c', 3000)).not.toBeNull()
+    })
+
+    it('should list the store once rather than on every write', async () => {
+      const store = new MemoryStore<any>()
+      await store.set('old', { ...entry('old'), createdAt: new Date(0).toISOString(), expiresAt: new Date(60000).toISOString() })
+      setAnswerCacheStore(store)
+      const list = jest.spyOn(store, 'list')
+
+      await cacheAnswer(entry('a'), settings, 1000)
+      await cacheAnswer(entry('b'), settings, 2000)
+
+      expect(list).toHaveBeenCalledTimes(1)
+      expect(await store.get('old')).toBeNull()
+      expect(await getCachedAnswer('a', 2000)).not.toBeNull()
+    })
+  })
+
+  describe('purgeAnswerCache', () => {
+    it('should purge one tenant or everything', async () => {
+      await cacheAnswer(entry('a', 'acme'))
+      await cacheAnswer(entry('b', 'default'))
+
+      expect(await purgeAnswerCache('acme')).toBe(1)
+      expect(await getCachedAnswer('b')).not.toBeNull()
+      expect(await purgeAnswerCache()).toBe(1)
+      expect(await getCachedAnswer('b')).toBeNull()
+    })
+
+    it('should require an admin key to purge over the API', async () => {
+      await cacheAnswer(entry('a'))
+      const request = (headers: Record<string, string>) =>
+        new Request('http://localhost/api/admin/cache', { method: 'DELETE', headers })
+
+      const denied = await purgeRoute(request({}), { params: {} })
+      const response = await purgeRoute(request({ 'X-API-Key': 'sk_bubbl_admin_test' }), { params: {} })
+
+      expect(denied.status).toBe(401)
+      expect(response.status).toBe(200)
+      expect((await response.json()).purged).toBe(1)
+    })
+
+    it('should limit managed admin keys to their own tenant', async () => {
+      process.env.BUBBL_TENANTS = JSON.stringify([{ id: 'acme', apiKeys: [] }])
+      setApiKeyStore(new MemoryStore())
+      const { key } = await createApiKey({ tenantId: 'acme', scopes: ['admin'] })
+      await cacheAnswer(entry('a', 'acme'))
+      await cacheAnswer(entry('b', 'default'))
+      const request = (query = '') =>
+        new Request(`http://localhost/api/admin/cache${query}`, { method: 'DELETE', headers: { 'X-API-Key': key } })
+
+      const otherTenant = await purgeRoute(request('?tenant_id=default'), { params: {} })
+      const own = await purgeRoute(request(), { params: {} })
+
+      expect(otherTenant.status).toBe(403)
+      expect((await own.json()).purged).toBe(1)
+      expect(await getCachedAnswer('b')).not.toBeNull()
+      setApiKeyStore(null)
+    })
+  })
+})
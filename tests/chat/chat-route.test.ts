@@ -0,0 +1,213 @@
+/**
+ * Chat Route Tests
+ * Tests for /app/api/chat/route.ts end to end, using the offline mock model (/lib/mock-model.ts)
+ */
+
+import { GET, POST } from '../../app/api/chat/route'
+import { REQUEST_TIMEOUT_MS } from '../../lib/chat-pipeline'
+import { MemoryStore } from '../../lib/storage'
+import { setThreadStore, Thread } from '../../lib/threads'
+import { MemoryRateLimitBackend, setRateLimitBackend } from '../../lib/rate-limit'
+import { setAnswerCacheStore } from '../../lib/answer-cache'
+import { resetCircuitBreakers } from '../../lib/resilience'
+import { setBudgetStore } from '../../lib/budgets'
+
+const API_KEY = 'sk_bubbl_route_test_key'
+
+function chatRequest(body: unknown, headers: Record<string, string> = { 'X-API-Key': API_KEY }) {
+  return new Request('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+}
+
+function logged(spy: jest.SpyInstance, message: string) {
+  return spy.mock.calls.map(([line]) => JSON.parse(line)).filter(entry => entry.message === message)
+}
+
+describe('POST /api/chat (mock model)', () => {
+  const originalEnv = process.env
+  let consoleLog: jest.SpyInstance
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      LLM_PROVIDER: 'mock',
+      BUBBL_API_KEYS: API_KEY,
+      LOG_LEVEL: 'info',
+      MOCK_MODEL_SCRIPT: JSON.stringify({
+        rules: [
+          { match: 'price', reply: 'Spaces start at $50 per night.', usage: { promptTokens: 120, completionTokens: 8 } },
+          { match: 'booking', reply: 'Check [your booking](/bookings/123) or [spaces](/listings).' },
+          { match: 'busy', failure: 'rate_limit' },
+          { match: 'garbled', failure: 'malformed' },
+          { match: 'broken', failure: 'error' },
+          { match: 'slow', failure: 'timeout' },
+          { match: 'cheap', toolCall: { name: 'searchListings', args: { event: 'sundance', maxPrice: 100 } }, reply: 'Try {{listings}}' },
+        ],
+        replies: ['Welcome to Bubbl!', 'Anything else?'],
+      }),
+    }
+    delete process.env.OPENAI_API_KEY
+    delete process.env.LLM_FALLBACKS
+    delete process.env.MOCK_MODEL_FAILURE
+    delete process.env.MOCK_MODEL_LATENCY_MS
+    setThreadStore(new MemoryStore<Thread>())
+    setRateLimitBackend(new MemoryRateLimitBackend())
+    setBudgetStore(new MemoryStore())
+    resetCircuitBreakers()
+    setAnswerCacheStore(new MemoryStore())
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+    setThreadStore(null)
+  })
+
+  it('should answer without an OpenAI key', async () => {
+    const response = await POST(chatRequest({ message: 'Hi there' }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toMatchObject({ message: 'Welcome to Bubbl!', success: true, thread_id: expect.any(String) })
+  })
+
+  it('should follow the script across turns of a thread', async () => {
+    const first = await (await POST(chatRequest({ message: 'Hi there' }))).json()
+    const second = await (await POST(chatRequest({ message: 'Thanks', thread_id: first.thread_id }))).json()
+    const third = await (await POST(chatRequest({ message: 'Bye', thread_id: first.thread_id }))).json()
+
+    expect(second.message).toBe('Anything else?')
+    expect(third.message).toBe('Mock reply: Bye')
+  })
+
+  it('should record provider, model and simulated usage in metrics', async () => {
+    process.env = { ...process.env, NODE_ENV: 'production' }
+    await POST(chatRequest({ message: 'What is the price?' }))
+
+    const [metrics] = logged(consoleLog, 'Request completed')
+    expect(metrics).toMatchObject({ statusCode: 200, provider: 'mock', tokensUsed: 128, estimatedCost: 0 })
+  })
+
+  it('should answer with listings found by tool calls', async () => {
+    const response = await POST(chatRequest({ message: 'Anything cheap for Sundance?', site_url: 'https://bubbl.io' }))
+    const data = await response.json()
+
+    expect(data.message).toBe(
+      'Try [Budget Bunkhouse](https://bubbl.io/listings/sundance-budget-bunkhouse), ' +
+      '[Downtown Condo with Passes](https://bubbl.io/listings/sundance-downtown-condo)'
+    )
+    expect(consoleLog.mock.calls.join('\n')).toContain('Tool call')
+  })
+
+  it('should stream answers that use tools', async () => {
+    const body = await (await POST(chatRequest({ message: 'Anything cheap?', stream: true }))).text()
+
+    expect(body).toContain('[Budget Bunkhouse](')
+    expect(body).toContain('event: done')
+  })
+
+  it('should still require an API key', async () => {
+    const response = await POST(chatRequest({ message: 'Hi' }, {}))
+
+    expect(response.status).toBe(401)
+    expect((await response.json()).code).toBe('AUTH_ERROR')
+  })
+
+  it('should still validate the body', async () => {
+    const response = await POST(chatRequest({ message: '' }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).code).toBe('VALIDATION_ERROR')
+  })
+
+  it.each([
+    ['busy', 429, 'RATE_LIMIT'],
+    ['garbled', 503, 'MODEL_ERROR'],
+    ['broken', 503, 'MODEL_ERROR'],
+  ])('should map a %s model to %i %s', async (message, status, code) => {
+    const response = await POST(chatRequest({ message: `You seem ${message}` }))
+    const data = await response.json()
+
+    expect(response.status).toBe(status)
+    expect(data).toMatchObject({ error: true, code, retryable: true })
+  })
+
+  it('should time out a model that never answers', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] })
+
+    const pending = POST(chatRequest({ message: 'Why so slow?' }))
+    await jest.advanceTimersByTimeAsync(REQUEST_TIMEOUT_MS)
+    const response = await pending
+
+    expect(response.status).toBe(504)
+    expect((await response.json()).code).toBe('TIMEOUT')
+  })
+
+  it('should apply MOCK_MODEL_FAILURE to every call', async () => {
+    process.env.MOCK_MODEL_FAILURE = 'rate_limit'
+
+    const response = await POST(chatRequest({ message: 'Hi there' }))
+
+    expect(response.status).toBe(429)
+  })
+
+  it('should simulate latency', async () => {
+    process.env.MOCK_MODEL_LATENCY_MS = '50'
+
+    const data = await (await POST(chatRequest({ message: 'Hi there' }))).json()
+
+    expect(data.duration).toBeGreaterThanOrEqual(45)
+  })
+
+  it('should stream the scripted reply', async () => {
+    const response = await POST(chatRequest({ message: 'What is the price?', stream: true }))
+    const body = await response.text()
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+    expect(body).toContain('event: token')
+    expect(body).toContain('event: done')
+    expect(body).toContain('Spaces start at $50 per night.')
+  })
+
+  it('should only stream checked links', async () => {
+    const body = await (await POST(chatRequest({ message: 'Where is my booking?', stream: true }))).text()
+    const tokens = body.split('\n\n')
+      .filter(event => event.startsWith('event: token'))
+      .map(event => JSON.parse(event.split('data: ')[1]).text)
+      .join('')
+
+    expect(tokens).toBe('Check your booking or [spaces](https://bubbl.io/listings).')
+    expect(body).not.toContain('/bookings/123)')
+  })
+
+  it('should send an error event when the stream fails', async () => {
+    const body = await (await POST(chatRequest({ message: 'You seem busy', stream: true }))).text()
+
+    expect(body).toContain('event: error')
+    expect(body).toContain('"code":"RATE_LIMIT"')
+  })
+
+  it('should report open circuit breakers on the health endpoint', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0)
+    process.env.MOCK_MODEL_FAILURE = 'error'
+
+    await POST(chatRequest({ message: 'Hi there' }))
+    await POST(chatRequest({ message: 'Hi there' }))
+    const health = await (await GET()).json()
+
+    expect(health.status).toBe('degraded')
+    expect(health.circuitBreakers).toEqual([
+      expect.objectContaining({ target: 'mock:gpt-3.5-turbo', state: 'open', openedAt: expect.any(String) }),
+    ])
+  })
+})
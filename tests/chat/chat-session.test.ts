@@ -0,0 +1,112 @@
+/**
+ * Chat Session Tests
+ * Tests for /lib/chat-session.ts
+ */
+
+import {
+  applyConverseResponse,
+  applyHandoffPoll,
+  buildConverseRequest,
+  INITIAL_CHAT_SESSION,
+  MAX_HISTORY_MESSAGES,
+  ChatSessionState,
+  SessionTurn,
+} from '../../lib/chat-session'
+
+const conversation = (length: number): SessionTurn[] =>
+  Array.from({ length }, (_, i) => ({ role: i % 2 === 0 ? 'user' : 'assistant', content: `turn ${i + 1}` }))
+
+describe('Chat Session', () => {
+  describe('buildConverseRequest', () => {
+    it('should send the whole conversation before the first summary', () => {
+      const { body, historyStart } = buildConverseRequest(INITIAL_CHAT_SESSION, conversation(4), 'Hi')
+
+      expect(historyStart).toBe(0)
+      expect(body).toEqual({ message: 'Hi', messages: conversation(4), summary: undefined, thread_id: undefined, stream: true })
+    })
+
+    it('should leave out summarized turns and send the signed summary back', () => {
+      const state: ChatSessionState = { summary: { text: 'Guest has a dog.', signature: 'sig', covered: 3 }, handoff: null }
+      const { body, historyStart } = buildConverseRequest(state, conversation(6), 'Hi')
+
+      expect(historyStart).toBe(3)
+      expect(body.messages).toEqual(conversation(6).slice(3))
+      expect(body.summary).toEqual({ text: 'Guest has a dog.', message_count: 0, signature: 'sig' })
+    })
+
+    it('should cap the history when summaries stop coming back', () => {
+      const state: ChatSessionState = { summary: { text: 'Guest has a dog.', signature: 'sig', covered: 2 }, handoff: null }
+      const { body, historyStart } = buildConverseRequest(state, conversation(150), 'Hi')
+
+      expect(historyStart).toBe(150 - MAX_HISTORY_MESSAGES)
+      expect(body.messages).toHaveLength(MAX_HISTORY_MESSAGES)
+    })
+
+    it('should send the handoff thread while staff own the conversation', () => {
+      const state: ChatSessionState = { summary: null, handoff: { threadId: 'thread-1', ticketId: 'ticket-1', status: 'open' } }
+
+      expect(buildConverseRequest(state, [], 'Hello?').body.thread_id).toBe('thread-1')
+    })
+  })
+
+  describe('applyConverseResponse', () => {
+    it('should count the summary from the first message sent', () => {
+      const { state } = applyConverseResponse(INITIAL_CHAT_SESSION, 4, {
+        summary: { text: 'Guest has a dog.', message_count: 2, signature: 'sig' },
+      })
+
+      expect(state.summary).toEqual({ text: 'Guest has a dog.', signature: 'sig', covered: 6 })
+    })
+
+    it('should keep the previous summary when none comes back', () => {
+      const previous: ChatSessionState = { summary: { text: 'Guest has a dog.', signature: 'sig', covered: 3 }, handoff: null }
+
+      expect(applyConverseResponse(previous, 3, {}).state).toEqual(previous)
+    })
+
+    it('should track the handoff thread and return queued staff replies', () => {
+      const opened = applyConverseResponse(INITIAL_CHAT_SESSION, 0, {
+        thread_id: 'thread-1',
+        handoff: { ticket_id: 'ticket-1', status: 'open', replies: [] },
+      })
+      expect(opened.state.handoff).toEqual({ threadId: 'thread-1', ticketId: 'ticket-1', status: 'open' })
+
+      const replies = [{ content: 'Hi, Dana here. What happened?', timestamp: '2026-01-13T23:05:00.000Z' }]
+      const queued = applyConverseResponse(opened.state, 0, {
+        thread_id: 'thread-1',
+        handoff: { ticket_id: 'ticket-1', status: 'claimed', replies },
+      })
+      expect(queued.state.handoff?.status).toBe('claimed')
+      expect(queued.staffReplies).toEqual(replies)
+    })
+
+    it('should drop the handoff thread once the model answers again', () => {
+      const state: ChatSessionState = { summary: null, handoff: { threadId: 'thread-1', ticketId: 'ticket-1', status: 'claimed' } }
+
+      expect(applyConverseResponse(state, 0, {}).state.handoff).toBeNull()
+    })
+  })
+
+  describe('applyHandoffPoll', () => {
+    const state: ChatSessionState = { summary: null, handoff: { threadId: 'thread-1', ticketId: 'ticket-1', status: 'open' } }
+
+    it('should follow the ticket status and drop the handoff once closed', () => {
+      const claimed = applyHandoffPoll(state, {
+        thread_id: 'thread-1',
+        handoff: { ticket_id: 'ticket-1', status: 'claimed', replies: [] },
+      })
+      expect(claimed.handoff).toEqual({ threadId: 'thread-1', ticketId: 'ticket-1', status: 'claimed' })
+
+      const closed = applyHandoffPoll(claimed, {
+        thread_id: 'thread-1',
+        handoff: { ticket_id: 'ticket-1', status: 'closed', replies: [] },
+      })
+      expect(closed.handoff).toBeNull()
+    })
+
+    it('should ignore polls for a thread the session has moved on from', () => {
+      expect(applyHandoffPoll(state, { thread_id: 'thread-2', handoff: null })).toBe(state)
+      expect(applyHandoffPoll(INITIAL_CHAT_SESSION, { thread_id: 'thread-1', handoff: null })).toBe(INITIAL_CHAT_SESSION)
+    })
+  })
+})
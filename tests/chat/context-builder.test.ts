@@ -0,0 +1,122 @@
+/**
+ * Context Builder Tests
+ * Tests for /lib/context-builder.ts and /lib/tokens.ts
+ */
+
+import { buildContext, ContextInput } from '../../lib/context-builder'
+import { charsPerToken, countMessageTokens, countTokens, truncateToTokens } from '../../lib/tokens'
+import { Passage } from '../../lib/knowledge'
+
+const gpt35 = { provider: 'openai', model: 'gpt-3.5-turbo' }
+
+const passage = (title: string, length = 400): Passage => ({
+  title,
+  url: `/help/${title}`,
+  text: 'x'.repeat(length),
+})
+
+const turn = (role: 'user' | 'assistant', length: number, label = '') => ({ role, content: label + 'y'.repeat(length) })
+
+function input(overrides: Partial<ContextInput> = {}): ContextInput {
+  return {
+    system: 'You are a helpful assistant.',
+    passages: [],
+    history: [],
+    message: 'Hi',
+    siteUrl: 'https://bubbl.io',
+    ...overrides,
+  }
+}
+
+describe('Tokens', () => {
+  it('should use per-model ratios with a conservative default', () => {
+    expect(charsPerToken({ provider: 'openai', model: 'gpt-4o-mini' })).toBeGreaterThan(charsPerToken(gpt35))
+    expect(charsPerToken({ provider: 'local', model: 'llama3.1' })).toBeLessThan(charsPerToken(gpt35))
+    expect(charsPerToken()).toBe(charsPerToken({ provider: 'local', model: 'llama3.1' }))
+  })
+
+  it('should round token estimates up', () => {
+    expect(countTokens('', gpt35)).toBe(0)
+    expect(countTokens('abc', gpt35)).toBe(1)
+    expect(countTokens('a'.repeat(380), gpt35)).toBe(100)
+  })
+
+  it('should add per-message overhead', () => {
+    const messages = [{ role: 'user' as const, content: 'a'.repeat(38) }]
+    expect(countMessageTokens(messages, gpt35)).toBe(10 + 4 + 3)
+  })
+
+  it('should truncate text to a token allowance', () => {
+    const text = 'a'.repeat(1000)
+    const truncated = truncateToTokens(text, 50, gpt35)
+
+    expect(truncated.endsWith('…[truncated]')).toBe(true)
+    expect(countTokens(truncated, gpt35)).toBeLessThanOrEqual(50)
+    expect(truncateToTokens('short', 50, gpt35)).toBe('short')
+    expect(truncateToTokens(text, 1, gpt35)).toBe('')
+  })
+})
+
+describe('Context Builder', () => {
+  it('should include everything when it fits', () => {
+    const { messages, passages, report } = buildContext(input({
+      passages: [passage('wifi')],
+      summary: { text: 'Guest is going to Sundance.', messageCount: 2 },
+      history: [turn('user', 10), turn('assistant', 10)],
+    }), 3000, gpt35)
+
+    expect(passages).toHaveLength(1)
+    expect(messages).toHaveLength(4)
+    expect(messages[0].content).toContain('# KNOWLEDGE BASE')
+    expect(messages[0].content).toContain('# CONVERSATION SO FAR')
+    expect(report).toMatchObject({ budget: 3000, passagesDropped: 0, summaryTruncated: false, turnsDropped: 0 })
+    expect(report.promptTokens).toBe(countMessageTokens(messages, gpt35))
+  })
+
+  it('should drop the oldest turns first', () => {
+    const history = [turn('user', 760, 'oldest'), turn('assistant', 760, 'middle'), turn('user', 760, 'newest')]
+    const { messages, report } = buildContext(input({ history }), 500, gpt35)
+
+    expect(messages.map(m => (m.content as string).slice(0, 6))).toEqual(['You ar', 'middle', 'newest', 'Hi'])
+    expect(report.turnsDropped).toBe(1)
+    expect(report.promptTokens).toBeLessThanOrEqual(500)
+  })
+
+  it('should truncate the newest turn when no whole turn fits', () => {
+    const { messages, report } = buildContext(input({ history: [turn('user', 7600)] }), 500, gpt35)
+
+    expect(messages).toHaveLength(3)
+    expect(messages[1].content).toContain('…[truncated]')
+    expect(report).toMatchObject({ turnsDropped: 0, turnsTruncated: 1 })
+    expect(report.promptTokens).toBeLessThanOrEqual(500)
+  })
+
+  it('should give knowledge priority over the summary and history', () => {
+    const { passages, messages, report } = buildContext(input({
+      passages: [passage('a', 1200), passage('b', 1200), passage('c', 1200)],
+      summary: { text: 's'.repeat(2000), messageCount: 4 },
+      history: [turn('user', 400)],
+    }), 800, gpt35)
+
+    expect(passages.map(p => p.title)).toEqual(['a', 'b'])
+    expect(report.passagesDropped).toBe(1)
+    expect(report.summaryTruncated).toBe(true)
+    expect(messages[0].content).toContain('…[truncated]')
+    expect(report.turnsDropped).toBe(1)
+    expect(report.promptTokens).toBeLessThanOrEqual(800)
+  })
+
+  it('should always keep the system prompt and the current message', () => {
+    const { messages, report } = buildContext(input({
+      system: 'z'.repeat(4000),
+      passages: [passage('a')],
+      history: [turn('user', 10)],
+    }), 500, gpt35)
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'z'.repeat(4000) },
+      { role: 'user', content: 'Hi' },
+    ])
+    expect(report.promptTokens).toBeGreaterThan(500)
+  })
+})
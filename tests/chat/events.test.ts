@@ -0,0 +1,92 @@
+/**
+ * Event Catalog Tests
+ * Tests for /lib/events.ts and the generated event section of the system prompt
+ */
+
+import { chatbotConfig } from '../../lib/config'
+import { formatEventKnowledge, getEvent, getEvents, parseEvents, Event } from '../../lib/events'
+import { LISTINGS } from '../../lib/listings'
+import { buildTenantSystemPrompt, getDefaultTenant } from '../../lib/tenants'
+
+const sundance = chatbotConfig.events[0]
+
+describe('Event Catalog', () => {
+  let consoleError: jest.SpyInstance
+
+  beforeEach(() => {
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should accept every event in chatbotConfig.events', () => {
+    expect(getEvents()).toHaveLength(chatbotConfig.events.length)
+    expect(consoleError).not.toHaveBeenCalled()
+  })
+
+  it('should look events up by slug', () => {
+    expect(getEvent('SUNDANCE')?.name).toBe('Sundance Film Festival')
+    expect(getEvent('coachella')).toBeUndefined()
+  })
+
+  it('should skip invalid events and duplicate slugs', () => {
+    const events = parseEvents([
+      sundance,
+      { ...sundance, name: 'Copy' },
+      { ...sundance, slug: 'Bad Slug!' },
+      { ...sundance, slug: 'no-venues', venues: 'Main stage' },
+    ])
+
+    expect(events.map(event => event.name)).toEqual(['Sundance Film Festival'])
+    expect(consoleError).toHaveBeenCalledTimes(3)
+    expect(consoleError.mock.calls[1][0]).toContain('slug')
+  })
+
+  it('should derive stats from the listing inventory', () => {
+    const [withListings, withoutListings] = parseEvents(chatbotConfig.events)
+    const cheapOnly = parseEvents([sundance], LISTINGS.filter(listing => listing.pricePerNight < 100))
+
+    expect(withListings.bubbl_stats).toEqual({
+      spaces_available: 5,
+      spaces_with_passes: 2,
+      price_range: '$80-200/night',
+      avg_distance: '15min to venues',
+    })
+    expect(withoutListings.bubbl_stats).toBeUndefined()
+    expect(cheapOnly[0].bubbl_stats).toMatchObject({ spaces_available: 2, price_range: '$80-95/night' })
+  })
+
+  describe('formatEventKnowledge', () => {
+    const events = parseEvents(chatbotConfig.events)
+
+    it('should describe each event with stats and a listings link', () => {
+      const knowledge = formatEventKnowledge(events, 'https://acme.com')
+
+      expect(knowledge).toContain('**Sundance Film Festival** (Jan 20-30, 2025, Park City, UT)')
+      expect(knowledge).toContain('- 5 spaces, $80-200/night, 15min to venues')
+      expect(knowledge).toContain('- 2 include festival passes')
+      expect(knowledge).toContain('(https://acme.com/listings?event=sundance)')
+    })
+
+    it('should not promise spaces for events without stats', () => {
+      const withoutStats: Event[] = [{ ...events[0], bubbl_stats: undefined }]
+
+      expect(formatEventKnowledge(withoutStats, 'https://acme.com')).toContain('No spaces listed yet')
+    })
+
+    it('should be placed in the default system prompt', () => {
+      const knowledge = formatEventKnowledge(events, 'https://acme.com')
+      const prompt = buildTenantSystemPrompt(getDefaultTenant(), 'https://acme.com', knowledge)
+
+      expect(prompt).toContain(`# EVENT KNOWLEDGE\n${knowledge}`)
+    })
+
+    it('should fill {{events}} in tenant prompt overrides', () => {
+      const tenant = { ...getDefaultTenant(), systemPrompt: 'Events:\n{{events}}' }
+
+      expect(buildTenantSystemPrompt(tenant, 'https://acme.com', 'SUNDANCE')).toBe('Events:\nSUNDANCE')
+    })
+  })
+})
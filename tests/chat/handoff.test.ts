@@ -0,0 +1,240 @@
+/**
+ * Handoff Tests
+ * Tests for /lib/handoff.ts
+ */
+
+import { createApiKey, setApiKeyStore } from '../../lib/api-keys'
+import { MemoryStore } from '../../lib/storage'
+import { appendMessages, getThread, setThreadStore, Thread } from '../../lib/threads'
+import {
+  claimHandoffTicket,
+  closeHandoffTicket,
+  createHandoffTicket,
+  detectHandoffIntent,
+  getHandoffTicket,
+  HandoffTicket,
+  isSupportTopic,
+  listHandoffTickets,
+  queueHandoffMessage,
+  replyToHandoff,
+  setHandoffStore,
+  takeHandoffUpdate,
+} from '../../lib/handoff'
+import { GET as listRoute } from '../../app/api/staff/handoffs/route'
+import { GET as getRoute } from '../../app/api/staff/handoffs/[id]/route'
+import { POST as claimRoute } from '../../app/api/staff/handoffs/[id]/claim/route'
+import { POST as replyRoute } from '../../app/api/staff/handoffs/[id]/reply/route'
+import { GET as threadRoute } from '../../app/api/chat/threads/[id]/route'
+
+async function openTicket(threadId = 'thread-1', tenantId = 'default') {
+  await appendMessages(tenantId, threadId, [{ role: 'user', content: 'I want to talk to a human' }])
+  return createHandoffTicket({
+    tenantId,
+    threadId,
+    userId: 'user-1',
+    reason: 'requested_human',
+    trigger: 'intent',
+    transcript: [{ role: 'user', content: 'I want to talk to a human', timestamp: new Date().toISOString() }],
+  })
+}
+
+describe('Handoff', () => {
+  beforeEach(() => {
+    setThreadStore(new MemoryStore<Thread>())
+    setHandoffStore(new MemoryStore<HandoffTicket>())
+    setApiKeyStore(new MemoryStore())
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    setThreadStore(null)
+    setHandoffStore(null)
+    setApiKeyStore(null)
+  })
+
+  describe('detectHandoffIntent', () => {
+    it.each([
+      'Can I talk to a human please?',
+      'I want to speak with someone',
+      'get me a live agent',
+      "I'd like to talk to a human",
+    ])('should detect a request for a person: %s', (message) => {
+      expect(detectHandoffIntent(message)).toBe('requested_human')
+    })
+
+    it('should detect urgent stay problems', () => {
+      expect(detectHandoffIntent("I'm locked out of the apartment")).toBe('stay_problem')
+      expect(detectHandoffIntent('There is no hot water')).toBe('stay_problem')
+    })
+
+    it('should ignore ordinary questions', () => {
+      expect(detectHandoffIntent('Are there any human-friendly hikes near Park City?')).toBeNull()
+      expect(detectHandoffIntent('Where can I stay for Sundance?')).toBeNull()
+    })
+
+    it('should flag booking and refund topics as support topics only', () => {
+      expect(isSupportTopic('How do I get a refund?')).toBe(true)
+      expect(detectHandoffIntent('How do I get a refund?')).toBeNull()
+    })
+  })
+
+  it('should open a ticket and hand the thread to staff', async () => {
+    const ticket = await openTicket()
+
+    expect(ticket).toMatchObject({ status: 'open', userId: 'user-1', reason: 'requested_human' })
+    expect((await getThread('default', 'thread-1'))?.handoffTicketId).toBe(ticket.id)
+  })
+
+  it('should list tickets per tenant, filtered by status', async () => {
+    const first = await openTicket('thread-1')
+    await openTicket('thread-2')
+    await openTicket('thread-3', 'other')
+    await claimHandoffTicket('default', first.id, 'dana')
+
+    expect(await listHandoffTickets('default')).toHaveLength(2)
+    expect((await listHandoffTickets('default', 'open')).map(t => t.threadId)).toEqual(['thread-2'])
+    expect(await getHandoffTicket('other', first.id)).toBeNull()
+  })
+
+  it('should add queued guest messages to the transcript', async () => {
+    const ticket = await openTicket()
+    await queueHandoffMessage(ticket, 'Still waiting')
+
+    const saved = await getHandoffTicket('default', ticket.id)
+    expect(saved?.transcript.map(m => m.content)).toEqual(['I want to talk to a human', 'Still waiting'])
+  })
+
+  it('should not let a second agent claim a claimed ticket', async () => {
+    const ticket = await openTicket()
+    await claimHandoffTicket('default', ticket.id, 'dana')
+
+    await expect(claimHandoffTicket('default', ticket.id, 'dana')).resolves.toMatchObject({ claimedBy: 'dana' })
+    await expect(claimHandoffTicket('default', ticket.id, 'sam')).rejects.toMatchObject({ status: 409 })
+  })
+
+  it('should add staff replies to the thread and claim the ticket', async () => {
+    const ticket = await openTicket()
+    const replied = await replyToHandoff('default', ticket.id, 'dana', "Hi, I'm on it.")
+
+    expect(replied).toMatchObject({ status: 'claimed', claimedBy: 'dana' })
+    expect(replied.transcript.at(-1)).toMatchObject({ role: 'assistant', author: 'staff', content: "Hi, I'm on it." })
+    expect((await getThread('default', 'thread-1'))?.messages.at(-1)).toMatchObject({
+      role: 'assistant',
+      author: 'staff',
+      content: "Hi, I'm on it.",
+    })
+  })
+
+  it('should give the thread back on close and reject later changes', async () => {
+    const ticket = await openTicket()
+    const closed = await closeHandoffTicket('default', ticket.id, 'dana')
+
+    expect(closed.status).toBe('closed')
+    expect((await getThread('default', 'thread-1'))?.handoffTicketId).toBeUndefined()
+    await expect(replyToHandoff('default', ticket.id, 'dana', 'Hello?')).rejects.toMatchObject({ status: 409 })
+    await expect(closeHandoffTicket('default', 'missing', 'dana')).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('should return each staff reply once, even after the ticket closes', async () => {
+    const ticket = await openTicket()
+    await replyToHandoff('default', ticket.id, 'dana', "Hi, I'm on it.")
+    await closeHandoffTicket('default', ticket.id, 'dana')
+
+    const thread = (await getThread('default', 'thread-1'))!
+    expect(await takeHandoffUpdate(thread)).toMatchObject({
+      ticketId: ticket.id,
+      status: 'closed',
+      replies: [{ content: "Hi, I'm on it." }],
+    })
+    expect(await takeHandoffUpdate(thread)).toBeNull()
+  })
+
+  describe('staff endpoints', () => {
+    const staffRequest = (apiKey: string, url: string, body?: unknown) =>
+      new Request(`http://localhost${url}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+
+    it('should list, claim and reply with a handoffs:write key', async () => {
+      const { key } = await createApiKey({ tenantId: 'default', scopes: ['handoffs:write'] })
+      const ticket = await openTicket()
+
+      const list = await (await listRoute(staffRequest(key, '/api/staff/handoffs?status=open'), { params: {} })).json()
+      expect(list.tickets.map((t: HandoffTicket) => t.id)).toEqual([ticket.id])
+
+      const claimed = await claimRoute(staffRequest(key, `/api/staff/handoffs/${ticket.id}/claim`, { agent: 'dana' }), { params: { id: ticket.id } })
+      expect((await claimed.json()).ticket.claimedBy).toBe('dana')
+
+      const replied = await replyRoute(staffRequest(key, `/api/staff/handoffs/${ticket.id}/reply`, { message: 'On it', agent: 'dana' }), { params: { id: ticket.id } })
+      expect(replied.status).toBe(200)
+      expect((await getThread('default', 'thread-1'))?.messages.at(-1)?.content).toBe('On it')
+    })
+
+    it('should let handoffs:read keys view tickets but not work them', async () => {
+      const { key } = await createApiKey({ tenantId: 'default', scopes: ['handoffs:read'] })
+      const ticket = await openTicket()
+
+      const list = await listRoute(staffRequest(key, '/api/staff/handoffs'), { params: {} })
+      const one = await getRoute(staffRequest(key, `/api/staff/handoffs/${ticket.id}`), { params: { id: ticket.id } })
+      const claimed = await claimRoute(staffRequest(key, `/api/staff/handoffs/${ticket.id}/claim`, { agent: 'dana' }), { params: { id: ticket.id } })
+
+      expect(list.status).toBe(200)
+      expect((await one.json()).ticket.id).toBe(ticket.id)
+      expect(claimed.status).toBe(403)
+    })
+
+    it('should reject keys without a handoffs scope', async () => {
+      const { key } = await createApiKey({ tenantId: 'default', scopes: ['chat:write'] })
+      const response = await listRoute(staffRequest(key, '/api/staff/handoffs'), { params: {} })
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should let threads:read keys poll a handed-off thread for staff replies', async () => {
+      const { key } = await createApiKey({ tenantId: 'default', scopes: ['threads:read'] })
+      const ticket = await openTicket()
+      await replyToHandoff('default', ticket.id, 'dana', 'On it')
+
+      const first = await (await threadRoute(staffRequest(key, '/api/chat/threads/thread-1'), { params: { id: 'thread-1' } })).json()
+      const second = await (await threadRoute(staffRequest(key, '/api/chat/threads/thread-1'), { params: { id: 'thread-1' } })).json()
+
+      expect(first.thread_id).toBe('thread-1')
+      expect(first.messages.map((m: { content: string }) => m.content)).toEqual(['I want to talk to a human', 'On it'])
+      expect(first.handoff).toMatchObject({ ticket_id: ticket.id, status: 'claimed', replies: [{ content: 'On it' }] })
+      expect(second.handoff.replies).toEqual([])
+    })
+
+    it('should hide threads from keys without threads:read and threads owned by a user', async () => {
+      const { key: chatKey } = await createApiKey({ tenantId: 'default', scopes: ['chat:write'] })
+      const { key: readKey } = await createApiKey({ tenantId: 'default', scopes: ['threads:read'] })
+      await appendMessages('default', 'thread-2', [{ role: 'user', content: 'Hi' }], undefined, 'user-1')
+
+      const forbidden = await threadRoute(staffRequest(chatKey, '/api/chat/threads/thread-1'), { params: { id: 'thread-1' } })
+      const owned = await threadRoute(staffRequest(readKey, '/api/chat/threads/thread-2'), { params: { id: 'thread-2' } })
+      const missing = await threadRoute(staffRequest(readKey, '/api/chat/threads/missing'), { params: { id: 'missing' } })
+
+      expect(forbidden.status).toBe(403)
+      expect(owned.status).toBe(404)
+      expect(missing.status).toBe(404)
+    })
+
+    it('should validate the status filter and reply body', async () => {
+      const { key } = await createApiKey({ tenantId: 'default', scopes: ['handoffs:write'] })
+      const ticket = await openTicket()
+
+      const badStatus = await listRoute(staffRequest(key, '/api/staff/handoffs?status=pending'), { params: {} })
+      const emptyReply = await replyRoute(staffRequest(key, `/api/staff/handoffs/${ticket.id}/reply`, { message: ' ' }), { params: { id: ticket.id } })
+
+      expect(badStatus.status).toBe(400)
+      expect(emptyReply.status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Knowledge Base Tests
+ * Tests for /lib/knowledge.ts and the documents in /knowledge
+ */
+
+import {
+  buildKnowledgeIndex,
+  formatKnowledgeContext,
+  knowledgeSources,
+  loadKnowledgeDocuments,
+  parseKnowledgeFile,
+  rankPassages,
+  searchKnowledge,
+  splitPassages,
+  tokenize,
+  KnowledgeDocument,
+} from '../../lib/knowledge'
+
+const documents: KnowledgeDocument[] = [
+  {
+    title: 'WiFi',
+    url: '/help/wifi',
+    content: '## Password\n\nThe WiFi password is in the house guide.\n\n## Outages\n\nRestart the router, then message your host.',
+  },
+  {
+    title: 'House Rules',
+    url: '/help/house-rules',
+    content: '## Quiet hours\n\nQuiet hours are 11pm to 7am.\n\n## Pets\n\nPets only in pet friendly listings.',
+  },
+  {
+    title: 'Payments',
+    url: 'https://help.bubbl.io/payments',
+    content: 'Pay by card once your booking is confirmed.',
+  },
+]
+
+const options = { limit: 3, minScore: 0.5 }
+
+describe('Knowledge Base', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, LOG_LEVEL: 'error' }
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  it('should tokenize without stopwords and fold plurals', () => {
+    expect(tokenize('What are the quiet hours for pets?')).toEqual(['quiet', 'hour', 'pet'])
+    expect(tokenize('Access the WiFi')).toEqual(['access', 'wifi'])
+  })
+
+  describe('parseKnowledgeFile', () => {
+    it('should read the title and url from markdown front matter', () => {
+      const [doc] = parseKnowledgeFile('rules.md', '---\ntitle: "House Rules"\nurl: /rules\n---\n\n# Rules\n\nBe nice.')
+      expect(doc).toMatchObject({ title: 'House Rules', url: '/rules' })
+      expect(doc.content).not.toContain('---')
+    })
+
+    it('should fall back to the first heading and the file name', () => {
+      expect(parseKnowledgeFile('parking.md', '# Parking\n\nStreet only.')[0])
+        .toMatchObject({ title: 'Parking', url: '/help/parking' })
+      expect(parseKnowledgeFile('parking.md', 'Street only.')[0].title).toBe('parking')
+    })
+
+    it('should read one or many JSON documents and skip invalid ones', () => {
+      expect(parseKnowledgeFile('faq.json', '{"title":"FAQ","content":"Hi"}')).toHaveLength(1)
+
+      const docs = parseKnowledgeFile('faq.json', '[{"title":"A","url":"/a","content":"x"},{"title":"B"}]')
+      expect(docs).toEqual([{ title: 'A', url: '/a', content: 'x' }])
+      expect(console.error).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return nothing for invalid JSON', () => {
+      expect(parseKnowledgeFile('faq.json', '{oops')).toEqual([])
+      expect(console.error).toHaveBeenCalled()
+    })
+  })
+
+  it('should split documents into passages at ## headings', () => {
+    const passages = splitPassages(documents[0])
+
+    expect(passages.map(passage => passage.heading)).toEqual(['Password', 'Outages'])
+    expect(passages[1].text).toBe('Restart the router, then message your host.')
+  })
+
+  it('should split long sections at paragraph boundaries', () => {
+    const paragraph = 'Bring a towel. '.repeat(40).trim()
+    const passages = splitPassages({ title: 'Long', url: '/long', content: `${paragraph}\n\n${paragraph}` })
+
+    expect(passages).toHaveLength(2)
+    expect(passages[0].text).toBe(paragraph)
+  })
+
+  describe('rankPassages', () => {
+    const index = buildKnowledgeIndex(documents)
+
+    it('should rank the most relevant passage first', () => {
+      const [best] = rankPassages(index, "What's the wifi password?", options)
+      expect(best).toMatchObject({ title: 'WiFi', heading: 'Password' })
+      expect(best.score).toBeGreaterThan(0)
+    })
+
+    it('should match section headings', () => {
+      expect(rankPassages(index, 'can I bring pets', options)[0].heading).toBe('Pets')
+    })
+
+    it('should return nothing for unrelated questions', () => {
+      expect(rankPassages(index, 'Where is Sundance?', options)).toEqual([])
+    })
+
+    it('should respect the passage limit', () => {
+      expect(rankPassages(index, 'wifi router password host', { limit: 1, minScore: 0 })).toHaveLength(1)
+    })
+  })
+
+  it('should list each source once with absolute urls', () => {
+    const index = buildKnowledgeIndex(documents)
+    const passages = rankPassages(index, 'wifi password router card', { limit: 5, minScore: 0 })
+
+    expect(knowledgeSources(passages, 'https://acme.com')).toEqual([
+      { title: 'WiFi', url: 'https://acme.com/help/wifi' },
+      { title: 'Payments', url: 'https://help.bubbl.io/payments' },
+    ])
+  })
+
+  it('should format passages as a prompt section', () => {
+    const [passage] = splitPassages(documents[0])
+
+    expect(formatKnowledgeContext([], 'https://acme.com')).toBe('')
+    expect(formatKnowledgeContext([passage], 'https://acme.com')).toContain(
+      '# KNOWLEDGE BASE'
+    )
+    expect(formatKnowledgeContext([passage], 'https://acme.com')).toContain(
+      '## WiFi - Password (https://acme.com/help/wifi)\nThe WiFi password is in the house guide.'
+    )
+  })
+
+  describe('knowledge directory', () => {
+    it('should load the bundled markdown and JSON documents', () => {
+      const titles = loadKnowledgeDocuments('knowledge').map(doc => doc.title)
+      expect(titles).toEqual(expect.arrayContaining(['House Rules', 'WiFi & Connectivity', 'Cancellations & Refunds']))
+    })
+
+    it('should treat a missing directory as empty', () => {
+      expect(loadKnowledgeDocuments('does-not-exist')).toEqual([])
+      expect(console.error).not.toHaveBeenCalled()
+    })
+
+    it('should answer toast topics from KNOWLEDGE_DIR', () => {
+      const [wifi] = searchKnowledge('How do I get the WiFi password?')
+      expect(wifi).toMatchObject({ title: 'WiFi & Connectivity', url: '/help/wifi' })
+
+      const [checkIn] = searchKnowledge('What time is check-in?')
+      expect(checkIn.title).toBe('Check-in & Check-out')
+    })
+
+    it('should return nothing when disabled', () => {
+      expect(searchKnowledge('wifi password', { enabled: false, maxPassages: 3, minScore: 1 })).toEqual([])
+    })
+  })
+})
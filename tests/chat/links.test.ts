@@ -0,0 +1,112 @@
+/**
+ * Reply Link Tests
+ * Tests for /lib/links.ts
+ */
+
+import { chatbotConfig } from '../../lib/config'
+import { checkLink, checkReplyLinks, createStreamLinkChecker, isKnownRoute } from '../../lib/links'
+
+const siteUrl = 'https://bubbl.io'
+
+describe('Reply Links', () => {
+  describe('isKnownRoute', () => {
+    it('should match exact routes and single-segment wildcards', () => {
+      expect(isKnownRoute('/listings')).toBe(true)
+      expect(isKnownRoute('/listings/')).toBe(true)
+      expect(isKnownRoute('/listings/sundance-mountain-home')).toBe(true)
+      expect(isKnownRoute('/help/wifi')).toBe(true)
+      expect(isKnownRoute('')).toBe(true)
+    })
+
+    it('should reject unknown and deeper paths', () => {
+      expect(isKnownRoute('/bookings/123')).toBe(false)
+      expect(isKnownRoute('/listings/a/edit')).toBe(false)
+      expect(isKnownRoute('/listingsx')).toBe(false)
+    })
+  })
+
+  describe('checkLink', () => {
+    it('should keep known routes on the site, with query and hash', () => {
+      expect(checkLink('https://bubbl.io/listings?event=sundance', siteUrl)).toEqual({ action: 'kept' })
+      expect(checkLink('https://bubbl.io/help/wifi#password', siteUrl)).toEqual({ action: 'kept' })
+    })
+
+    it('should rewrite relative links and protocol mismatches to the site URL', () => {
+      expect(checkLink('/events', siteUrl)).toEqual({ action: 'rewritten', reason: 'relative', href: 'https://bubbl.io/events' })
+      expect(checkLink('http://bubbl.io/events', siteUrl)).toEqual({ action: 'rewritten', reason: 'origin', href: 'https://bubbl.io/events' })
+    })
+
+    it('should strip off-site, unknown and non-http links', () => {
+      expect(checkLink('https://evil.example/listings', siteUrl)).toMatchObject({ action: 'stripped', reason: 'off_site' })
+      expect(checkLink('//evil.example/listings', siteUrl)).toMatchObject({ action: 'stripped', reason: 'invalid' })
+      expect(checkLink('https://bubbl.io/bookings/123', siteUrl)).toMatchObject({ action: 'stripped', reason: 'unknown_route' })
+      expect(checkLink('javascript:alert(1)', siteUrl)).toMatchObject({ action: 'stripped', reason: 'invalid' })
+      expect(checkLink('listings', siteUrl)).toMatchObject({ action: 'stripped', reason: 'invalid' })
+    })
+
+    it('should resolve routes under a site URL with a path', () => {
+      const site = 'https://bubbl.bubbleapps.io/version-test'
+
+      expect(checkLink('https://bubbl.bubbleapps.io/version-test/listings', site)).toEqual({ action: 'kept' })
+      expect(checkLink('/listings', site)).toMatchObject({ href: 'https://bubbl.bubbleapps.io/version-test/listings' })
+      expect(checkLink('https://bubbl.bubbleapps.io/listings', site)).toMatchObject({ action: 'stripped', reason: 'unknown_route' })
+    })
+  })
+
+  describe('checkReplyLinks', () => {
+    it('should leave replies with good links unchanged', () => {
+      const message = 'Jan 20-30! [Check Sundance spaces](https://bubbl.io/listings?event=sundance)'
+      expect(checkReplyLinks(message, siteUrl)).toEqual({ message, linkChanges: [] })
+    })
+
+    it('should rewrite and strip links and report each change', () => {
+      const { message, linkChanges } = checkReplyLinks(
+        'See [spaces](/listings), [your booking](https://bubbl.io/bookings/123 "Booking") or [a deal](https://deals.example/x).',
+        siteUrl
+      )
+
+      expect(message).toBe('See [spaces](https://bubbl.io/listings), your booking or a deal.')
+      expect(linkChanges).toEqual([
+        { text: 'spaces', url: '/listings', action: 'rewritten', reason: 'relative', href: 'https://bubbl.io/listings' },
+        { text: 'your booking', url: 'https://bubbl.io/bookings/123', action: 'stripped', reason: 'unknown_route', href: undefined },
+        { text: 'a deal', url: 'https://deals.example/x', action: 'stripped', reason: 'off_site', href: undefined },
+      ])
+    })
+
+    it('should check images and autolinks', () => {
+      const { message, linkChanges } = checkReplyLinks('![map](https://maps.example/x.png) Go to <https://evil.example> now', siteUrl)
+
+      expect(message).toBe('map Go to  now')
+      expect(linkChanges.map(change => change.reason)).toEqual(['off_site', 'off_site'])
+    })
+
+    it('should do nothing when disabled', () => {
+      const message = '[x](https://evil.example)'
+      expect(checkReplyLinks(message, siteUrl, { ...chatbotConfig.links, enabled: false }).message).toBe(message)
+    })
+  })
+
+  describe('createStreamLinkChecker', () => {
+    const stream = (chunks: string[]) => {
+      const checker = createStreamLinkChecker(siteUrl)
+      const sent = chunks.map(chunk => checker.push(chunk))
+      return [...sent, checker.flush()]
+    }
+
+    it('should pass plain text straight through', () => {
+      expect(stream(['Jan 20', '-30 in ', 'Park City!'])).toEqual(['Jan 20', '-30 in ', 'Park City!', ''])
+    })
+
+    it('should hold a link back until it is complete, then send it checked', () => {
+      const sent = stream(['See [your ', 'booking](https://bubbl.io/boo', 'kings/123) or [spaces](/list', 'ings) now'])
+
+      expect(sent).toEqual(['See ', '', 'your booking or ', '[spaces](https://bubbl.io/listings) now', ''])
+      expect(sent.join('')).toBe(checkReplyLinks('See [your booking](https://bubbl.io/bookings/123) or [spaces](/listings) now', siteUrl).message)
+    })
+
+    it('should hold autolinks and release unfinished brackets at the end', () => {
+      expect(stream(['Go to <https://deals', '.example/x> or [not a link'])).toEqual(['Go to ', ' or ', '[not a link'])
+      expect(stream(['[note', '] plain'])).toEqual(['', '[note] plain', ''])
+    })
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * OpenAPI Tests
+ * Tests for /lib/openapi.ts and the /api/openapi.json and GET /api/chat routes
+ */
+
+import { buildOpenApiSpec, exampleFromSchema, chatResponseSchema } from '../../lib/openapi'
+import { ERROR_RESPONSES } from '../../lib/errors'
+import { chatRequestSchema, parseWithSchema } from '../../lib/validation'
+import { GET as getSpec } from '../../app/api/openapi.json/route'
+import { GET as getHealth } from '../../app/api/chat/route'
+
+describe('OpenAPI', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.NEXT_PUBLIC_BASE_URL
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('buildOpenApiSpec', () => {
+    it('should describe the chat endpoint from the request schema', () => {
+      const spec = buildOpenApiSpec('https://api.example.com')
+      const chat = spec.paths['/api/chat'].post
+
+      expect(spec.openapi).toMatch(/^3\./)
+      expect(spec.servers).toEqual([{ url: 'https://api.example.com' }])
+      expect(chat.requestBody.content['application/json'].schema).toBe(chatRequestSchema.jsonSchema)
+      expect(chat.security).toEqual([{ ApiKeyAuth: [] }])
+      expect(spec.components.securitySchemes.ApiKeyAuth).toMatchObject({ in: 'header', name: 'X-API-Key' })
+    })
+
+    it('should list every error code from the catalog', () => {
+      const spec = buildOpenApiSpec()
+      expect(spec.components.schemas.ErrorCode.enum).toEqual(Object.keys(ERROR_RESPONSES))
+      expect(Object.keys(spec.paths['/api/chat'].post.responses)).toEqual(
+        expect.arrayContaining(['200', '400', '401', '429', '503', '504'])
+      )
+    })
+
+    it('should generate examples that pass the schema', () => {
+      const example = exampleFromSchema(chatRequestSchema.jsonSchema)
+      expect(parseWithSchema(chatRequestSchema, example).success).toBe(true)
+      expect(parseWithSchema(chatResponseSchema, exampleFromSchema(chatResponseSchema.jsonSchema)).success).toBe(true)
+    })
+  })
+
+  describe('routes', () => {
+    it('should serve the spec at /api/openapi.json', async () => {
+      const response = await getSpec(new Request('http://localhost:3000/api/openapi.json'))
+      const spec = await response.json()
+
+      expect(spec.servers[0].url).toBe('http://localhost:3000')
+      expect(spec.paths['/api/chat']).toBeDefined()
+    })
+
+    it('should report authentication in the health check', async () => {
+      process.env.REQUIRE_API_KEY = 'true'
+      const health = await (await getHealth()).json()
+      expect(health.authRequired).toBe(true)
+      expect(health.authentication).toEqual({ type: 'apiKey', header: 'X-API-Key' })
+
+      process.env.REQUIRE_API_KEY = 'false'
+      expect((await (await getHealth()).json()).authRequired).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Prompt Template Tests
+ * Tests for /lib/prompts.ts and tenant prompt selection in /lib/tenants.ts
+ */
+
+import { chatbotConfig } from '../../lib/config'
+import {
+  assignVariant,
+  getPromptTemplate,
+  hashBucket,
+  registerPromptTemplate,
+  selectPrompt,
+  PromptExperiment,
+  PromptSettings,
+} from '../../lib/prompts'
+import { buildTenantSystemPrompt, getDefaultTenant, selectTenantPrompt } from '../../lib/tenants'
+
+const experiment: PromptExperiment = {
+  id: 'test-experiment',
+  enabled: true,
+  assignBy: 'thread',
+  variants: [
+    { name: 'control', template: 'concierge@1', weight: 50 },
+    { name: 'treatment', template: 'concierge@2', weight: 50 },
+  ],
+}
+
+const settings: PromptSettings = { defaultTemplate: 'concierge@1', experiments: [experiment] }
+
+describe('Prompt Templates', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should register the config prompt as concierge@1', () => {
+    const template = getPromptTemplate('concierge@1')!
+    expect(template.render('https://acme.com', 'EVENTS')).toBe(chatbotConfig.systemPrompt('https://acme.com', 'EVENTS'))
+    expect(getPromptTemplate('concierge@2')!.render('https://acme.com', '')).toContain('# FIRST QUESTION')
+  })
+
+  it('should replace templates registered under the same id', () => {
+    registerPromptTemplate({ name: 'test', version: 1, description: 'a', render: () => 'A' })
+    registerPromptTemplate({ name: 'test', version: 1, description: 'b', render: () => 'B' })
+
+    expect(getPromptTemplate('test@1')!.render('', '')).toBe('B')
+  })
+
+  describe('selectPrompt', () => {
+    it('should use the default template without an enabled experiment', () => {
+      const selection = selectPrompt({ threadId: 't1' }, undefined, { ...settings, experiments: [] })
+      expect(selection).toMatchObject({ version: 'concierge@1' })
+      expect(selection.variant).toBeUndefined()
+    })
+
+    it('should assign a thread to the same variant every time', () => {
+      const first = selectPrompt({ threadId: 'thread-42' }, undefined, settings)
+      const again = selectPrompt({ threadId: 'thread-42' }, undefined, settings)
+
+      expect(first.experiment).toBe('test-experiment')
+      expect(again).toEqual(first)
+      expect(first.version).toBe(first.variant === 'control' ? 'concierge@1' : 'concierge@2')
+    })
+
+    it('should split threads between variants by weight', () => {
+      const variants = Array.from({ length: 400 }, (_, i) => selectPrompt({ threadId: `t${i}` }, undefined, settings).variant)
+      const control = variants.filter(variant => variant === 'control').length
+
+      expect(control).toBeGreaterThan(150)
+      expect(control).toBeLessThan(250)
+    })
+
+    it('should never assign a zero-weight variant', () => {
+      const rollout = { ...experiment, variants: [{ ...experiment.variants[0], weight: 0 }, experiment.variants[1]] }
+      const variants = Array.from({ length: 50 }, (_, i) => assignVariant(rollout, { threadId: `t${i}` })!.name)
+
+      expect(new Set(variants)).toEqual(new Set(['treatment']))
+    })
+
+    it('should assign by user id across threads when configured', () => {
+      const byUser = { ...settings, experiments: [{ ...experiment, assignBy: 'user' }] }
+      const variants = Array.from({ length: 20 }, (_, i) => selectPrompt({ threadId: `t${i}`, userId: 'user-1' }, undefined, byUser).variant)
+
+      expect(new Set(variants).size).toBe(1)
+    })
+
+    it('should prefer a pinned template over experiments', () => {
+      const selection = selectPrompt({ threadId: 't1' }, 'concierge@2', settings)
+      expect(selection).toMatchObject({ version: 'concierge@2' })
+      expect(selection.experiment).toBeUndefined()
+    })
+
+    it('should fall back to the default for unknown templates', () => {
+      expect(selectPrompt(undefined, 'concierge@99', settings).version).toBe('concierge@1')
+      expect(selectPrompt(undefined, undefined, { ...settings, defaultTemplate: 'missing@1' }).version).toBe('concierge@1')
+      expect(console.warn).toHaveBeenCalled()
+    })
+
+    it('should skip experiments without a subject', () => {
+      expect(selectPrompt(undefined, undefined, settings).experiment).toBeUndefined()
+    })
+
+    it('should assign by user when there is no thread id', () => {
+      const byUser = selectPrompt({ userId: 'user-1' }, undefined, settings)
+
+      expect(byUser.variant).toBe(assignVariant(experiment, { userId: 'user-1' })!.name)
+      expect(selectPrompt({}, undefined, settings).experiment).toBeUndefined()
+    })
+  })
+
+  it('should hash into stable buckets', () => {
+    expect(hashBucket('exp', 'thread:abc', 100)).toBe(hashBucket('exp', 'thread:abc', 100))
+    expect(hashBucket('exp', 'thread:abc', 100)).toBeLessThan(100)
+  })
+
+  describe('tenant prompts', () => {
+    it('should report custom system prompts as custom versions', () => {
+      const tenant = { ...getDefaultTenant(), id: 'globex', systemPrompt: 'Globex bot at {{siteUrl}}' }
+      const selection = selectTenantPrompt(tenant, { threadId: 't1' })
+
+      expect(selection.version).toBe('custom:globex')
+      expect(buildTenantSystemPrompt(tenant, 'https://globex.io', '', selection.template)).toBe('Globex bot at https://globex.io')
+    })
+
+    it('should render a pinned template with the persona', () => {
+      const tenant = { ...getDefaultTenant(), promptTemplate: 'concierge@2', persona: 'Be formal.' }
+      const selection = selectTenantPrompt(tenant, { threadId: 't1' })
+      const prompt = buildTenantSystemPrompt(tenant, 'https://acme.com', '', selection.template)
+
+      expect(selection.version).toBe('concierge@2')
+      expect(prompt).toContain('# FIRST QUESTION')
+      expect(prompt).toContain('# PERSONA\nBe formal.')
+    })
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * LLM Provider Tests
+ * Tests for /lib/providers.ts, /lib/mock-model.ts and provider pricing in /lib/monitoring.ts
+ */
+
+import { generateText } from 'ai'
+import { resolveModelChain, parseModelTargets, languageModel, registerProvider } from '../../lib/providers'
+import { createMockModel } from '../../lib/mock-model'
+import { calculateCost } from '../../lib/monitoring'
+import { getTenantModel, getDefaultTenant } from '../../lib/tenants'
+
+describe('LLM Providers', () => {
+  const originalEnv = process.env
+  const settings = getTenantModel(getDefaultTenant())
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, OPENAI_API_KEY: 'sk-test', LOG_LEVEL: 'error' }
+    delete process.env.LLM_PROVIDER
+    delete process.env.LLM_FALLBACKS
+    delete process.env.LOCAL_LLM_BASE_URL
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('resolveModelChain', () => {
+    it('should default to OpenAI with the configured model', () => {
+      expect(resolveModelChain(settings)).toEqual([{ provider: 'openai', model: settings.name }])
+    })
+
+    it('should append fallbacks from LLM_FALLBACKS', () => {
+      process.env.LLM_FALLBACKS = 'local:llama3, mock:mock-1'
+      process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1'
+
+      expect(resolveModelChain(settings)).toEqual([
+        { provider: 'openai', model: settings.name },
+        { provider: 'local', model: 'llama3' },
+        { provider: 'mock', model: 'mock-1' },
+      ])
+    })
+
+    it('should skip unconfigured and unknown providers', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      delete process.env.OPENAI_API_KEY
+      process.env.LLM_FALLBACKS = 'local:llama3,nope:model,mock:mock-1'
+
+      expect(resolveModelChain(settings)).toEqual([{ provider: 'mock', model: 'mock-1' }])
+      jest.restoreAllMocks()
+    })
+
+    it('should let tenants choose the provider and fallbacks', () => {
+      process.env.LLM_FALLBACKS = 'openai:gpt-4o-mini'
+      const chain = resolveModelChain({ ...settings, provider: 'mock', name: 'mock-1', fallbacks: [] })
+
+      expect(chain).toEqual([{ provider: 'mock', model: 'mock-1' }])
+    })
+
+    it('should parse provider:model entries', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      expect(parseModelTargets('openai:gpt-4o, bad, local:org/model:7b')).toEqual([
+        { provider: 'openai', model: 'gpt-4o' },
+        { provider: 'local', model: 'org/model:7b' },
+      ])
+      jest.restoreAllMocks()
+    })
+  })
+
+  describe('registerProvider', () => {
+    it('should make custom drivers available in the chain', () => {
+      registerProvider({ name: 'custom', isConfigured: () => true, languageModel: createMockModel })
+      process.env.LLM_PROVIDER = 'custom'
+
+      const [target] = resolveModelChain(settings)
+      expect(target.provider).toBe('custom')
+      expect(languageModel(target).modelId).toBe(settings.name)
+    })
+  })
+
+  describe('mock model', () => {
+    it('should reply deterministically without network access', async () => {
+      const first = await generateText({ model: createMockModel(), prompt: 'Hello' })
+      const second = await generateText({ model: createMockModel(), prompt: 'Hello' })
+
+      expect(first.text).toBe(second.text)
+      expect(first.usage.totalTokens).toBeGreaterThan(0)
+    })
+  })
+
+  describe('calculateCost', () => {
+    const usage = { promptTokens: 1000, completionTokens: 1000 }
+
+    it('should price OpenAI models', () => {
+      expect(calculateCost(usage, 'gpt-4o-mini', 'openai')).toBeCloseTo(0.00075)
+      expect(calculateCost(usage, 'gpt-3.5-turbo')).toBeCloseTo(0.002)
+    })
+
+    it('should not charge for local and mock providers', () => {
+      expect(calculateCost(usage, 'llama3', 'local')).toBe(0)
+      expect(calculateCost(usage, 'mock', 'mock')).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Resilience Tests
+ * Tests for /lib/resilience.ts
+ */
+
+import { CircuitBreaker, isRetryableError, retryDelay } from '../../lib/resilience'
+import { ERROR_RESPONSES } from '../../lib/errors'
+
+describe('Resilience', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('retryDelay', () => {
+    const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000 }
+
+    it('should grow exponentially with jitter', () => {
+      expect(retryDelay(1, policy, () => 0)).toBe(50)
+      expect(retryDelay(1, policy, () => 0.999)).toBe(100)
+      expect(retryDelay(3, policy, () => 0)).toBe(200)
+      expect(retryDelay(3, policy, () => 0.5)).toBe(300)
+    })
+
+    it('should cap the delay', () => {
+      expect(retryDelay(10, policy, () => 0.999)).toBeLessThanOrEqual(1000)
+    })
+  })
+
+  describe('isRetryableError', () => {
+    it('should retry upstream failures only', () => {
+      expect(isRetryableError(ERROR_RESPONSES.RATE_LIMIT)).toBe(true)
+      expect(isRetryableError(ERROR_RESPONSES.TIMEOUT)).toBe(true)
+      expect(isRetryableError(ERROR_RESPONSES.MODEL_ERROR)).toBe(true)
+      expect(isRetryableError({ ...ERROR_RESPONSES.MODEL_ERROR, retryable: false })).toBe(false)
+      expect(isRetryableError(ERROR_RESPONSES.UNKNOWN)).toBe(false)
+      expect(isRetryableError(ERROR_RESPONSES.VALIDATION_ERROR)).toBe(false)
+    })
+  })
+
+  describe('CircuitBreaker', () => {
+    let now: number
+    let breaker: CircuitBreaker
+
+    beforeEach(() => {
+      now = 0
+      breaker = new CircuitBreaker('mock:mock', { failureThreshold: 3, cooldownMs: 1000 }, () => now)
+    })
+
+    it('should open after consecutive failures', () => {
+      breaker.recordFailure()
+      breaker.recordFailure()
+      expect(breaker.allowRequest()).toBe(true)
+
+      breaker.recordFailure()
+      expect(breaker.status().state).toBe('open')
+      expect(breaker.allowRequest()).toBe(false)
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Circuit breaker opened'))
+    })
+
+    it('should reset the failure count on success', () => {
+      breaker.recordFailure()
+      breaker.recordFailure()
+      breaker.recordSuccess()
+      breaker.recordFailure()
+
+      expect(breaker.status()).toMatchObject({ state: 'closed', failures: 1 })
+    })
+
+    it('should let one probe through after the cooldown', () => {
+      for (let i = 0; i < 3; i++) breaker.recordFailure()
+      now = 1000
+
+      expect(breaker.allowRequest()).toBe(true)
+      expect(breaker.status().state).toBe('half_open')
+      expect(breaker.allowRequest()).toBe(false)
+    })
+
+    it('should close when the probe succeeds', () => {
+      for (let i = 0; i < 3; i++) breaker.recordFailure()
+      now = 1000
+      breaker.allowRequest()
+      breaker.recordSuccess()
+
+      expect(breaker.status()).toEqual({ target: 'mock:mock', state: 'closed', failures: 0, openedAt: undefined })
+      expect(breaker.allowRequest()).toBe(true)
+    })
+
+    it('should reopen when the probe fails', () => {
+      for (let i = 0; i < 3; i++) breaker.recordFailure()
+      now = 1000
+      breaker.allowRequest()
+      breaker.recordFailure()
+
+      expect(breaker.status()).toMatchObject({ state: 'open', openedAt: new Date(1000).toISOString() })
+      expect(breaker.allowRequest()).toBe(false)
+    })
+
+    it('should free a probe without counting ignored failures', () => {
+      for (let i = 0; i < 3; i++) breaker.recordFailure()
+      now = 1000
+      breaker.allowRequest()
+      breaker.recordIgnored()
+
+      expect(breaker.status()).toMatchObject({ state: 'half_open', failures: 3 })
+      expect(breaker.allowRequest()).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Streaming Response Tests
+ * Tests for /lib/sse.ts
+ */
+
+import {
+  wantsEventStream,
+  formatSseEvent,
+  createEventStream,
+  parseSseEvents,
+} from '../../lib/sse'
+
+describe('Server-Sent Events', () => {
+  describe('wantsEventStream', () => {
+    it('should stream when the body sets stream: true', () => {
+      const request = new Request('http://localhost/api/chat', { method: 'POST' })
+      expect(wantsEventStream(request, { stream: true })).toBe(true)
+    })
+
+    it('should stream when the client accepts text/event-stream', () => {
+      const request = new Request('http://localhost/api/chat', {
+        method: 'POST',
+        headers: { Accept: 'text/event-stream' },
+      })
+      expect(wantsEventStream(request, {})).toBe(true)
+    })
+
+    it('should not stream by default', () => {
+      const request = new Request('http://localhost/api/chat', { method: 'POST' })
+      expect(wantsEventStream(request, {})).toBe(false)
+      expect(wantsEventStream(request, { stream: 'yes' })).toBe(false)
+      expect(wantsEventStream(request, null)).toBe(false)
+    })
+  })
+
+  describe('createEventStream', () => {
+    it('should emit events in order and close', async () => {
+      const stream = createEventStream(async (send) => {
+        send('token', { text: 'Hel' })
+        send('token', { text: 'lo' })
+        send('done', { requestId: 'abc' })
+      })
+
+      const body = await new Response(stream).text()
+      expect(body).toBe(
+        formatSseEvent('token', { text: 'Hel' }) +
+        formatSseEvent('token', { text: 'lo' }) +
+        formatSseEvent('done', { requestId: 'abc' })
+      )
+    })
+
+    it('should close the stream even if the producer throws', async () => {
+      const stream = createEventStream(async (send) => {
+        send('error', { code: 'MODEL_ERROR' })
+        throw new Error('boom')
+      })
+
+      const body = await new Response(stream).text()
+      expect(body).toBe(formatSseEvent('error', { code: 'MODEL_ERROR' }))
+    })
+
+    it('should abort the producer signal and drop later events when the client cancels', async () => {
+      let release!: () => void
+      const released = new Promise<void>(resolve => { release = resolve })
+      let signal!: AbortSignal
+      let finished = false
+
+      const stream = createEventStream(async (send, cancelled) => {
+        signal = cancelled
+        send('token', { text: 'Hel' })
+        await released
+        send('token', { text: 'lo' })
+        finished = true
+      })
+
+      const reader = stream.getReader()
+      await reader.read()
+      await reader.cancel()
+      expect(signal.aborted).toBe(true)
+
+      release()
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(finished).toBe(true)
+    })
+  })
+
+  describe('parseSseEvents', () => {
+    it('should round-trip formatted events', () => {
+      const buffer = formatSseEvent('token', { text: 'a\nb' }) + formatSseEvent('done', { ok: true })
+      const { events, rest } = parseSseEvents(buffer)
+
+      expect(events).toEqual([
+        { event: 'token', data: { text: 'a\nb' } },
+        { event: 'done', data: { ok: true } },
+      ])
+      expect(rest).toBe('')
+    })
+
+    it('should keep incomplete events for the next chunk', () => {
+      const full = formatSseEvent('token', { text: 'hi' })
+      const { events, rest } = parseSseEvents(full.slice(0, 10))
+
+      expect(events).toEqual([])
+      expect(parseSseEvents(rest + full.slice(10)).events).toEqual([
+        { event: 'token', data: { text: 'hi' } },
+      ])
+    })
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Conversation Summary Tests
+ * Tests for /lib/summary.ts
+ */
+
+import { chatbotConfig } from '../../lib/config'
+import { createMockModel } from '../../lib/mock-model'
+import {
+  formatSummaryContext,
+  shouldSummarize,
+  signSummary,
+  summarizeTurns,
+  unsummarizedMessages,
+  verifySummary,
+} from '../../lib/summary'
+
+const conversation = ['1', '2', '3', '4', '5', '6', '7', '8']
+
+describe('Conversation Summary', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, LOG_LEVEL: 'error' }
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('unsummarizedMessages', () => {
+    it('should return the turns before the context window', () => {
+      expect(unsummarizedMessages(conversation, undefined, 5)).toEqual(['1', '2', '3'])
+    })
+
+    it('should skip turns already in the summary', () => {
+      expect(unsummarizedMessages(conversation, { text: 'x', messageCount: 2 }, 5)).toEqual(['3'])
+      expect(unsummarizedMessages(conversation, { text: 'x', messageCount: 3 }, 5)).toEqual([])
+    })
+
+    it('should return nothing while the conversation fits in the window', () => {
+      expect(unsummarizedMessages(conversation.slice(0, 4), undefined, 5)).toEqual([])
+    })
+  })
+
+  it('should batch updates until enough turns have left the window', () => {
+    const settings = { ...chatbotConfig.summary, minMessages: 2 }
+
+    expect(shouldSummarize(['1'], settings)).toBe(false)
+    expect(shouldSummarize(['1', '2'], settings)).toBe(true)
+    expect(shouldSummarize(['1', '2'], { ...settings, enabled: false })).toBe(false)
+  })
+
+  describe('summarizeTurns', () => {
+    it('should send the previous summary and new turns to the model', async () => {
+      const model = createMockModel('mock', { script: { default: 'Summary of: {{message}}' } })
+      const { text, usage } = await summarizeTurns(
+        'Guest is going to Sundance.',
+        [
+          { role: 'user', content: 'We are 4 people' },
+          { role: 'assistant', content: 'Got it!' },
+        ],
+        model
+      )
+
+      expect(text).toContain('Summary so far:\nGuest is going to Sundance.')
+      expect(text).toContain('Guest: We are 4 people\nAssistant: Got it!')
+      expect(usage.totalTokens).toBeGreaterThan(0)
+    })
+
+    it('should keep the previous summary when the model returns nothing', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const model = createMockModel('mock', { script: { default: '  ' } })
+
+      const { text } = await summarizeTurns('Budget $100/night.', [{ role: 'user', content: 'ok' }], model)
+      expect(text).toBe('Budget $100/night.')
+      jest.restoreAllMocks()
+    })
+
+    it('should reject when the model fails', async () => {
+      const model = createMockModel('mock', { failure: 'error' })
+      await expect(summarizeTurns(undefined, [{ role: 'user', content: 'hi' }], model)).rejects.toThrow('Mock model error')
+    })
+  })
+
+  it('should format the summary as a prompt section', () => {
+    expect(formatSummaryContext(undefined)).toBe('')
+    expect(formatSummaryContext({ text: 'Guest has a dog.', messageCount: 4 })).toContain('# CONVERSATION SO FAR')
+    expect(formatSummaryContext({ text: 'Guest has a dog.', messageCount: 4 })).toContain('Guest has a dog.')
+  })
+  it('should only verify summaries signed with the same secret', () => {
+    process.env.SUMMARY_SIGNING_SECRET = 'secret-one'
+    const signature = signSummary('Guest has a dog.')
+
+    expect(verifySummary('Guest has a dog.', signature)).toBe(true)
+    expect(verifySummary('Guest has a cat.', signature)).toBe(false)
+    expect(verifySummary('Guest has a dog.', undefined)).toBe(false)
+    expect(verifySummary('Guest has a dog.', 'not-a-signature')).toBe(false)
+
+    process.env.SUMMARY_SIGNING_SECRET = 'secret-two'
+    expect(verifySummary('Guest has a dog.', signature)).toBe(false)
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Conversation Thread Tests
+ * Tests for /lib/storage.ts and /lib/threads.ts
+ */
+
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { MemoryStore, FileStore } from '../../lib/storage'
+import {
+  appendMessages,
+  getContextMessages,
+  getThread,
+  isThreadOwner,
+  setThreadStore,
+  Thread,
+} from '../../lib/threads'
+
+describe('Conversation Threads', () => {
+  describe('MemoryStore', () => {
+    it('should return null for missing keys', async () => {
+      const store = new MemoryStore<{ value: number }>()
+      expect(await store.get('missing')).toBeNull()
+    })
+
+    it('should not let callers mutate stored values', async () => {
+      const store = new MemoryStore<{ items: string[] }>()
+      const value = { items: ['a'] }
+      await store.set('key', value)
+      value.items.push('b')
+
+      const loaded = await store.get('key')
+      loaded!.items.push('c')
+
+      expect((await store.get('key'))!.items).toEqual(['a'])
+    })
+  })
+
+  describe('FileStore', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'bubbl-store-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should persist values across store instances', async () => {
+      await new FileStore<{ value: number }>(dir).set('thread-1', { value: 42 })
+
+      const reloaded = new FileStore<{ value: number }>(dir)
+      expect(await reloaded.get('thread-1')).toEqual({ value: 42 })
+      expect(await reloaded.list()).toEqual([{ value: 42 }])
+    })
+
+    it('should keep path-like keys inside the store directory', async () => {
+      const store = new FileStore<{ value: number }>(path.join(dir, 'threads'))
+      await store.set('../escape', { value: 1 })
+
+      expect(await new FileStore(dir).list()).toEqual([])
+      expect(await store.get('../escape')).toEqual({ value: 1 })
+    })
+
+    it('should report whether a delete removed anything', async () => {
+      const store = new FileStore<{ value: number }>(dir)
+      await store.set('key', { value: 1 })
+
+      expect(await store.delete('key')).toBe(true)
+      expect(await store.delete('key')).toBe(false)
+      expect(await store.get('key')).toBeNull()
+    })
+
+    it('should not lose concurrent updates to the same key', async () => {
+      const store = new FileStore<{ value: number }>(dir)
+      await Promise.all(Array.from({ length: 10 }, () =>
+        store.update('counter', current => ({ value: (current?.value ?? 0) + 1 }))
+      ))
+
+      expect(await store.get('counter')).toEqual({ value: 10 })
+    })
+  })
+
+  describe('threads', () => {
+    beforeEach(() => {
+      setThreadStore(new MemoryStore<Thread>())
+    })
+
+    afterAll(() => {
+      setThreadStore(null)
+    })
+
+    it('should create a thread on first append', async () => {
+      await appendMessages('tenant-a', 'thread-1', [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hey!' },
+      ])
+
+      const thread = await getThread('tenant-a', 'thread-1')
+      expect(thread?.messages.map(m => m.content)).toEqual(['Hi', 'Hey!'])
+      expect(thread?.createdAt).toBeDefined()
+    })
+
+    it('should append turns in order', async () => {
+      await appendMessages('tenant-a', 'thread-1', [{ role: 'user', content: 'one' }])
+      await appendMessages('tenant-a', 'thread-1', [{ role: 'assistant', content: 'two' }])
+
+      const thread = await getThread('tenant-a', 'thread-1')
+      expect(thread?.messages.map(m => m.role)).toEqual(['user', 'assistant'])
+    })
+
+    it('should keep threads separate per tenant', async () => {
+      await appendMessages('tenant-a', 'thread-1', [{ role: 'user', content: 'secret' }])
+
+      expect(await getThread('tenant-b', 'thread-1')).toBeNull()
+      expect((await getThread('tenant-a', 'thread-1'))?.tenantId).toBe('tenant-a')
+    })
+
+    it('should limit context to the most recent turns', async () => {
+      const thread = await appendMessages('tenant-a', 'thread-1', [
+        { role: 'user', content: '1' },
+        { role: 'assistant', content: '2' },
+        { role: 'user', content: '3' },
+      ])
+
+      expect(getContextMessages(thread, 2)).toEqual([
+        { role: 'assistant', content: '2' },
+        { role: 'user', content: '3' },
+      ])
+      expect(getContextMessages(thread, 0)).toEqual([])
+    })
+
+    it('should store the summary and keep its count aligned when old turns are dropped', async () => {
+      const turns = Array.from({ length: 199 }, (_, i) => ({ role: 'user' as const, content: String(i) }))
+      await appendMessages('tenant-a', 'thread-1', turns, { text: 'Going to Sundance', messageCount: 190 })
+
+      const thread = await appendMessages('tenant-a', 'thread-1', [
+        { role: 'user', content: 'a' },
+        { role: 'assistant', content: 'b' },
+        { role: 'user', content: 'c' },
+      ])
+
+      expect(thread.messages).toHaveLength(200)
+      expect(thread.summary).toEqual({ text: 'Going to Sundance', messageCount: 188 })
+      expect(thread.messages[188].content).toBe('190')
+    })
+
+    it('should record the owner when the thread is created and only let them continue it', async () => {
+      await appendMessages('tenant-a', 'thread-1', [{ role: 'user', content: 'Hi' }], undefined, 'user-1')
+      const thread = await appendMessages('tenant-a', 'thread-1', [{ role: 'user', content: 'Hi' }], undefined, 'user-2')
+
+      expect(thread.userId).toBe('user-1')
+      expect(isThreadOwner(thread, 'user-1')).toBe(true)
+      expect(isThreadOwner(thread, 'user-2')).toBe(false)
+      expect(isThreadOwner(thread, undefined)).toBe(false)
+      expect(isThreadOwner(await appendMessages('tenant-a', 'thread-2', []), undefined)).toBe(true)
+    })
+  })
+})
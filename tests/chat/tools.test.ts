@@ -0,0 +1,79 @@
+/**
+ * Tool Calling Tests
+ * Tests for /lib/tools.ts and /lib/listings.ts
+ */
+
+import { createChatTools } from '../../lib/tools'
+import { LISTINGS, searchListings } from '../../lib/listings'
+
+const ctx = { requestId: 'req-tools', tenantId: 'default', siteUrl: 'https://bubbl.io' }
+
+async function callTool(name: string, args: unknown) {
+  const tool = createChatTools(ctx)[name]
+  const validated = await (tool.parameters as any).validate(args)
+  if (!validated.success) throw validated.error
+  return tool.execute!(validated.value, { abortSignal: undefined } as any)
+}
+
+describe('Chat Tools', () => {
+  let consoleLog: jest.SpyInstance
+
+  beforeEach(() => {
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('searchListings', () => {
+    it('should filter by event, price and beds, cheapest first', () => {
+      const results = searchListings({ event: 'Sundance', maxPrice: 150, beds: 3 })
+
+      expect(results.map(listing => listing.pricePerNight)).toEqual([80, 120, 150])
+      expect(results.every(listing => listing.beds >= 3)).toBe(true)
+    })
+
+    it('should match cities case-insensitively', () => {
+      expect(searchListings({ city: 'park city' })).toHaveLength(LISTINGS.length)
+      expect(searchListings({ city: 'Austin' })).toEqual([])
+    })
+  })
+
+  describe('createChatTools', () => {
+    it('should return real listings with links on the site', async () => {
+      const result: any = await callTool('searchListings', { event: 'sundance', maxPrice: 100 })
+
+      expect(result.total).toBe(2)
+      expect(result.listings[0]).toMatchObject({
+        title: 'Budget Bunkhouse',
+        url: 'https://bubbl.io/listings/sundance-budget-bunkhouse',
+      })
+    })
+
+    it('should look up events from the catalog', async () => {
+      const event: any = await callTool('getEvent', { slug: 'sundance' })
+      const missing: any = await callTool('getEvent', { slug: 'coachella' })
+      const upcoming: any = await callTool('listUpcomingEvents', {})
+
+      expect(event).toMatchObject({ name: 'Sundance Film Festival', url: 'https://bubbl.io/listings?event=sundance' })
+      expect(missing.error).toContain('coachella')
+      expect(upcoming.events.map((e: any) => e.slug)).toEqual(['sundance', 'sxsw'])
+    })
+
+    it('should reject invalid arguments with field-level reasons', async () => {
+      await expect(callTool('searchListings', { maxPrice: 'cheap' })).rejects.toThrow('maxPrice')
+      await expect(callTool('getEvent', {})).rejects.toThrow('slug')
+    })
+
+    it('should log calls and results with the request id', async () => {
+      await callTool('searchListings', { beds: 5 })
+
+      const lines = consoleLog.mock.calls.map(([line]) => line).join('\n')
+      expect(lines).toContain('Tool call')
+      expect(lines).toContain('Tool result')
+      expect(lines).toContain('req-tools')
+      expect(lines).toContain('sundance-budget-bunkhouse')
+    })
+  })
+})
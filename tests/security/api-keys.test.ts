@@ -0,0 +1,247 @@
+/**
+ * API Key Lifecycle Tests
+ * Tests for /lib/api-keys.ts
+ */
+
+import {
+  authenticateApiKey,
+  createApiKey,
+  listApiKeys,
+  rotateApiKey,
+  revokeApiKey,
+  setApiKeyStore,
+  toPublicKeyRecord,
+  hasScope,
+} from '../../lib/api-keys'
+import { hashApiKey } from '../../lib/api-auth'
+import { MemoryStore } from '../../lib/storage'
+import { GET as listKeysRoute, POST as createKeyRoute } from '../../app/api/admin/keys/route'
+import { DELETE as revokeKeyRoute } from '../../app/api/admin/keys/[id]/route'
+import { GET as budgetRoute } from '../../app/api/budget/route'
+
+describe('API Key Lifecycle', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      BUBBL_TENANTS: JSON.stringify([{ id: 'acme', apiKeys: [`sha256:${hashApiKey('sk_bubbl_acme_static')}`] }]),
+      BUBBL_ADMIN_KEYS: 'sk_bubbl_admin_test',
+      LOG_LEVEL: 'error',
+    }
+    delete process.env.BUBBL_TENANTS_FILE
+    setApiKeyStore(new MemoryStore())
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+    setApiKeyStore(null)
+  })
+
+  describe('createApiKey', () => {
+    it('should authenticate a created key with its tenant and scopes', async () => {
+      const { key, record } = await createApiKey({ tenantId: 'acme', scopes: ['chat:write'] })
+
+      const identity = await authenticateApiKey(key)
+      expect(identity?.tenant.id).toBe('acme')
+      expect(identity?.scopes).toEqual(['chat:write'])
+      expect(identity?.keyId).toBe(record.id)
+    })
+
+    it('should only store the hash of the key', async () => {
+      const { key, record } = await createApiKey({ tenantId: 'acme', scopes: ['chat:write'] })
+
+      expect(JSON.stringify(record)).not.toContain(key)
+      expect(record.hash).toBe(hashApiKey(key))
+      expect(toPublicKeyRecord(record)).not.toHaveProperty('hash')
+    })
+
+    it('should reject a key with the right prefix but wrong secret', async () => {
+      const { key } = await createApiKey({ tenantId: 'acme', scopes: ['chat:write'] })
+      const tampered = key.slice(0, -1) + (key.endsWith('a') ? 'b' : 'a')
+
+      expect(await authenticateApiKey(tampered)).toBeNull()
+    })
+
+    it('should list keys per tenant', async () => {
+      await createApiKey({ tenantId: 'acme', scopes: ['chat:write'] })
+      await createApiKey({ tenantId: 'default', scopes: ['admin'] })
+
+      expect(await listApiKeys('acme')).toHaveLength(1)
+      expect(await listApiKeys()).toHaveLength(2)
+    })
+  })
+
+  describe('expiry and revocation', () => {
+    it('should reject expired keys', async () => {
+      const { key } = await createApiKey({
+        tenantId: 'acme',
+        scopes: ['chat:write'],
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      })
+
+      expect(await authenticateApiKey(key)).toBeNull()
+    })
+
+    it('should reject revoked keys', async () => {
+      const { key, record } = await createApiKey({ tenantId: 'acme', scopes: ['chat:write'] })
+      await revokeApiKey(record.id)
+
+      expect(await authenticateApiKey(key)).toBeNull()
+      expect(await revokeApiKey('sk_bubbl_missing')).toBeNull()
+    })
+  })
+
+  describe('rotateApiKey', () => {
+    it('should keep the old key valid during the overlap window', async () => {
+      const { key: oldKey, record } = await createApiKey({ tenantId: 'acme', scopes: ['chat:write'] })
+      const rotated = await rotateApiKey(record.id, 3600)
+
+      expect(rotated).not.toBeNull()
+      expect(rotated!.previous.rotatedTo).toBe(rotated!.record.id)
+      expect(await authenticateApiKey(oldKey)).not.toBeNull()
+      expect((await authenticateApiKey(rotated!.key))?.tenant.id).toBe('acme')
+    })
+
+    it('should expire the old key immediately with no overlap', async () => {
+      const { key: oldKey, record } = await createApiKey({ tenantId: 'acme', scopes: ['chat:write'] })
+      await rotateApiKey(record.id, 0)
+
+      expect(await authenticateApiKey(oldKey)).toBeNull()
+    })
+
+    it('should not rotate revoked keys', async () => {
+      const { record } = await createApiKey({ tenantId: 'acme', scopes: ['chat:write'] })
+      await revokeApiKey(record.id)
+
+      expect(await rotateApiKey(record.id, 60)).toBeNull()
+    })
+  })
+
+  describe('static keys', () => {
+    it('should accept hashed tenant keys from configuration', async () => {
+      const identity = await authenticateApiKey('sk_bubbl_acme_static')
+      expect(identity?.tenant.id).toBe('acme')
+      expect(identity?.scopes).toEqual(['chat:write'])
+    })
+
+    it('should give BUBBL_ADMIN_KEYS the admin scope', async () => {
+      const identity = await authenticateApiKey('sk_bubbl_admin_test')
+      expect(hasScope(identity!.scopes, 'admin')).toBe(true)
+      expect(hasScope(identity!.scopes, 'threads:read')).toBe(true)
+    })
+
+    it('should not let chat keys act as admin', async () => {
+      expect(hasScope(['chat:write'], 'admin')).toBe(false)
+    })
+
+    it('should let handoffs:write imply handoffs:read but not the reverse', () => {
+      expect(hasScope(['handoffs:write'], 'handoffs:read')).toBe(true)
+      expect(hasScope(['handoffs:read'], 'handoffs:write')).toBe(false)
+    })
+  })
+
+  describe('admin endpoints', () => {
+    const createRequest = (apiKey: string, body: unknown) =>
+      new Request('http://localhost/api/admin/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: JSON.stringify(body),
+      })
+
+    it('should create a key with an admin key', async () => {
+      const response = await createKeyRoute(createRequest('sk_bubbl_admin_test', { tenant_id: 'acme' }), { params: {} })
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.key).toMatch(/^sk_bubbl_/)
+      expect(data.record.scopes).toEqual(['chat:write'])
+      expect(data.record.hash).toBeUndefined()
+    })
+
+    it('should reject keys without the admin scope', async () => {
+      const response = await createKeyRoute(createRequest('sk_bubbl_acme_static', { tenant_id: 'acme' }), { params: {} })
+
+      expect(response.status).toBe(403)
+      expect((await response.json()).code).toBe('AUTH_ERROR')
+    })
+
+    it('should let BUBBL_ADMIN_KEYS grant admin for any tenant', async () => {
+      const response = await createKeyRoute(createRequest('sk_bubbl_admin_test', { tenant_id: 'acme', scopes: ['admin'] }), { params: {} })
+
+      expect(response.status).toBe(201)
+      expect((await response.json()).record).toMatchObject({ tenantId: 'acme', scopes: ['admin'] })
+    })
+
+    it('should reject unknown tenants and scopes', async () => {
+      const unknownTenant = await createKeyRoute(createRequest('sk_bubbl_admin_test', { tenant_id: 'nope' }), { params: {} })
+      const badScope = await createKeyRoute(createRequest('sk_bubbl_admin_test', { scopes: ['root'] }), { params: {} })
+
+      expect(unknownTenant.status).toBe(400)
+      expect(badScope.status).toBe(400)
+    })
+  })
+
+  describe('tenant admin keys', () => {
+    const adminRequest = (apiKey: string, url: string, init: RequestInit = {}) =>
+      new Request(`http://localhost${url}`, { ...init, headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey } })
+
+    let acmeAdmin: string
+    let otherKeyId: string
+
+    beforeEach(async () => {
+      acmeAdmin = (await createApiKey({ tenantId: 'acme', scopes: ['admin'] })).key
+      otherKeyId = (await createApiKey({ tenantId: 'default', scopes: ['chat:write'] })).record.id
+    })
+
+    it('should create keys for their own tenant by default', async () => {
+      const response = await createKeyRoute(adminRequest(acmeAdmin, '/api/admin/keys', { method: 'POST', body: '{}' }), { params: {} })
+
+      expect(response.status).toBe(201)
+      expect((await response.json()).record.tenantId).toBe('acme')
+    })
+
+    it('should not create keys for other tenants or grant admin', async () => {
+      const otherTenant = await createKeyRoute(
+        adminRequest(acmeAdmin, '/api/admin/keys', { method: 'POST', body: JSON.stringify({ tenant_id: 'default' }) }),
+        { params: {} }
+      )
+      const moreAdmin = await createKeyRoute(
+        adminRequest(acmeAdmin, '/api/admin/keys', { method: 'POST', body: JSON.stringify({ scopes: ['admin'] }) }),
+        { params: {} }
+      )
+
+      expect(otherTenant.status).toBe(403)
+      expect(moreAdmin.status).toBe(400)
+      expect((await moreAdmin.json()).errors[0].path).toBe('scopes[0]')
+    })
+
+    it('should only list and revoke their own tenant\'s keys', async () => {
+      const list = await (await listKeysRoute(adminRequest(acmeAdmin, '/api/admin/keys'), { params: {} })).json()
+      const otherList = await listKeysRoute(adminRequest(acmeAdmin, '/api/admin/keys?tenant_id=default'), { params: {} })
+      const revoke = await revokeKeyRoute(adminRequest(acmeAdmin, `/api/admin/keys/${otherKeyId}`, { method: 'DELETE' }), { params: { id: otherKeyId } })
+
+      expect(list.keys.map((key: { tenantId: string }) => key.tenantId)).toEqual(['acme'])
+      expect(otherList.status).toBe(403)
+      expect(revoke.status).toBe(404)
+      expect((await listApiKeys('default'))[0].revokedAt).toBeUndefined()
+    })
+
+    it('should not read other tenants\' or users\' budgets', async () => {
+      const own = await budgetRoute(adminRequest(acmeAdmin, '/api/budget?tenant_id=acme'), { params: {} })
+      const otherTenant = await budgetRoute(adminRequest(acmeAdmin, '/api/budget?tenant_id=default'), { params: {} })
+      const user = await budgetRoute(adminRequest(acmeAdmin, '/api/budget?user_id=user-1'), { params: {} })
+
+      expect((await own.json()).subject).toEqual({ type: 'tenant', id: 'acme' })
+      expect(otherTenant.status).toBe(404)
+      expect(user.status).toBe(403)
+    })
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Spending Budget Tests
+ * Tests for /lib/budgets.ts
+ */
+
+import {
+  budgetSubject,
+  getBudgetRule,
+  getBudgetStatus,
+  recordSpend,
+  setBudgetStore,
+  BudgetSubject,
+} from '../../lib/budgets'
+import { MemoryStore } from '../../lib/storage'
+import { getDefaultTenant } from '../../lib/tenants'
+
+describe('Budgets', () => {
+  const subject: BudgetSubject = { type: 'tenant', id: 'acme' }
+  const rule = { dailyUsd: 1, monthlyUsd: 10 }
+  const now = new Date('2025-01-20T12:00:00Z')
+
+  beforeEach(() => {
+    setBudgetStore(new MemoryStore())
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    setBudgetStore(null)
+  })
+
+  describe('budgetSubject', () => {
+    it('should charge API keys to their tenant and sessions to the user', () => {
+      const tenant = { ...getDefaultTenant(), id: 'acme' }
+
+      expect(budgetSubject({ apiKey: 'sk_bubbl_abcd1234xyz', tenant })).toEqual({ type: 'tenant', id: 'acme' })
+      expect(budgetSubject({ apiKey: 'sk_bubbl_efgh5678xyz', tenant })).toEqual({ type: 'tenant', id: 'acme' })
+      expect(budgetSubject({ userId: 'user-1', tenant })).toEqual({ type: 'user', id: 'user-1' })
+      expect(budgetSubject({ tenant })).toBeNull()
+    })
+
+    it('should apply tenant budget overrides to tenants only', () => {
+      const tenant = { ...getDefaultTenant(), budget: { dailyUsd: 2 } }
+      expect(getBudgetRule(subject, tenant).dailyUsd).toBe(2)
+      expect(getBudgetRule({ type: 'user', id: 'u' }, tenant).dailyUsd).not.toBe(2)
+    })
+  })
+
+  describe('spend tracking', () => {
+    it('should accumulate spend in daily and monthly windows', async () => {
+      await recordSpend(subject, rule, 0.25, now)
+      await recordSpend(subject, rule, 0.25, now)
+
+      const status = await getBudgetStatus(subject, rule, now)
+      expect(status.daily).toMatchObject({ period: '2025-01-20', spentUsd: 0.5, remainingUsd: 0.5, requests: 2 })
+      expect(status.daily.resetsAt).toBe('2025-01-21T00:00:00.000Z')
+      expect(status.monthly).toMatchObject({ period: '2025-01', spentUsd: 0.5, limitUsd: 10 })
+      expect(status.monthly.resetsAt).toBe('2025-02-01T00:00:00.000Z')
+      expect(status.exceeded).toBe(false)
+    })
+
+    it('should start a new daily window but keep the monthly total', async () => {
+      await recordSpend(subject, rule, 0.9, now)
+
+      const nextDay = await getBudgetStatus(subject, rule, new Date('2025-01-21T00:00:01Z'))
+      expect(nextDay.daily.spentUsd).toBe(0)
+      expect(nextDay.monthly.spentUsd).toBe(0.9)
+    })
+
+    it('should keep subjects separate', async () => {
+      await recordSpend(subject, rule, 0.5, now)
+
+      const other = await getBudgetStatus({ type: 'user', id: 'acme' }, rule, now)
+      expect(other.daily.spentUsd).toBe(0)
+    })
+
+    it('should not lose spend recorded concurrently', async () => {
+      await Promise.all(Array.from({ length: 10 }, () => recordSpend(subject, rule, 0.01, now)))
+
+      const status = await getBudgetStatus(subject, rule, now)
+      expect(status.daily.requests).toBe(10)
+      expect(status.daily.spentUsd).toBeCloseTo(0.1)
+    })
+  })
+
+  describe('limits', () => {
+    it('should warn once when crossing the soft limit', async () => {
+      await recordSpend(subject, rule, 0.85, now)
+      await recordSpend(subject, rule, 0.05, now)
+
+      const status = await getBudgetStatus(subject, rule, now)
+      expect(status.softLimitReached).toBe(true)
+      expect(status.exceeded).toBe(false)
+      expect(console.warn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should mark the budget exceeded at the hard limit', async () => {
+      await recordSpend(subject, rule, 1, now)
+
+      expect((await getBudgetStatus(subject, rule, now)).exceeded).toBe(true)
+    })
+
+    it('should treat a zero limit as unlimited', async () => {
+      const unlimited = { dailyUsd: 0, monthlyUsd: 0 }
+      await recordSpend(subject, unlimited, 500, now)
+
+      const status = await getBudgetStatus(subject, unlimited, now)
+      expect(status.exceeded).toBe(false)
+      expect(status.daily.limitUsd).toBeNull()
+      expect(status.daily.remainingUsd).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * CORS Tests
+ * Tests for /lib/cors.ts
+ */
+
+import {
+  corsHeaders,
+  createPreflightHandler,
+  getAllowedOrigins,
+  getPreflightOrigins,
+  isOriginAllowed,
+  CorsOptions,
+} from '../../lib/cors'
+import { getDefaultTenant } from '../../lib/tenants'
+
+describe('CORS', () => {
+  const originalEnv = process.env
+  const options: CorsOptions = { methods: 'POST, OPTIONS', allowHeaders: 'Content-Type, X-API-Key' }
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      NODE_ENV: 'production',
+      ALLOWED_ORIGINS: 'https://bubbl.io, https://*.bubbleapps.io/',
+      BUBBL_TENANTS: JSON.stringify([{ id: 'acme', apiKeys: ['sk_bubbl_acme'], allowedOrigins: ['https://acme.com'] }]),
+    }
+    delete process.env.BUBBL_TENANTS_FILE
+    delete process.env.CORS_ALLOW_CREDENTIALS
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('isOriginAllowed', () => {
+    it('should match exact origins', () => {
+      expect(isOriginAllowed('https://bubbl.io', getAllowedOrigins())).toBe(true)
+      expect(isOriginAllowed('https://BUBBL.io/', getAllowedOrigins())).toBe(true)
+      expect(isOriginAllowed('http://bubbl.io', getAllowedOrigins())).toBe(false)
+      expect(isOriginAllowed('https://bubbl.io.evil.com', getAllowedOrigins())).toBe(false)
+    })
+
+    it('should match subdomain wildcards', () => {
+      expect(isOriginAllowed('https://myapp.bubbleapps.io', getAllowedOrigins())).toBe(true)
+      expect(isOriginAllowed('https://bubbleapps.io', getAllowedOrigins())).toBe(false)
+      expect(isOriginAllowed('https://evilbubbleapps.io', getAllowedOrigins())).toBe(false)
+      expect(isOriginAllowed('http://myapp.bubbleapps.io', getAllowedOrigins())).toBe(false)
+    })
+
+    it('should only allow unlisted origins outside production when nothing is configured', () => {
+      expect(isOriginAllowed('https://anything.com', [])).toBe(false)
+
+      process.env = { ...process.env, NODE_ENV: 'development' }
+      expect(isOriginAllowed('https://anything.com', [])).toBe(true)
+    })
+
+    it('should use the tenant allowlist instead of ALLOWED_ORIGINS', () => {
+      const tenant = { ...getDefaultTenant(), allowedOrigins: ['https://acme.com'] }
+
+      expect(isOriginAllowed('https://acme.com', getAllowedOrigins(tenant))).toBe(true)
+      expect(isOriginAllowed('https://bubbl.io', getAllowedOrigins(tenant))).toBe(false)
+      expect(getPreflightOrigins()).toEqual(expect.arrayContaining(['https://bubbl.io', 'https://acme.com']))
+    })
+  })
+
+  describe('corsHeaders', () => {
+    it('should echo the origin and vary on it', () => {
+      const headers = corsHeaders('https://bubbl.io', options)
+
+      expect(headers['Access-Control-Allow-Origin']).toBe('https://bubbl.io')
+      expect(headers['Vary']).toBe('Origin')
+      expect(headers['Access-Control-Allow-Credentials']).toBeUndefined()
+    })
+
+    it('should only send Vary for disallowed origins', () => {
+      expect(corsHeaders(null, options)).toEqual({ 'Vary': 'Origin' })
+    })
+
+    it('should allow credentials when enabled', () => {
+      process.env.CORS_ALLOW_CREDENTIALS = 'true'
+      expect(corsHeaders('https://bubbl.io', options)['Access-Control-Allow-Credentials']).toBe('true')
+    })
+  })
+
+  describe('createPreflightHandler', () => {
+    const preflight = (origin?: string) => createPreflightHandler(options)(
+      new Request('http://localhost/api/chat', {
+        method: 'OPTIONS',
+        headers: origin ? { Origin: origin } : {},
+      })
+    )
+
+    it('should accept preflights from allowed origins', async () => {
+      const response = await preflight('https://acme.com')
+
+      expect(response.status).toBe(204)
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://acme.com')
+      expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS')
+    })
+
+    it('should reject and log preflights from unknown origins', async () => {
+      const response = await preflight('https://evil.com')
+
+      expect(response.status).toBe(403)
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull()
+      expect(response.headers.get('Vary')).toBe('Origin')
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('CORS preflight from unknown origin'))
+    })
+  })
+})
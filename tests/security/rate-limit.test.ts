@@ -0,0 +1,142 @@
+/**
+ * Rate Limiting Security Tests
+ * Tests for /lib/rate-limit.ts
+ */
+
+import {
+  MemoryRateLimitBackend,
+  rateLimitKey,
+  rateLimitHeaders,
+  getClientIp,
+} from '../../lib/rate-limit'
+
+describe('Rate Limiting', () => {
+  const rule = { capacity: 3, refillPerMinute: 60 } // 1 token per second
+
+  describe('MemoryRateLimitBackend', () => {
+    let now: number
+    let backend: MemoryRateLimitBackend
+
+    beforeEach(() => {
+      now = 1_000_000
+      backend = new MemoryRateLimitBackend(() => now)
+    })
+
+    it('should allow bursts up to capacity', async () => {
+      const results = []
+      for (let i = 0; i < 3; i++) {
+        results.push(await backend.consume('key', rule))
+      }
+
+      expect(results.every(r => r.allowed)).toBe(true)
+      expect(results.map(r => r.remaining)).toEqual([2, 1, 0])
+    })
+
+    it('should reject once the bucket is empty', async () => {
+      for (let i = 0; i < 3; i++) await backend.consume('key', rule)
+
+      const result = await backend.consume('key', rule)
+      expect(result.allowed).toBe(false)
+      expect(result.remaining).toBe(0)
+      expect(result.retryAfterSeconds).toBe(1)
+    })
+
+    it('should refill over time', async () => {
+      for (let i = 0; i < 3; i++) await backend.consume('key', rule)
+
+      now += 2000
+      const result = await backend.consume('key', rule)
+      expect(result.allowed).toBe(true)
+      expect(result.remaining).toBe(1)
+    })
+
+    it('should not refill beyond capacity', async () => {
+      await backend.consume('key', rule)
+
+      now += 60_000
+      const result = await backend.consume('key', rule)
+      expect(result.remaining).toBe(2)
+    })
+
+    it('should check without consuming at a cost of 0', async () => {
+      for (let i = 0; i < 2; i++) await backend.consume('key', rule)
+
+      expect((await backend.consume('key', rule, 0))).toMatchObject({ allowed: true, remaining: 1 })
+      await backend.consume('key', rule)
+      expect((await backend.consume('key', rule, 0))).toMatchObject({ allowed: false, retryAfterSeconds: 1 })
+    })
+
+    it('should expire idle buckets by their own rule', async () => {
+      const slow = { capacity: 3, refillPerMinute: 1 }
+      for (let i = 0; i < 3; i++) await backend.consume('slow', slow)
+      now += 5000
+      for (let i = 0; i < 10_000; i++) await backend.consume(`key-${i}`, rule)
+
+      // Sweeping with the fast rule would think the slow bucket refilled and drop it
+      expect((await backend.consume('slow', slow)).allowed).toBe(false)
+    })
+
+    it('should keep separate buckets per key', async () => {
+      for (let i = 0; i < 3; i++) await backend.consume('key-a', rule)
+
+      expect((await backend.consume('key-a', rule)).allowed).toBe(false)
+      expect((await backend.consume('key-b', rule)).allowed).toBe(true)
+    })
+  })
+
+  describe('rateLimitKey', () => {
+    it('should not embed raw API keys', () => {
+      const key = rateLimitKey('api_key', 'sk_bubbl_secret')
+      expect(key).toMatch(/^api_key:[a-f0-9]{32}$/)
+      expect(key).not.toContain('secret')
+    })
+
+    it('should namespace users and IPs', () => {
+      expect(rateLimitKey('user', '42')).toBe('user:42')
+      expect(rateLimitKey('ip', '1.2.3.4')).toBe('ip:1.2.3.4')
+    })
+  })
+
+  describe('rateLimitHeaders', () => {
+    it('should only include Retry-After when limited', () => {
+      const allowed = rateLimitHeaders({ allowed: true, limit: 3, remaining: 2, resetSeconds: 1, retryAfterSeconds: 0 })
+      expect(allowed).toEqual({
+        'X-RateLimit-Limit': '3',
+        'X-RateLimit-Remaining': '2',
+        'X-RateLimit-Reset': '1',
+      })
+
+      const limited = rateLimitHeaders({ allowed: false, limit: 3, remaining: 0, resetSeconds: 3, retryAfterSeconds: 1 })
+      expect(limited['Retry-After']).toBe('1')
+    })
+  })
+
+  describe('getClientIp', () => {
+    const forwarded = (value: string) => new Request('http://localhost', { headers: { 'x-forwarded-for': value } })
+
+    afterEach(() => {
+      delete process.env.TRUSTED_PROXY_COUNT
+    })
+
+    it('should use the address added by the trusted proxy', () => {
+      expect(getClientIp(forwarded('203.0.113.1'))).toBe('203.0.113.1')
+      // The client sent "198.51.100.7" itself; the proxy appended the real address
+      expect(getClientIp(forwarded('198.51.100.7, 203.0.113.1'))).toBe('203.0.113.1')
+    })
+
+    it('should skip the configured number of trusted proxies', () => {
+      process.env.TRUSTED_PROXY_COUNT = '2'
+      expect(getClientIp(forwarded('198.51.100.7, 203.0.113.1, 10.0.0.1'))).toBe('203.0.113.1')
+    })
+
+    it('should prefer the platform-provided request ip', () => {
+      const request = Object.assign(forwarded('198.51.100.7'), { ip: '203.0.113.9' })
+      expect(getClientIp(request)).toBe('203.0.113.9')
+    })
+
+    it('should fall back to X-Real-IP, then unknown', () => {
+      expect(getClientIp(new Request('http://localhost', { headers: { 'x-real-ip': '203.0.113.2' } }))).toBe('203.0.113.2')
+      expect(getClientIp(new Request('http://localhost'))).toBe('unknown')
+    })
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Redaction Tests
+ * Tests for /lib/redaction.ts and redaction in /lib/logger.ts
+ */
+
+import { chatbotConfig } from '../../lib/config'
+import { logger } from '../../lib/logger'
+import { redactionRules, redactMessages, redactText, redactValue } from '../../lib/redaction'
+
+describe('Redaction', () => {
+  describe('redactText', () => {
+    it('should mask emails', () => {
+      expect(redactText('Reach me at jane.doe+trip@mail.example.co.uk please')).toEqual({
+        text: 'Reach me at [email] please',
+        counts: { email: 1 },
+      })
+    })
+
+    it('should mask North American and international phone numbers', () => {
+      const { text, counts } = redactText('Call (555) 123-4567, 555.123.4567 or +44 20 7946 0958')
+
+      expect(text).toBe('Call [phone], [phone] or [phone]')
+      expect(counts).toEqual({ phone: 3 })
+    })
+
+    it('should mask card numbers that pass the Luhn check', () => {
+      expect(redactText('Card 4111 1111 1111 1111 exp 12/27').text).toBe('Card [card] exp 12/27')
+      expect(redactText('Ref 4111 1111 1111 1112').text).toBe('Ref 4111 1111 1111 1112')
+    })
+
+    it('should leave dates, times, IPs and ids alone', () => {
+      const text = 'Jan 24 2026-01-24T10:30:00.000Z from 203.0.113.195, request 550e8400-e29b-41d4-a716-446655440000, 3 guests'
+      expect(redactText(text)).toEqual({ text, counts: {} })
+    })
+
+    it('should apply configured patterns', () => {
+      const rules = redactionRules({
+        ...chatbotConfig.redaction,
+        patterns: [{ name: 'booking_code', pattern: '\\bBK[0-9]{6}\\b', flags: 'i' }],
+      })
+
+      expect(redactText('My booking is bk123456', rules)).toEqual({
+        text: 'My booking is [booking_code]',
+        counts: { booking_code: 1 },
+      })
+    })
+  })
+
+  it('should redact strings nested in objects and arrays', () => {
+    const value = { user: { email: 'a@b.io' }, notes: ['call 555-123-4567'], count: 5555551234, when: new Date(0) }
+
+    expect(redactValue(value)).toEqual({ user: { email: '[email]' }, notes: ['call [phone]'], count: 5555551234, when: new Date(0) })
+  })
+
+  it('should add nested matches to running counts when given', () => {
+    const counts = { email: 1 }
+    redactValue({ user: { email: 'a@b.io' }, notes: ['call 555-123-4567'] }, undefined, 0, counts)
+
+    expect(counts).toEqual({ email: 2, phone: 1 })
+  })
+
+  it('should total counts across messages', () => {
+    const { messages, counts } = redactMessages([
+      { role: 'user', content: 'a@b.io' },
+      { role: 'assistant', content: 'Thanks! And your phone?' },
+      { role: 'user', content: '555-123-4567, or c@d.io' },
+    ])
+
+    expect(messages.map(m => m.content)).toEqual(['[email]', 'Thanks! And your phone?', '[phone], or [email]'])
+    expect(messages[0].role).toBe('user')
+    expect(counts).toEqual({ email: 2, phone: 1 })
+  })
+
+  describe('logger', () => {
+    const originalEnv = process.env
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, NODE_ENV: 'production' }
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+      chatbotConfig.redaction.logs = true
+    })
+
+    afterAll(() => {
+      process.env = originalEnv
+    })
+
+    it('should redact context values', () => {
+      logger.info('Processing message', { requestId: 'req-1', messagePreview: 'I am jo@example.com' })
+
+      const entry = JSON.parse((console.log as jest.Mock).mock.calls[0][0])
+      expect(entry).toMatchObject({ requestId: 'req-1', messagePreview: 'I am [email]' })
+    })
+
+    it('should log raw values when log redaction is off', () => {
+      chatbotConfig.redaction.logs = false
+      logger.info('Processing message', { messagePreview: 'I am jo@example.com' })
+
+      expect((console.log as jest.Mock).mock.calls[0][0]).toContain('jo@example.com')
+    })
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Multi-Tenant API Key Tests
+ * Tests for /lib/tenants.ts
+ */
+
+import {
+  resolveTenant,
+  getTenants,
+  getDefaultTenant,
+  getTenantModel,
+  buildTenantSystemPrompt,
+} from '../../lib/tenants'
+import { validateSiteUrl } from '../../lib/validation'
+
+describe('Tenants', () => {
+  const originalEnv = process.env
+
+  const tenants = [
+    {
+      id: 'acme',
+      name: 'Acme Stays',
+      apiKeys: ['sk_bubbl_acme1', 'sk_bubbl_acme2'],
+      allowedSiteDomains: ['acme.com'],
+      persona: 'You are Acme\'s concierge.',
+      model: { name: 'gpt-4', maxTokens: 300 },
+      features: { streaming: false },
+    },
+    {
+      id: 'globex',
+      apiKeys: ['sk_bubbl_globex'],
+      systemPrompt: 'Globex bot. Links go to {{siteUrl}}/listings and {{siteUrl}}/events.',
+    },
+  ]
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, BUBBL_TENANTS: JSON.stringify(tenants), LOG_LEVEL: 'error' }
+    delete process.env.BUBBL_TENANTS_FILE
+  })
+
+  afterAll(() => {
+    process.env = originalEnv
+  })
+
+  describe('resolveTenant', () => {
+    it('should resolve each key to its tenant', () => {
+      expect(resolveTenant('sk_bubbl_acme1')?.id).toBe('acme')
+      expect(resolveTenant('sk_bubbl_acme2')?.id).toBe('acme')
+      expect(resolveTenant('sk_bubbl_globex')?.id).toBe('globex')
+    })
+
+    it('should reject unknown and missing keys', () => {
+      expect(resolveTenant('sk_bubbl_unknown')).toBeNull()
+      expect(resolveTenant(null)).toBeNull()
+    })
+
+    it('should map legacy BUBBL_API_KEYS keys to the default tenant', () => {
+      process.env.BUBBL_API_KEYS = 'sk_bubbl_legacy'
+      expect(resolveTenant('sk_bubbl_legacy')?.id).toBe('default')
+    })
+
+    it('should ignore invalid configuration', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      process.env.BUBBL_TENANTS = '{not json'
+      expect(getTenants()).toEqual([])
+      jest.restoreAllMocks()
+    })
+  })
+
+  describe('tenant settings', () => {
+    it('should default features and name', () => {
+      const globex = resolveTenant('sk_bubbl_globex')!
+      expect(globex.name).toBe('globex')
+      expect(globex.features).toEqual({ streaming: true, threads: true })
+      expect(resolveTenant('sk_bubbl_acme1')!.features.streaming).toBe(false)
+    })
+
+    it('should merge model overrides over the global model config', () => {
+      const model = getTenantModel(resolveTenant('sk_bubbl_acme1')!)
+      expect(model.name).toBe('gpt-4')
+      expect(model.maxTokens).toBe(300)
+      expect(model.contextMessages).toBe(getTenantModel(getDefaultTenant()).contextMessages)
+    })
+
+    it('should append the persona to the default prompt', () => {
+      const prompt = buildTenantSystemPrompt(resolveTenant('sk_bubbl_acme1')!, 'https://acme.com')
+      expect(prompt).toContain('https://acme.com/listings')
+      expect(prompt).toContain("You are Acme's concierge.")
+    })
+
+    it('should substitute the site URL into a custom prompt', () => {
+      const prompt = buildTenantSystemPrompt(resolveTenant('sk_bubbl_globex')!, 'https://globex.io')
+      expect(prompt).toBe('Globex bot. Links go to https://globex.io/listings and https://globex.io/events.')
+    })
+
+    it('should enforce tenant site domains instead of ALLOWED_SITE_DOMAINS', () => {
+      process.env = { ...process.env, NODE_ENV: 'production' }
+      process.env.ALLOWED_SITE_DOMAINS = 'bubbl.io'
+      const { allowedSiteDomains } = resolveTenant('sk_bubbl_acme1')!
+
+      expect(validateSiteUrl('https://app.acme.com', { allowedDomains: allowedSiteDomains })).toBe('https://app.acme.com')
+      expect(validateSiteUrl('https://bubbl.io', { allowedDomains: allowedSiteDomains })).toBeNull()
+    })
+  })
+})
@@ -3,7 +3,13 @@
  * Tests for /lib/validation.ts
  */
 
-import { validateSiteUrl, sanitizeMessage } from '../../lib/validation'
+import {
+  validateSiteUrl,
+  sanitizeMessage,
+  parseWithSchema,
+  chatRequestSchema,
+  schema,
+} from '../../lib/validation'
 
 describe('Input Validation', () => {
   const originalEnv = process.env
@@ -174,3 +180,100 @@ describe('Input Validation', () => {
     })
   })
 })
+
+describe('Schema Validation', () => {
+  describe('chatRequestSchema', () => {
+    it('should return a typed, sanitized body', () => {
+      const result = parseWithSchema(chatRequestSchema, {
+        message: '  Hi there  ',
+        thread_id: 'abc-123',
+        messages: [{ role: 'assistant', content: 'Hello!' }],
+        extra: 'ignored',
+      })
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          message: 'Hi there',
+          thread_id: 'abc-123',
+          messages: [{ role: 'assistant', content: 'Hello!' }],
+          site_url: undefined,
+          stream: undefined,
+        },
+      })
+    })
+
+    it('should report every invalid field with its path', () => {
+      const result = parseWithSchema(chatRequestSchema, {
+        thread_id: '../etc',
+        messages: [{ role: 'user' }, 'hi'],
+        site_url: 42,
+      })
+
+      expect(result.success).toBe(false)
+      expect(!result.success && result.errors).toEqual([
+        { path: 'message', reason: 'is required' },
+        { path: 'thread_id', reason: 'must be 1-128 letters, digits, "-" or "_"' },
+        { path: 'messages[0].content', reason: 'is required' },
+        { path: 'messages[1]', reason: 'must be an object' },
+        { path: 'site_url', reason: 'must be a string' },
+      ])
+    })
+
+    it('should sanitize history turns like the message', () => {
+      const result = parseWithSchema(chatRequestSchema, {
+        message: 'Hi',
+        messages: [{ role: 'user', content: '  ' + 'A'.repeat(5000) }],
+      })
+
+      expect(result.success && result.data.messages![0].content).toBe('A'.repeat(2000))
+      expect(chatRequestSchema.jsonSchema).toMatchObject({
+        properties: { messages: { items: { properties: { content: { maxLength: 2000 } } } } },
+      })
+    })
+
+    it('should accept a null thread_id', () => {
+      const result = parseWithSchema(chatRequestSchema, { message: 'Hi', thread_id: null })
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject non-object bodies', () => {
+      expect(parseWithSchema(chatRequestSchema, ['Hi'])).toEqual({
+        success: false,
+        errors: [{ path: '', reason: 'must be an object' }],
+      })
+    })
+  })
+
+  describe('schema builders', () => {
+    it('should check numbers and array sizes', () => {
+      const body = schema.object({
+        count: schema.number({ min: 1, integer: true }),
+        tags: schema.array(schema.string(), { maxItems: 1 }),
+      })
+
+      expect(parseWithSchema(body, { count: 1.5, tags: ['a', 'b'] })).toEqual({
+        success: false,
+        errors: [
+          { path: 'count', reason: 'must be an integer' },
+          { path: 'tags', reason: 'must have at most 1 items' },
+        ],
+      })
+      expect(parseWithSchema(body, { count: 0, tags: [] })).toEqual({
+        success: false,
+        errors: [{ path: 'count', reason: 'must be at least 1' }],
+      })
+    })
+
+    it('should describe fields as JSON Schema', () => {
+      expect(chatRequestSchema.jsonSchema).toMatchObject({
+        type: 'object',
+        required: ['message'],
+        properties: {
+          thread_id: { type: 'string', nullable: true },
+          messages: { type: 'array', items: { properties: { role: { enum: ['user', 'assistant'] } } } },
+        },
+      })
+    })
+  })
+})